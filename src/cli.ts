@@ -6,19 +6,82 @@
 
 import { Command } from "commander";
 import { writeFile } from "node:fs/promises";
-import { resolve } from "node:path";
+import { basename, resolve } from "node:path";
 import chalk from "chalk";
 
-import { loadTranscript } from "./parser/loader.js";
-import { extractClip, getClipSummary } from "./parser/clip.js";
+import {
+  interleaveToolCallsAndResultsStream,
+  loadTranscript,
+  streamTranscript,
+  ToolPairingTracker,
+} from "./parser/loader.js";
+import {
+  collectClip,
+  createClipSummary,
+  addToClipSummary,
+  formatClipAdjustment,
+  parseClipRange,
+  parseTurnRange,
+  TurnTracker,
+  CLIP_REPAIR_MODES,
+  type ClipAdjustment,
+  type ClipOptions,
+  type ClipRange,
+  type ClipRepairMode,
+} from "./parser/clip.js";
+import { buildConversationTree, streamBranch, type StreamBranchOptions } from "./parser/tree.js";
+import { findResumeChain, sortSessionFiles } from "./parser/resume.js";
+import { createAgentResolver, parseAgentSearchPath, type AgentResolver } from "./parser/agents.js";
+import { validateTranscript, formatTranscriptIssue } from "./parser/validate.js";
+import { claudeAdapter, resolveTranscriptAdapter } from "./parser/adapters.js";
+import {
+  createRedactionRules,
+  loadRedactionConfig,
+  maskSecret,
+  redactTranscript,
+  Redactor,
+  type Redaction,
+} from "./parser/redact.js";
+import {
+  ContentFilter,
+  filterTranscript,
+  hasContentFilter,
+  parseToolList,
+  type ContentFilterOptions,
+} from "./parser/filter.js";
+import { collectSessionStats, loadPriceTable, type SessionStats } from "./parser/stats.js";
+import { searchTranscript, type SearchMatch, type SearchOptions } from "./parser/search.js";
 import { getTimestamp, getUuid } from "./parser/loader.js";
 import { convertToAsciicast, getSessionInfo, generateTitle } from "./generator/convert.js";
 import { serializeCast } from "./generator/builder.js";
+import { renderSvg } from "./generator/svg.js";
+import { renderHtml } from "./generator/html.js";
+import { renderMarkdownTranscript } from "./generator/markdown.js";
+import { streamAsciicast, type LiveCastSink } from "./generator/live.js";
+import { followTranscript } from "./parser/follow.js";
+import { AGENT_DISPLAY_MODES, type AgentDisplayMode } from "./generator/agents.js";
 import { getTheme } from "./renderer/theme.js";
-import type { MarkerMode } from "./types/asciicast.js";
-import { isRenderableMessage } from "./types/messages.js";
+import { formatTokenCount } from "./renderer/dividers.js";
+import { CAST_FORMATS, type CastFormat, type MarkerMode } from "./types/asciicast.js";
+import { isRenderableMessage, type TranscriptEntry } from "./types/messages.js";
 import { uploadToAsciinema } from "./cli/upload.js";
-import { getClaudeProjectPath, listSessions, getLatestSession, formatSize } from "./cli/sessions.js";
+import { combineSinks, createCastFileSink, createStreamSink, LiveCastServer } from "./cli/live.js";
+import {
+  findProjectPath,
+  getClaudeProjectsDir,
+  getProjectCwd,
+  getSessionDetails,
+  filterSessions,
+  listProjects,
+  listSessions,
+  resolveProject,
+  resolveSession,
+  sortSessions,
+  getLatestSession,
+  formatSize,
+  SESSION_SORT_KEYS,
+  type SessionDetails,
+} from "./cli/sessions.js";
 
 const program = new Command();
 
@@ -34,14 +97,35 @@ program
 program
   .command("cast")
   .description("Generate asciicast from a session file")
-  .argument("[session]", "Path to session JSONL file (or use --latest)")
-  .option("--latest", "Use most recent session from current project")
+  .argument("[sessions...]", "Session file(s) or ID (prefixes), several are stitched as resumed sessions (or use --latest)")
+  .option("--latest [n]", "Use most recent (or Nth most recent) session from current project", parseLatestOption)
+  .option("--project <path|name>", "Project for --latest: a working directory or project directory name")
+  .option("--follow-resume", "Include the sessions this one was resumed from or continued in")
+  .option("--no-resume-divider", "Don't show a divider where a resumed session continues")
+  .option("--follow", "Keep reading the session as it is written, streaming events as they render (without subagent transcripts)")
+  .option("--serve <port>", "With --follow, serve the live recording over HTTP on this port", parseIntOption)
+  .option("--idle-timeout <seconds>", "With --follow, stop after this long without new messages", parseFloatOption)
   .option("--start-uuid <uuid>", "Start from message UUID")
   .option("--end-uuid <uuid>", "End at message UUID")
+  .option("--range <start..end>", "UUID range to include; repeat to join several ranges", collectClipRange)
   .option("--last <n>", "Last N messages", parseIntOption)
+  .option("--turns <range>", "Turns to include, e.g. 3-7, 5 or 3- (see list)", parseTurnRange)
+  .option("--last-turns <n>", "Last N turns", parseIntOption)
+  .option("--turn-of <uuid>", "The turn containing this message UUID")
+  .option("--from-prompt <regex>", "Start at the user prompt matching this pattern")
+  .option("--to-prompt <regex>", "End after the response to the user prompt matching this pattern")
+  .option("--around <regex>", "Center the clip on the message matching this pattern")
+  .option("--context <n>", "Messages on each side of the --around match (default: 3)", parseIntOption)
+  .option("--from-tool <tool[:target]>", "Start at the first call of a tool, e.g. Edit:src/foo.ts")
   .option("--start-time <timestamp>", "Start from timestamp (ISO 8601)")
   .option("--end-time <timestamp>", "End at timestamp (ISO 8601)")
+  .option("--clip-repair <mode>", "Clip edges cutting a tool exchange (widen, trim, none)", parseClipRepairOption, "widen")
+  .option("--include-prompt", "Include the prompt that started the clip's first turn")
   .option("-o, --output <file>", "Output file path (default: stdout)")
+  .option("--format <format>", "Output format: asciicast version or animated SVG (v2, v3, svg)", parseCastFormatOption, "v3")
+  .option("--svg-max-frames <n>", "With --format svg, most frames to keep (default: 300)", parseIntOption)
+  .option("--svg-idle-limit <seconds>", "With --format svg, longest pause between frames (default: 2)", parseFloatOption)
+  .option("--svg-window", "With --format svg, draw a window title bar")
   .option("--theme <name>", "Theme name (tokyo-night, dracula, nord, catppuccin-mocha)", "tokyo-night")
   .option("--preset <preset>", "Timing preset (speedrun, default, realtime)", "default")
   .option("--max-wait <seconds>", "Maximum pause between events", parseFloatOption)
@@ -52,28 +136,43 @@ program
   .option("--cols <n>", "Terminal width", parseIntOption, 100)
   .option("--rows <n>", "Terminal height", parseIntOption, 40)
   .option("--markers <mode>", "Marker mode (all, user, tools, none)", "all")
+  .option("--boundary-markers", "Add markers at compaction boundaries and summaries")
   .option("--title <title>", "Recording title")
   .option("--upload", "Upload to asciinema.org after generation")
+  .option("--agents <mode>", "Subagent display (collapsed, inline, expanded)", parseAgentModeOption, "expanded")
   .option("--no-agents", "Exclude agent/sub-assistant messages")
+  .option("--agent-path <dirs>", "Extra directories to search for agent transcripts (colon-separated)")
+  .option("--branch <leaf-uuid>", "Follow the branch ending at this message (default: latest)")
+  .option("--input-format <name>", "Transcript format (auto, claude, codex)", "auto")
+  .option("--hide-thinking", "Leave out thinking blocks")
+  .option("--exclude-tools <tools>", "Leave out calls to these tools, e.g. Read,Glob,Grep", parseToolList)
+  .option("--only-tools <tools>", "Leave out calls to every tool not listed", parseToolList)
+  .option("--hide-tool-results", "Leave out tool results, keeping the calls")
+  .option("--collapse-tools <tools>", "Show a one-line summary for results of these tools", parseToolList)
+  .option("--redact", "Redact secrets, tokens and home-directory paths before rendering")
+  .option("--redact-config <file>", "Redaction config with custom rules (implies --redact)")
+  .option("--redact-dry-run", "List what would be redacted, without generating a recording")
   .option("-q, --quiet", "Suppress stats output")
   .option("-I, --interactive", "Open interactive options form")
-  .action(async (sessionPath: string | undefined, options) => {
+  .action(async (sessionPaths: string[], options) => {
     try {
       // Resolve session path
       let fullPath: string;
       if (options.latest) {
-        const latest = await getLatestSession(process.cwd());
+        const projectPath = await resolveProject(options.project);
+        const latest = await getLatestSession(projectPath, getLatestIndex(options.latest));
         if (!latest) {
-          console.error(chalk.red("Error: No sessions found for current project"));
-          console.error(chalk.gray(`  Looked in: ${getClaudeProjectPath(process.cwd())}`));
+          console.error(chalk.red(`Error: ${formatNoLatestSession(options.latest)}`));
+          console.error(chalk.gray(`  Looked in: ${projectPath}`));
           process.exit(1);
         }
         fullPath = latest;
         if (!options.quiet) {
           console.error(chalk.gray(`Using: ${fullPath}`));
         }
-      } else if (sessionPath) {
-        fullPath = resolve(sessionPath);
+      } else if (sessionPaths[0]) {
+        sessionPaths = await resolveSessionArgs(sessionPaths, options);
+        fullPath = sessionPaths[0]!;
       } else {
         console.error(chalk.red("Error: Provide a session path or use --latest"));
         process.exit(1);
@@ -97,29 +196,91 @@ program
         }
       }
 
-      const entries = await loadTranscript(fullPath, {
-        loadAgents: options.agents !== false,
-      });
+      // Follow mode: tail the session and stream events as entries arrive
+      if (options.follow) {
+        if (!["auto", "claude"].includes(options.inputFormat)) {
+          console.error(chalk.red("Error: --follow only supports Claude Code sessions"));
+          process.exit(1);
+        }
+        if (options.format !== "v3") {
+          console.error(chalk.red("Error: --follow only writes asciicast v3"));
+          process.exit(1);
+        }
+        const unsupported = getFollowUnsupportedFlags(options);
+        if (sessionPaths.length > 1) unsupported.push("several sessions");
+        if (unsupported.length > 0) {
+          console.error(chalk.red(`Error: --follow does not support ${unsupported.join(", ")}`));
+          console.error(chalk.gray("  Clips, branches, resume stitching and agent transcripts need the whole session"));
+          process.exit(1);
+        }
+        await followSession(fullPath, {
+          ...options,
+          redactor: await createRedactor(options),
+          contentFilter: createContentFilter(options),
+        });
+        return;
+      }
 
-      if (entries.length === 0) {
-        console.error(chalk.red("Error: No messages found in session file"));
+      if (options.format === "svg" && options.upload) {
+        console.error(chalk.red("Error: --upload needs an asciicast format (v2 or v3)"));
         process.exit(1);
       }
 
-      // Apply clip extraction
-      const clip = extractClip(entries, {
-        startUuid: options.startUuid,
-        endUuid: options.endUuid,
-        startTime: options.startTime,
-        endTime: options.endTime,
-        last: options.last,
-      });
+      const sessionFiles = await resolveSessionFiles(
+        fullPath,
+        options.latest ? [] : sessionPaths,
+        options.followResume
+      );
+      if (sessionFiles.length > 1 && !options.quiet) {
+        console.error(chalk.gray(`Stitching ${sessionFiles.length} sessions`));
+      }
+
+      // Stream the transcript, retaining only the clip
+      const counter = { count: 0 };
+      const adjustments: ClipAdjustment[] = [];
+      let clip = await collectClip(
+        countEntries(
+          streamSession(sessionFiles, options.inputFormat, {
+            loadAgents: options.agents !== false,
+            agentResolver: getAgentResolver(options),
+            leafUuid: options.branch,
+            resumeDividers: options.resumeDivider,
+          }),
+          counter
+        ),
+        getClipOptions(options, (adjustment) => adjustments.push(adjustment))
+      );
+
+      if (counter.count === 0) {
+        console.error(chalk.red("Error: No messages found in session file"));
+        process.exit(1);
+      }
 
       if (clip.length === 0) {
         console.error(chalk.red("Error: No messages match the specified criteria"));
         process.exit(1);
       }
 
+      if (adjustments.length > 0 && !options.quiet) {
+        console.error(chalk.yellow("Adjusted clip edges:"));
+        for (const adjustment of adjustments) {
+          console.error(chalk.yellow(`  ${formatClipAdjustment(adjustment)}`));
+        }
+      }
+
+      // Scrub secrets before anything is rendered
+      const redactor = await createRedactor(options);
+      if (redactor) {
+        clip = redactor.redactEntries(clip);
+        if (options.redactDryRun) {
+          printRedactionReport(redactor.redactions);
+          return;
+        }
+        if (!options.quiet) {
+          console.error(chalk.gray(`Redacted ${redactor.redactions.length} value(s)`));
+        }
+      }
+
       // Interactive mode: launch form TUI
       if (options.interactive) {
         const { runInteractiveForm } = await import("./cli/interactive.js");
@@ -150,6 +311,21 @@ program
         options.statusSpinner = formConfig.statusSpinner;
         options.spinnerDuration = formConfig.spinnerDuration;
         options.markers = formConfig.markers;
+        options.hideThinking = formConfig.hideThinking;
+        options.hideToolResults = formConfig.hideToolResults;
+        options.excludeTools = parseToolList(formConfig.excludeTools);
+        options.onlyTools = parseToolList(formConfig.onlyTools);
+        options.collapseTools = parseToolList(formConfig.collapseTools);
+      }
+
+      // Leave filtered content out of both output and timing
+      const contentFilter = createContentFilter(options);
+      if (contentFilter) {
+        clip = contentFilter.filterEntries(clip);
+        if (clip.length === 0) {
+          console.error(chalk.red("Error: No messages left after filtering"));
+          process.exit(1);
+        }
       }
 
       // Get theme
@@ -174,23 +350,34 @@ program
         },
         markers: {
           mode: options.markers as MarkerMode,
+          boundaries: options.boundaryMarkers,
         },
         render: {
           theme,
           width: options.cols,
+          showThinking: !options.hideThinking,
+          showToolResults: !options.hideToolResults,
         },
         inputAnimation: true, // Always enable Claude Code style input UI
         statusSpinner: options.statusSpinner,
         spinnerDuration: options.spinnerDuration,
+        agents: options.agents || undefined,
       });
 
       // Serialize
-      const castContent = serializeCast(result.document);
+      const content =
+        options.format === "svg"
+          ? renderSvg(result.document, {
+              maxFrames: options.svgMaxFrames,
+              idleTimeLimit: options.svgIdleLimit,
+              window: options.svgWindow,
+            })
+          : serializeCast(result.document, options.format);
 
       // Output
       if (options.output) {
         const outputPath = resolve(options.output);
-        await writeFile(outputPath, castContent, "utf-8");
+        await writeFile(outputPath, content, "utf-8");
 
         if (!options.quiet) {
           console.error(chalk.green(`✓ Generated ${outputPath}`));
@@ -204,11 +391,11 @@ program
       } else if (options.upload) {
         // Write to temp file for upload
         const tempPath = `/tmp/cc-prism-${Date.now()}.cast`;
-        await writeFile(tempPath, castContent, "utf-8");
+        await writeFile(tempPath, content, "utf-8");
         await handleUpload(tempPath, options.quiet);
       } else {
         // Write to stdout
-        process.stdout.write(castContent);
+        process.stdout.write(content);
       }
     } catch (error) {
       console.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
@@ -223,102 +410,210 @@ program
 program
   .command("list")
   .description("List messages with UUIDs and timestamps")
-  .argument("<session>", "Path to session JSONL file")
+  .argument("<session>", "Session JSONL file, or session ID (prefix)")
   .option("--no-agents", "Exclude agent/sub-assistant messages")
+  .option("--agent-path <dirs>", "Extra directories to search for agent transcripts (colon-separated)")
   .option("--all", "Show all messages including non-renderable")
+  .option("--tree", "Show the conversation tree with rewound/retried branches")
+  .option("--branch <leaf-uuid>", "Only list the branch ending at this message")
+  .option("--input-format <name>", "Transcript format (auto, claude, codex)", "auto")
   .action(async (sessionPath: string, options) => {
     try {
-      const fullPath = resolve(sessionPath);
-      const entries = await loadTranscript(fullPath, {
-        loadAgents: options.agents !== false,
-      });
+      const fullPath = await resolveSession(sessionPath, () => resolveProject());
 
-      if (entries.length === 0) {
-        console.log(chalk.yellow("No messages found in session file"));
+      if (options.tree) {
+        await printConversationTree(fullPath, options);
         return;
       }
 
-      // Print header
-      console.log(
-        chalk.bold(
-          padRight("UUID", 12) +
-            padRight("TIME", 10) +
-            padRight("TYPE", 12) +
-            "CONTENT"
-        )
-      );
-      console.log("─".repeat(80));
+      const summary = createClipSummary();
+      const pairing = new ToolPairingTracker();
+      const turns = new TurnTracker();
+      let shownTurn = 0;
+      const missingAgents: string[] = [];
+      const streamOptions = {
+        loadAgents: options.agents !== false,
+        agentResolver: getAgentResolver(options),
+        onMissingAgent: (agentId: string) => missingAgents.push(agentId),
+      };
+      const adapter = await resolveTranscriptAdapter(fullPath, options.inputFormat);
+      const source =
+        adapter !== claudeAdapter
+          ? adapter.read(fullPath)
+          : options.branch
+            ? streamBranch(fullPath, { ...streamOptions, leafUuid: options.branch })
+            : streamTranscript(fullPath, streamOptions);
+
+      // Print messages as they stream in
+      for await (const entry of source) {
+        // Print header before the first entry
+        if (summary.total === 0) {
+          printListHeader(true);
+        }
+        addToClipSummary(summary, entry);
+        pairing.add(entry);
+        const turn = turns.add(entry);
 
-      // Print messages
-      for (const entry of entries) {
         if (!options.all && !isRenderableMessage(entry)) {
           continue;
         }
 
-        const uuid = getUuid(entry);
-        const timestamp = getTimestamp(entry);
-        const timeStr = timestamp
-          ? timestamp.toISOString().substring(11, 19)
-          : "        ";
-
-        const uuidShort = uuid ? uuid.substring(0, 10) + ".." : "            ";
-
-        let typeStr: string = entry.type;
-        let contentPreview = "";
-
-        if (entry.type === "user") {
-          if (entry.toolUseResult) {
-            typeStr = "tool-result";
-            const isError = typeof entry.toolUseResult === "string" || entry.toolUseResult.is_error;
-            contentPreview = isError ? "(error)" : "(success)";
-          } else {
-            const content =
-              typeof entry.message.content === "string"
-                ? entry.message.content
-                : "";
-            contentPreview = content.substring(0, 40).replace(/\n/g, " ");
-          }
-        } else if (entry.type === "assistant") {
-          const tools = entry.message.content.filter((c) => c.type === "tool_use");
-          if (tools.length > 0) {
-            const toolNames = tools.map((t) => t.name).join(", ");
-            contentPreview = `[${toolNames}]`;
-          } else {
-            const text = entry.message.content.find((c) => c.type === "text");
-            if (text && text.type === "text") {
-              contentPreview = text.text.substring(0, 40).replace(/\n/g, " ");
-            }
-          }
-        } else if (entry.type === "system" && entry.content) {
-          contentPreview = entry.content.substring(0, 40);
-        }
+        // Number each turn on its first visible row
+        console.log(formatListRow(entry, turn !== shownTurn ? String(turn) : ""));
+        shownTurn = turn;
+      }
 
-        const color = getTypeColor(entry.type);
-        console.log(
-          chalk.gray(uuidShort) +
-            chalk.gray(padRight(timeStr, 10)) +
-            color(padRight(typeStr, 12)) +
-            contentPreview
-        );
+      if (summary.total === 0) {
+        console.log(chalk.yellow("No messages found in session file"));
+        return;
       }
 
       // Summary
-      const summary = getClipSummary(entries);
       console.log("─".repeat(80));
       console.log(
         chalk.gray(
           `Total: ${summary.total} messages | ` +
+            `Turns: ${shownTurn} | ` +
             `User: ${summary.user} | ` +
             `Assistant: ${summary.assistant} | ` +
             `Tools: ${summary.tools}`
         )
       );
+
+      // Report tool calls and results that could not be paired
+      const orphans = pairing.report();
+      for (const id of orphans.orphanCalls) {
+        console.log(chalk.yellow(`Tool call without result: ${id}`));
+      }
+      for (const uuid of orphans.orphanResults) {
+        console.log(chalk.yellow(`Tool result without call: ${uuid}`));
+      }
+
+      // Report agents whose transcripts could not be found
+      for (const agentId of missingAgents) {
+        console.log(chalk.yellow(`Agent transcript not found: ${agentId}`));
+      }
     } catch (error) {
       console.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
       process.exit(1);
     }
   });
 
+/** Print the conversation tree of a session, marking the active branch */
+async function printConversationTree(
+  fullPath: string,
+  options: { all?: boolean; branch?: string }
+): Promise<void> {
+  // Sidechain entries are not part of the tree
+  const entries = await loadTranscript(fullPath, { loadAgents: false });
+  const tree = buildConversationTree(entries);
+
+  if (tree.size === 0) {
+    console.log(chalk.yellow("No messages found in session file"));
+    return;
+  }
+
+  const byUuid = new Map<string, TranscriptEntry>();
+  for (const entry of entries) {
+    const uuid = getUuid(entry);
+    if (uuid) byUuid.set(uuid, entry);
+  }
+  const activeLeaf = options.branch ? tree.resolve(options.branch) : tree.getDefaultLeaf();
+
+  printListHeader();
+  for (const line of tree.walk(activeLeaf)) {
+    const entry = byUuid.get(line.uuid);
+    if (!entry) continue;
+
+    if (line.branch) {
+      const { index, count, active } = line.branch;
+      console.log(
+        chalk.gray("│ ".repeat(line.depth - 1) + `├─ branch ${index}/${count}`) +
+          (active ? chalk.green(" (active)") : chalk.gray(" (abandoned)"))
+      );
+    }
+
+    if (!options.all && !isRenderableMessage(entry)) {
+      continue;
+    }
+    console.log(chalk.gray("│ ".repeat(line.depth)) + formatListRow(entry));
+  }
+
+  console.log("─".repeat(80));
+  console.log(
+    chalk.gray(
+      `Leaves: ${tree.leaves.length} | ` +
+        `Active leaf: ${activeLeaf ?? "(none)"}`
+    )
+  );
+  if (tree.hasBranches) {
+    console.log(chalk.gray(`Use: cc-prism cast ${fullPath} --branch <leaf-uuid>`));
+  }
+}
+
+function printListHeader(showTurns = false): void {
+  console.log(
+    chalk.bold(
+      (showTurns ? padRight("TURN", 6) : "") +
+        padRight("UUID", 12) +
+        padRight("TIME", 10) +
+        padRight("TYPE", 12) +
+        "CONTENT"
+    )
+  );
+  console.log("─".repeat(80));
+}
+
+/** Format a single list row: short UUID, time, type and content preview */
+function formatListRow(entry: TranscriptEntry, turn?: string): string {
+  const uuid = getUuid(entry);
+  const timestamp = getTimestamp(entry);
+  const timeStr = timestamp
+    ? timestamp.toISOString().substring(11, 19)
+    : "        ";
+
+  const uuidShort = uuid ? uuid.substring(0, 10) + ".." : "            ";
+
+  let typeStr: string = entry.type;
+  let contentPreview = "";
+
+  if (entry.type === "user") {
+    if (entry.toolUseResult) {
+      typeStr = "tool-result";
+      const isError = typeof entry.toolUseResult === "string" || entry.toolUseResult.is_error;
+      contentPreview = isError ? "(error)" : "(success)";
+    } else {
+      const content =
+        typeof entry.message.content === "string"
+          ? entry.message.content
+          : "";
+      contentPreview = content.substring(0, 40).replace(/\n/g, " ");
+    }
+  } else if (entry.type === "assistant") {
+    const tools = entry.message.content.filter((c) => c.type === "tool_use");
+    if (tools.length > 0) {
+      const toolNames = tools.map((t) => t.name).join(", ");
+      contentPreview = `[${toolNames}]`;
+    } else {
+      const text = entry.message.content.find((c) => c.type === "text");
+      if (text && text.type === "text") {
+        contentPreview = text.text.substring(0, 40).replace(/\n/g, " ");
+      }
+    }
+  } else if (entry.type === "system" && entry.content) {
+    contentPreview = entry.content.substring(0, 40);
+  }
+
+  const color = getTypeColor(entry.type);
+  return (
+    (turn !== undefined ? chalk.cyan(padRight(turn, 6)) : "") +
+    chalk.gray(uuidShort) +
+    chalk.gray(padRight(timeStr, 10)) +
+    color(padRight(typeStr, 12)) +
+    contentPreview
+  );
+}
+
 // =============================================================================
 // Helpers
 // =============================================================================
@@ -339,6 +634,204 @@ function parseFloatOption(value: string): number {
   return parsed;
 }
 
+function collectClipRange(value: string, previous: ClipRange[] = []): ClipRange[] {
+  return [...previous, parseClipRange(value)];
+}
+
+/** Clip flags shared by the `cast` and `export` commands */
+type ClipFlags = Omit<ClipOptions, "ranges" | "repair" | "onRepair"> & {
+  range?: ClipRange[];
+  clipRepair?: ClipRepairMode;
+};
+
+/** Build clip options from the clip flags */
+function getClipOptions(options: ClipFlags, onRepair: (adjustment: ClipAdjustment) => void): ClipOptions {
+  return {
+    startUuid: options.startUuid,
+    endUuid: options.endUuid,
+    startTime: options.startTime,
+    endTime: options.endTime,
+    last: options.last,
+    turns: options.turns,
+    lastTurns: options.lastTurns,
+    turnOf: options.turnOf,
+    fromPrompt: options.fromPrompt,
+    toPrompt: options.toPrompt,
+    around: options.around,
+    context: options.context,
+    fromTool: options.fromTool,
+    ranges: options.range,
+    repair: options.clipRepair,
+    includePrompt: options.includePrompt,
+    onRepair,
+  };
+}
+
+/** Parse `--latest N` (1 = most recent) */
+function parseLatestOption(value: string): number {
+  const nth = parseIntOption(value);
+  if (nth < 1) {
+    throw new Error(`Invalid --latest: ${value}. Use 1 for the most recent session`);
+  }
+  return nth;
+}
+
+/** Which session `--latest` picks: bare `--latest` is the most recent */
+function getLatestIndex(latest: true | number): number {
+  return latest === true ? 1 : latest;
+}
+
+function formatNoLatestSession(latest: true | number): string {
+  const nth = getLatestIndex(latest);
+  return nth === 1
+    ? "No sessions found for current project"
+    : `Fewer than ${nth} sessions found for current project`;
+}
+
+/** Resolve session arguments (paths, IDs or ID prefixes) to file paths */
+async function resolveSessionArgs(values: string[], options: { project?: string }): Promise<string[]> {
+  // Only IDs need the project; explicit paths are used as they are
+  let projectPath: Promise<string> | undefined;
+  const getProjectPath = () => (projectPath ??= resolveProject(options.project));
+  return Promise.all(values.map((value) => resolveSession(value, getProjectPath)));
+}
+
+/** Output formats of the cast command: asciicast versions or an animated SVG */
+type CastOutputFormat = CastFormat | "svg";
+
+const CAST_OUTPUT_FORMATS: readonly CastOutputFormat[] = [...CAST_FORMATS, "svg"];
+
+function parseCastFormatOption(value: string): CastOutputFormat {
+  if (!(CAST_OUTPUT_FORMATS as readonly string[]).includes(value)) {
+    throw new Error(`Invalid output format: ${value} (use ${CAST_OUTPUT_FORMATS.join(", ")})`);
+  }
+  return value as CastOutputFormat;
+}
+
+/** Formats of the export command */
+type ExportFormat = "html" | "md";
+
+const EXPORT_FORMATS: readonly ExportFormat[] = ["html", "md"];
+
+function parseExportFormatOption(value: string): ExportFormat {
+  if (!(EXPORT_FORMATS as readonly string[]).includes(value)) {
+    throw new Error(`Invalid export format: ${value} (use ${EXPORT_FORMATS.join(", ")})`);
+  }
+  return value as ExportFormat;
+}
+
+function parseClipRepairOption(value: string): ClipRepairMode {
+  if (!(CLIP_REPAIR_MODES as readonly string[]).includes(value)) {
+    throw new Error(`Invalid clip repair mode: ${value} (use ${CLIP_REPAIR_MODES.join(", ")})`);
+  }
+  return value as ClipRepairMode;
+}
+
+function parseAgentModeOption(value: string): AgentDisplayMode {
+  if (!(AGENT_DISPLAY_MODES as readonly string[]).includes(value)) {
+    throw new Error(`Invalid agent mode: ${value} (use ${AGENT_DISPLAY_MODES.join(", ")})`);
+  }
+  return value as AgentDisplayMode;
+}
+
+/**
+ * Get the session files to stitch together: the resume chain when following
+ * resumes, several files in time order, or just the one session.
+ */
+async function resolveSessionFiles(
+  fullPath: string,
+  sessionPaths: string[],
+  followResume: boolean | undefined
+): Promise<string[]> {
+  if (followResume) {
+    return findResumeChain(fullPath);
+  }
+  if (sessionPaths.length > 1) {
+    return sortSessionFiles(sessionPaths.map((path) => resolve(path)));
+  }
+  return [fullPath];
+}
+
+/** Create the agent resolver for a command, including any --agent-path directories */
+function getAgentResolver(options: { agentPath?: string }): AgentResolver {
+  return createAgentResolver({
+    searchPath: options.agentPath ? parseAgentSearchPath(options.agentPath) : [],
+  });
+}
+
+/**
+ * Stream the session files in their transcript format. Claude Code sessions
+ * go through streamBranch (agents, branches, resume stitching); other formats
+ * are read by their adapter, one file after another.
+ */
+async function* streamSession(
+  sessionFiles: string[],
+  inputFormat: string,
+  options: StreamBranchOptions
+): AsyncGenerator<TranscriptEntry> {
+  const adapter = await resolveTranscriptAdapter(sessionFiles[0]!, inputFormat);
+  if (adapter === claudeAdapter) {
+    yield* streamBranch(sessionFiles, options);
+    return;
+  }
+
+  for (const file of sessionFiles) {
+    yield* adapter.read(file);
+  }
+}
+
+/** Create the content filter for `cast` options, or null when no filter is on */
+function createContentFilter(options: ContentFilterOptions): ContentFilter | null {
+  return hasContentFilter(options) ? new ContentFilter(options) : null;
+}
+
+/** Create the redactor for `cast` options, or null when redaction is off */
+async function createRedactor(options: {
+  redact?: boolean;
+  redactConfig?: string;
+  redactDryRun?: boolean;
+}): Promise<Redactor | null> {
+  if (!options.redact && !options.redactConfig && !options.redactDryRun) {
+    return null;
+  }
+  const config = options.redactConfig ? await loadRedactionConfig(resolve(options.redactConfig)) : {};
+  return new Redactor(createRedactionRules(config));
+}
+
+/** Print every redaction: entry UUID, rule, location and a masked preview */
+function printRedactionReport(redactions: Redaction[]): void {
+  if (redactions.length === 0) {
+    console.log(chalk.green("Nothing to redact"));
+    return;
+  }
+
+  console.log(chalk.bold(padRight("UUID", 38) + padRight("RULE", 19) + padRight("PATH", 42) + "VALUE"));
+  console.log("─".repeat(100));
+  for (const redaction of redactions) {
+    console.log(
+      chalk.gray(padRight(redaction.uuid, 38)) +
+        chalk.yellow(padRight(redaction.rule, 19)) +
+        padRight(redaction.path, 41) + " " +
+        chalk.gray(maskSecret(redaction.match))
+    );
+  }
+
+  const entries = new Set(redactions.map((r) => r.uuid)).size;
+  console.log("─".repeat(100));
+  console.log(chalk.gray(`Total: ${redactions.length} redaction(s) in ${entries} message(s)`));
+}
+
+/** Pass entries through while counting them */
+async function* countEntries(
+  source: AsyncIterable<TranscriptEntry>,
+  counter: { count: number }
+): AsyncGenerator<TranscriptEntry> {
+  for await (const entry of source) {
+    counter.count++;
+    yield entry;
+  }
+}
+
 function padRight(str: string, len: number): string {
   return str.padEnd(len);
 }
@@ -364,6 +857,8 @@ interface ConvertStats {
   eventsGenerated: number;
   markersGenerated: number;
   duration: number;
+  orphanToolCalls: number;
+  orphanToolResults: number;
 }
 
 function printStats(stats: ConvertStats, options: { preset?: string }): void {
@@ -376,6 +871,155 @@ function printStats(stats: ConvertStats, options: { preset?: string }): void {
         `Preset: ${options.preset ?? "default"}`
     )
   );
+  if (stats.orphanToolCalls > 0 || stats.orphanToolResults > 0) {
+    console.error(
+      chalk.yellow(
+        `  Unpaired tools: ${stats.orphanToolCalls} call(s) without result, ` +
+          `${stats.orphanToolResults} result(s) without call`
+      )
+    );
+  }
+}
+
+/** Options used by `cast --follow` */
+interface FollowSessionOptions {
+  output?: string;
+  serve?: number;
+  idleTimeout?: number;
+  quiet?: boolean;
+  theme: string;
+  title?: string;
+  cols: number;
+  rows: number;
+  preset: string;
+  maxWait?: number;
+  thinkingPause?: number;
+  typingEffect?: boolean;
+  markers: string;
+  boundaryMarkers?: boolean;
+  statusSpinner?: boolean;
+  spinnerDuration?: number;
+  agents?: AgentDisplayMode | false;
+  redactor?: Redactor | null;
+  contentFilter?: ContentFilter | null;
+  hideThinking?: boolean;
+  hideToolResults?: boolean;
+}
+
+/** Options that need the whole session, which `--follow` does not have yet */
+const FOLLOW_UNSUPPORTED_OPTIONS: ReadonlyArray<[option: string, flag: string]> = [
+  ["startUuid", "--start-uuid"],
+  ["endUuid", "--end-uuid"],
+  ["range", "--range"],
+  ["last", "--last"],
+  ["turns", "--turns"],
+  ["lastTurns", "--last-turns"],
+  ["turnOf", "--turn-of"],
+  ["fromPrompt", "--from-prompt"],
+  ["toPrompt", "--to-prompt"],
+  ["around", "--around"],
+  ["context", "--context"],
+  ["fromTool", "--from-tool"],
+  ["startTime", "--start-time"],
+  ["endTime", "--end-time"],
+  ["includePrompt", "--include-prompt"],
+  ["branch", "--branch"],
+  ["followResume", "--follow-resume"],
+  ["agentPath", "--agent-path"],
+  ["redactDryRun", "--redact-dry-run"],
+];
+
+/** Flags given that `--follow` would otherwise ignore */
+function getFollowUnsupportedFlags(options: Record<string, unknown>): string[] {
+  const flags = FOLLOW_UNSUPPORTED_OPTIONS.filter(([option]) => options[option] !== undefined).map(
+    ([, flag]) => flag
+  );
+  // Subagent transcripts are not read, so only the default display mode applies
+  if (options["agents"] === false) flags.push("--no-agents");
+  else if (options["agents"] !== "expanded") flags.push(`--agents ${String(options["agents"])}`);
+  return flags;
+}
+
+/**
+ * Tail a session that is still being written, sending events to the output
+ * file, the live HTTP stream, or stdout as each entry renders.
+ * Stops on Ctrl+C or after the idle timeout.
+ */
+async function followSession(fullPath: string, options: FollowSessionOptions): Promise<void> {
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+
+  const sinks: LiveCastSink[] = [];
+  if (options.output) {
+    sinks.push(createCastFileSink(resolve(options.output)));
+  }
+
+  let server: LiveCastServer | null = null;
+  if (options.serve !== undefined) {
+    server = new LiveCastServer();
+    const port = await server.listen(options.serve);
+    if (!options.quiet) {
+      console.error(chalk.cyan(`Serving live recording at http://127.0.0.1:${port}/`));
+    }
+    sinks.push(server);
+  }
+
+  if (sinks.length === 0) {
+    sinks.push(createStreamSink(process.stdout));
+  }
+
+  if (!options.quiet) {
+    console.error(chalk.gray(`Following ${fullPath} (Ctrl+C to stop)`));
+  }
+
+  try {
+    // Order parallel tool calls and results as a batch conversion does
+    const followed = interleaveToolCallsAndResultsStream(
+      followTranscript(fullPath, {
+        signal: controller.signal,
+        idleTimeout: options.idleTimeout !== undefined ? options.idleTimeout * 1000 : undefined,
+      })
+    );
+    const filtered = options.contentFilter
+      ? filterTranscript(followed, options.contentFilter)
+      : followed;
+    const entries = options.redactor ? redactTranscript(filtered, options.redactor) : filtered;
+
+    const result = await streamAsciicast(entries, combineSinks(sinks), {
+      builder: {
+        cols: options.cols,
+        rows: options.rows,
+        title: options.title ?? generateTitle(getSessionInfo([])),
+      },
+      timing: {
+        preset: options.preset as "speedrun" | "default" | "realtime",
+        maxWait: options.maxWait,
+        thinkingPause: options.thinkingPause,
+        typingEffect: options.typingEffect,
+      },
+      markers: {
+        mode: options.markers as MarkerMode,
+        boundaries: options.boundaryMarkers,
+      },
+      render: {
+        theme: getTheme(options.theme),
+        width: options.cols,
+        showThinking: !options.hideThinking,
+        showToolResults: !options.hideToolResults,
+      },
+      inputAnimation: true,
+      statusSpinner: options.statusSpinner,
+      spinnerDuration: options.spinnerDuration,
+      agents: options.agents || undefined,
+    });
+
+    if (options.output && !options.quiet) {
+      console.error(chalk.green(`✓ Generated ${resolve(options.output)}`));
+      printStats(result.stats, options);
+    }
+  } finally {
+    await server?.close();
+  }
 }
 
 async function handleUpload(filePath: string, quiet: boolean): Promise<void> {
@@ -396,6 +1040,256 @@ async function handleUpload(filePath: string, quiet: boolean): Promise<void> {
   }
 }
 
+// =============================================================================
+// validate command
+// =============================================================================
+
+program
+  .command("validate")
+  .description("Check a session file for malformed or inconsistent entries")
+  .argument("<session>", "Session JSONL file, or session ID (prefix)")
+  .option("--no-agents", "Skip checking that referenced agent files exist")
+  .option("--agent-path <dirs>", "Extra directories to search for agent transcripts (colon-separated)")
+  .option("--follow-resume", "Look for parent links in every session of the resume chain")
+  .action(async (sessionPath: string, options) => {
+    try {
+      const fullPath = await resolveSession(sessionPath, () => resolveProject());
+      const report = await validateTranscript(fullPath, {
+        checkAgents: options.agents !== false,
+        agentResolver: getAgentResolver(options),
+        followResume: options.followResume,
+      });
+
+      for (const issue of report.issues) {
+        console.log(chalk.yellow(formatTranscriptIssue(issue)));
+      }
+
+      const count = report.issues.length;
+      const summary =
+        `Lines: ${report.lines} | Entries: ${report.entries} | ` +
+        `Problems: ${count}`;
+
+      if (count > 0) {
+        console.log(chalk.red(summary));
+        process.exit(1);
+      }
+      console.log(chalk.green(summary));
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+// =============================================================================
+// stats command
+// =============================================================================
+
+program
+  .command("stats")
+  .description("Show token usage, estimated cost, turn durations and tool calls")
+  .argument("<session>", "Session JSONL file, or session ID (prefix)")
+  .option("--json", "Print the statistics as JSON")
+  .option("--prices <file>", "JSON price table (USD per million tokens) added to the defaults")
+  .option("--no-agents", "Exclude agent/sub-assistant messages")
+  .option("--agent-path <dirs>", "Extra directories to search for agent transcripts (colon-separated)")
+  .option("--input-format <name>", "Transcript format (auto, claude, codex)", "auto")
+  .action(async (sessionPath: string, options) => {
+    try {
+      const fullPath = await resolveSession(sessionPath, () => resolveProject());
+      const prices = options.prices ? await loadPriceTable(resolve(options.prices)) : undefined;
+      const adapter = await resolveTranscriptAdapter(fullPath, options.inputFormat);
+      const source =
+        adapter !== claudeAdapter
+          ? adapter.read(fullPath)
+          : streamTranscript(fullPath, {
+              loadAgents: options.agents !== false,
+              agentResolver: getAgentResolver(options),
+            });
+      const stats = await collectSessionStats(source, { prices });
+
+      if (options.json) {
+        console.log(JSON.stringify(stats, null, 2));
+        return;
+      }
+      if (stats.turns.length === 0) {
+        console.log(chalk.yellow("No messages found in session file"));
+        return;
+      }
+      printSessionStats(stats);
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+/** Print totals, the per-turn table and the tool histogram */
+function printSessionStats(stats: SessionStats): void {
+  const { tokens } = stats;
+  console.log(chalk.bold("Totals"));
+  console.log(`  Duration:   ${formatDuration(stats.durationMs)}`);
+  console.log(`  Turns:      ${stats.turns.length}`);
+  console.log(`  Responses:  ${stats.responses}`);
+  console.log(
+    `  Tokens:     ${formatTokenCount(tokens.input)} in | ${formatTokenCount(tokens.output)} out | ` +
+      `${formatTokenCount(tokens.cacheWrite)} cache write | ${formatTokenCount(tokens.cacheRead)} cache read`
+  );
+  console.log(`  Cache hits: ${(stats.cacheHitRatio * 100).toFixed(1)}%`);
+  console.log(`  Cost:       ${formatCost(stats.cost)}`);
+  for (const model of stats.models) {
+    console.log(
+      chalk.gray(
+        `    ${padRight(model.model, 28)}${padRight(`${model.responses} responses`, 16)}` +
+          (model.priced ? formatCost(model.cost) : "no price")
+      )
+    );
+  }
+  if (stats.unpricedModels.length > 0) {
+    console.log(chalk.yellow(`  No price for: ${stats.unpricedModels.join(", ")} (see --prices)`));
+  }
+
+  console.log();
+  console.log(
+    chalk.bold(
+      padRight("TURN", 6) +
+        padRight("DURATION", 10) +
+        padRight("INPUT", 9) +
+        padRight("OUTPUT", 9) +
+        padRight("CACHE W", 9) +
+        padRight("CACHE R", 9) +
+        padRight("COST", 10) +
+        padRight("TOOLS", 7) +
+        "PROMPT"
+    )
+  );
+  console.log("─".repeat(100));
+  for (const turn of stats.turns) {
+    console.log(
+      chalk.cyan(padRight(String(turn.number), 6)) +
+        padRight(formatDuration(turn.durationMs), 10) +
+        padRight(formatTokenCount(turn.tokens.input), 9) +
+        padRight(formatTokenCount(turn.tokens.output), 9) +
+        padRight(formatTokenCount(turn.tokens.cacheWrite), 9) +
+        padRight(formatTokenCount(turn.tokens.cacheRead), 9) +
+        padRight(formatCost(turn.cost), 10) +
+        padRight(String(turn.toolCalls), 7) +
+        chalk.gray(turn.prompt.substring(0, 30).replace(/\n/g, " "))
+    );
+  }
+
+  if (stats.tools.length === 0) return;
+  const maxCalls = stats.tools[0]?.calls ?? 1;
+  console.log();
+  console.log(chalk.bold(padRight("TOOL", 20) + padRight("CALLS", 8) + padRight("ERRORS", 8) + "RATE"));
+  console.log("─".repeat(80));
+  for (const tool of stats.tools) {
+    const bar = "█".repeat(Math.max(1, Math.round((tool.calls / maxCalls) * 30)));
+    console.log(
+      padRight(tool.name, 20) +
+        padRight(String(tool.calls), 8) +
+        (tool.errors > 0 ? chalk.red : chalk.gray)(padRight(String(tool.errors), 8)) +
+        padRight(`${(tool.errorRate * 100).toFixed(0)}%`, 8) +
+        chalk.cyan(bar)
+    );
+  }
+}
+
+/** Format milliseconds as "45s", "3m 12s" or "1h 05m" */
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, "0")}s`;
+  return `${Math.floor(seconds / 3600)}h ${String(Math.floor((seconds % 3600) / 60)).padStart(2, "0")}m`;
+}
+
+/** Format a USD cost as "$0.0123" (under a dollar) or "$1.23" */
+function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd < 1 ? 4 : 2)}`;
+}
+
+// =============================================================================
+// search command
+// =============================================================================
+
+program
+  .command("search")
+  .description("Search the sessions of the current project for prompts, responses and tool output")
+  .argument("<query>", "Text to look for")
+  .option("--all-projects", "Search the sessions of every project")
+  .option("--regex", "Treat the query as a regular expression")
+  .option("--fuzzy", "Match the query fuzzily")
+  .option("--case-sensitive", "Match case (text and regex queries)")
+  .option("--limit <n>", "Stop after this many matches", parseIntOption, 50)
+  .option("--no-agents", "Don't search agent/sub-assistant messages")
+  .option("--agent-path <dirs>", "Extra directories to search for agent transcripts (colon-separated)")
+  .action(async (query: string, options) => {
+    try {
+      if (options.regex && options.fuzzy) {
+        throw new Error("Use either --regex or --fuzzy");
+      }
+      const searchOptions: SearchOptions = {
+        mode: options.regex ? "regex" : options.fuzzy ? "fuzzy" : "text",
+        caseSensitive: options.caseSensitive,
+      };
+      const projectPaths = options.allProjects
+        ? (await listProjects()).map((project) => project.path)
+        : [await findProjectPath(process.cwd())];
+
+      let searched = 0;
+      let found = 0;
+      let sessionsWithMatches = 0;
+
+      for (const projectPath of projectPaths) {
+        for (const session of await listSessions(projectPath)) {
+          if (found >= options.limit) break;
+          searched++;
+
+          const entries = streamTranscript(session.path, {
+            loadAgents: options.agents !== false,
+            agentResolver: getAgentResolver(options),
+          });
+          const matches = (await searchTranscript(entries, query, searchOptions)).slice(0, options.limit - found);
+          if (matches.length === 0) continue;
+
+          found += matches.length;
+          sessionsWithMatches++;
+          console.log(chalk.bold(session.name) + chalk.gray("  " + session.path));
+          for (const match of matches) {
+            printSearchMatch(match, session.path);
+          }
+        }
+      }
+
+      if (searched === 0) {
+        console.log(chalk.yellow("No sessions found"));
+        return;
+      }
+      console.log(
+        chalk.gray(
+          `Matches: ${found} | Sessions with matches: ${sessionsWithMatches} | Sessions searched: ${searched}`
+        )
+      );
+      if (found >= options.limit) {
+        console.log(chalk.yellow(`Stopped after ${found} matches (raise --limit to see more)`));
+      }
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+/** Print a match: where it is, a snippet, and the command to cast from it */
+function printSearchMatch(match: SearchMatch, sessionPath: string): void {
+  const time = match.timestamp ? match.timestamp.substring(0, 19).replace("T", " ") : "";
+  const { before, match: text, after } = match.snippet;
+
+  console.log(
+    "  " + chalk.cyan(padRight(match.uuid, 38)) + chalk.gray(padRight(time, 21)) + chalk.magenta(match.kind)
+  );
+  console.log("    " + before + chalk.bold.yellow(text) + after);
+  console.log(chalk.gray(`    cc-prism cast "${sessionPath}" --start-uuid ${match.uuid}`));
+  console.log();
+}
+
 // =============================================================================
 // sessions command
 // =============================================================================
@@ -403,38 +1297,112 @@ async function handleUpload(filePath: string, quiet: boolean): Promise<void> {
 program
   .command("sessions")
   .description("List available sessions for current project")
-  .action(async () => {
+  .option("--all-projects", "List the sessions of every project")
+  .option("--project <path|name>", "List the sessions of this project (a working directory or directory name)")
+  .option("--sort <key>", `Order by ${SESSION_SORT_KEYS.join(", ")}`, "modified")
+  .option("--since <date>", "Only sessions active since this date (ISO 8601)")
+  .option("--git-branch <name>", "Only sessions on this git branch")
+  .option("--model <name>", "Only sessions using a model whose name contains this")
+  .option("--prompt <text>", "Only sessions whose first prompt contains this")
+  .option("--limit <n>", "Show at most this many sessions", parseIntOption)
+  .option("--json", "Print the sessions as JSON")
+  .action(async (options) => {
     try {
-      const cwd = process.cwd();
-      const projectPath = getClaudeProjectPath(cwd);
-      const sessions = await listSessions(projectPath);
+      if (!SESSION_SORT_KEYS.includes(options.sort)) {
+        throw new Error(`Invalid sort key: ${options.sort}. Use ${SESSION_SORT_KEYS.join(", ")}`);
+      }
+      const since = options.since ? new Date(options.since) : undefined;
+      if (since && Number.isNaN(since.getTime())) {
+        throw new Error(`Invalid date: ${options.since}`);
+      }
+
+      let cwd = process.cwd();
+      const projectPath = options.allProjects ? getClaudeProjectsDir() : await resolveProject(options.project);
+      const projects = options.allProjects
+        ? await listProjects()
+        : [{ path: projectPath, name: basename(projectPath) }];
+
+      const found: Array<SessionDetails & { project: string }> = [];
+      for (const project of projects) {
+        // One file at a time: projects can hold thousands of sessions
+        const details: SessionDetails[] = [];
+        for (const session of await listSessions(project.path)) {
+          details.push(await getSessionDetails(session));
+        }
+        const projectCwd = options.allProjects || options.project ? getProjectCwd(project.name, details) : cwd;
+        found.push(...details.map((session) => ({ ...session, project: projectCwd })));
+        if (!options.allProjects) cwd = projectCwd;
+      }
+
+      const filtered = filterSessions(found, {
+        since,
+        gitBranch: options.gitBranch,
+        model: options.model,
+        prompt: options.prompt,
+      });
+      const sessions = sortSessions(filtered, options.sort).slice(0, options.limit);
+
+      if (options.json) {
+        console.log(JSON.stringify(sessions, null, 2));
+        return;
+      }
 
       if (sessions.length === 0) {
         console.log(chalk.yellow("No sessions found"));
-        console.log(chalk.gray(`  Project path: ${projectPath}`));
+        if (!options.allProjects) {
+          console.log(chalk.gray(`  Project path: ${projectPath}`));
+        }
         return;
       }
 
-      console.log(chalk.bold(`Sessions for ${cwd}`));
+      console.log(
+        chalk.bold(options.allProjects ? `Sessions for ${projects.length} projects` : `Sessions for ${cwd}`)
+      );
       console.log(chalk.gray(projectPath));
       console.log();
 
       for (const session of sessions) {
-        const age = formatAge(session.modified);
-        console.log(
-          chalk.cyan(session.name.substring(0, 8)) +
-            chalk.gray("  " + padRight(age, 12) + formatSize(session.size))
-        );
+        printSessionRow(session, options.allProjects ? session.project : cwd);
       }
 
-      console.log();
-      console.log(chalk.gray(`Use: cc-prism cast --latest`));
+      if (sessions.length < found.length) {
+        console.log(chalk.gray(`Showing ${sessions.length} of ${found.length} sessions`));
+      }
+      console.log(chalk.gray(`Use: cc-prism cast <id> or cc-prism cast --latest`));
     } catch (error) {
       console.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
       process.exit(1);
     }
   });
 
+/**
+ * Print a session as two lines: ID, age, size, messages, duration and first
+ * prompt; then git branch, models and working directory (when not `cwd`)
+ */
+function printSessionRow(session: SessionDetails, cwd: string): void {
+  const prompt = (session.firstPrompt ?? "").replace(/\s+/g, " ");
+  console.log(
+    chalk.cyan(padRight(session.name.substring(0, 8), 8)) +
+      chalk.gray(
+        "  " +
+          padRight(formatAge(session.modified), 10) +
+          padRight(formatSize(session.size), 9) +
+          padRight(`${session.messages} msgs`, 10) +
+          padRight(formatDuration(session.durationMs), 9)
+      ) +
+      (prompt.length > 50 ? prompt.substring(0, 49) + "…" : prompt)
+  );
+
+  const details = [
+    session.gitBranch,
+    session.models.join(", ") || null,
+    session.cwd && session.cwd !== cwd ? session.cwd : null,
+  ].filter((detail) => detail);
+  if (details.length > 0) {
+    console.log(chalk.gray("          " + details.join(" · ")));
+  }
+}
+
 function formatAge(date: Date): string {
   const seconds = Math.floor((Date.now() - date.getTime()) / 1000);
   if (seconds < 60) return "just now";
@@ -443,6 +1411,162 @@ function formatAge(date: Date): string {
   return `${Math.floor(seconds / 86400)}d ago`;
 }
 
+// =============================================================================
+// export command
+// =============================================================================
+
+program
+  .command("export")
+  .description("Export a session as a readable transcript (html, md)")
+  .argument("[sessions...]", "Session file(s) or ID (prefixes), several are stitched as resumed sessions (or use --latest)")
+  .option("--latest [n]", "Use most recent (or Nth most recent) session from current project", parseLatestOption)
+  .option("--project <path|name>", "Project for --latest: a working directory or project directory name")
+  .option("--follow-resume", "Include the sessions this one was resumed from or continued in")
+  .option("--no-resume-divider", "Don't show a divider where a resumed session continues")
+  .option("--start-uuid <uuid>", "Start from message UUID")
+  .option("--end-uuid <uuid>", "End at message UUID")
+  .option("--range <start..end>", "UUID range to include; repeat to join several ranges", collectClipRange)
+  .option("--last <n>", "Last N messages", parseIntOption)
+  .option("--turns <range>", "Turns to include, e.g. 3-7, 5 or 3- (see list)", parseTurnRange)
+  .option("--last-turns <n>", "Last N turns", parseIntOption)
+  .option("--turn-of <uuid>", "The turn containing this message UUID")
+  .option("--from-prompt <regex>", "Start at the user prompt matching this pattern")
+  .option("--to-prompt <regex>", "End after the response to the user prompt matching this pattern")
+  .option("--around <regex>", "Center the clip on the message matching this pattern")
+  .option("--context <n>", "Messages on each side of the --around match (default: 3)", parseIntOption)
+  .option("--from-tool <tool[:target]>", "Start at the first call of a tool, e.g. Edit:src/foo.ts")
+  .option("--start-time <timestamp>", "Start from timestamp (ISO 8601)")
+  .option("--end-time <timestamp>", "End at timestamp (ISO 8601)")
+  .option("--clip-repair <mode>", "Clip edges cutting a tool exchange (widen, trim, none)", parseClipRepairOption, "widen")
+  .option("--include-prompt", "Include the prompt that started the clip's first turn")
+  .option("--format <format>", "Export format (html, md)", parseExportFormatOption, "html")
+  .option("-o, --output <file>", "Output file path (default: stdout)")
+  .option("--theme <name>", "Theme name (tokyo-night, dracula, nord, catppuccin-mocha)", "tokyo-night")
+  .option("--cols <n>", "Wrap width", parseIntOption, 100)
+  .option("--title <title>", "Document title")
+  .option("--markers <mode>", "Messages listed in the html table of contents (all, user, tools, none)", "all")
+  .option("--no-agents", "Exclude agent/sub-assistant messages")
+  .option("--agent-path <dirs>", "Extra directories to search for agent transcripts (colon-separated)")
+  .option("--branch <leaf-uuid>", "Follow the branch ending at this message (default: latest)")
+  .option("--input-format <name>", "Transcript format (auto, claude, codex)", "auto")
+  .option("--hide-thinking", "Leave out thinking blocks")
+  .option("--exclude-tools <tools>", "Leave out calls to these tools, e.g. Read,Glob,Grep", parseToolList)
+  .option("--only-tools <tools>", "Leave out calls to every tool not listed", parseToolList)
+  .option("--hide-tool-results", "Leave out tool results, keeping the calls")
+  .option("--collapse-tools <tools>", "Show a one-line summary for results of these tools", parseToolList)
+  .option("--redact", "Redact secrets, tokens and home-directory paths before rendering")
+  .option("--redact-config <file>", "Redaction config with custom rules (implies --redact)")
+  .option("-q, --quiet", "Suppress status output")
+  .action(async (sessionPaths: string[], options) => {
+    try {
+      // Resolve session path
+      let fullPath: string;
+      if (options.latest) {
+        const projectPath = await resolveProject(options.project);
+        const latest = await getLatestSession(projectPath, getLatestIndex(options.latest));
+        if (!latest) {
+          console.error(chalk.red(`Error: ${formatNoLatestSession(options.latest)}`));
+          console.error(chalk.gray(`  Looked in: ${projectPath}`));
+          process.exit(1);
+        }
+        fullPath = latest;
+        if (!options.quiet) {
+          console.error(chalk.gray(`Using: ${fullPath}`));
+        }
+      } else if (sessionPaths[0]) {
+        sessionPaths = await resolveSessionArgs(sessionPaths, options);
+        fullPath = sessionPaths[0]!;
+      } else {
+        console.error(chalk.red("Error: Provide a session path or use --latest"));
+        process.exit(1);
+      }
+
+      const sessionFiles = await resolveSessionFiles(
+        fullPath,
+        options.latest ? [] : sessionPaths,
+        options.followResume
+      );
+
+      // Stream the transcript, retaining only the clip
+      const counter = { count: 0 };
+      const adjustments: ClipAdjustment[] = [];
+      let entries = await collectClip(
+        countEntries(
+          streamSession(sessionFiles, options.inputFormat, {
+            loadAgents: options.agents !== false,
+            agentResolver: getAgentResolver(options),
+            leafUuid: options.branch,
+            resumeDividers: options.resumeDivider,
+          }),
+          counter
+        ),
+        getClipOptions(options, (adjustment) => adjustments.push(adjustment))
+      );
+
+      if (counter.count === 0) {
+        console.error(chalk.red("Error: No messages found in session file"));
+        process.exit(1);
+      }
+
+      if (entries.length === 0) {
+        console.error(chalk.red("Error: No messages match the specified criteria"));
+        process.exit(1);
+      }
+
+      if (adjustments.length > 0 && !options.quiet) {
+        console.error(chalk.yellow("Adjusted clip edges:"));
+        for (const adjustment of adjustments) {
+          console.error(chalk.yellow(`  ${formatClipAdjustment(adjustment)}`));
+        }
+      }
+
+      // Scrub secrets and leave out filtered content before rendering
+      const redactor = await createRedactor(options);
+      if (redactor) {
+        entries = redactor.redactEntries(entries);
+        if (!options.quiet) {
+          console.error(chalk.gray(`Redacted ${redactor.redactions.length} value(s)`));
+        }
+      }
+      const contentFilter = createContentFilter(options);
+      if (contentFilter) {
+        entries = contentFilter.filterEntries(entries);
+      }
+
+      const title = options.title ?? generateTitle(getSessionInfo(entries));
+      const content =
+        options.format === "md"
+          ? renderMarkdownTranscript(entries, {
+              title,
+              showThinking: !options.hideThinking,
+              showToolResults: !options.hideToolResults,
+            })
+          : renderHtml(entries, {
+              title,
+              markers: options.markers as MarkerMode,
+              render: {
+                theme: getTheme(options.theme),
+                width: options.cols,
+                showThinking: !options.hideThinking,
+                showToolResults: !options.hideToolResults,
+              },
+            });
+
+      if (options.output) {
+        const outputPath = resolve(options.output);
+        await writeFile(outputPath, content, "utf-8");
+        if (!options.quiet) {
+          console.error(chalk.green(`✓ Generated ${outputPath}`));
+        }
+      } else {
+        process.stdout.write(content);
+      }
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
 // =============================================================================
 // pick command
 // =============================================================================
@@ -450,32 +1574,54 @@ function formatAge(date: Date): string {
 program
   .command("pick")
   .description("Interactive message picker for selecting ranges")
-  .argument("[session]", "Path to session JSONL file (or use --latest)")
-  .option("--latest", "Use most recent session from current project")
+  .argument("[sessions...]", "Session file(s) or ID (prefixes), several are stitched as resumed sessions (or use --latest)")
+  .option("--latest [n]", "Use most recent (or Nth most recent) session from current project", parseLatestOption)
+  .option("--project <path|name>", "Project for --latest: a working directory or project directory name")
+  .option("--follow-resume", "Include the sessions this one was resumed from or continued in")
+  .option("--no-resume-divider", "Don't show a divider where a resumed session continues")
   .option("--no-agents", "Exclude agent/sub-assistant messages")
-  .action(async (sessionPath: string | undefined, options) => {
+  .option("--agent-path <dirs>", "Extra directories to search for agent transcripts (colon-separated)")
+  .option("--branch <leaf-uuid>", "Follow the branch ending at this message (default: latest)")
+  .option("--input-format <name>", "Transcript format (auto, claude, codex)", "auto")
+  .action(async (sessionPaths: string[], options) => {
     try {
       // Resolve session path
       let fullPath: string;
       if (options.latest) {
-        const latestPath = await getLatestSession(process.cwd());
+        const projectPath = await resolveProject(options.project);
+        const latestPath = await getLatestSession(projectPath, getLatestIndex(options.latest));
         if (!latestPath) {
-          console.error(chalk.red("No sessions found for current project"));
-          console.error(chalk.gray(`Searched in: ${getClaudeProjectPath(process.cwd())}`));
+          console.error(chalk.red(formatNoLatestSession(options.latest)));
+          console.error(chalk.gray(`Searched in: ${projectPath}`));
           process.exit(1);
         }
         fullPath = latestPath;
-      } else if (sessionPath) {
-        fullPath = resolve(sessionPath);
+      } else if (sessionPaths[0]) {
+        sessionPaths = await resolveSessionArgs(sessionPaths, options);
+        fullPath = sessionPaths[0]!;
       } else {
         console.error(chalk.red("Error: session path required or use --latest"));
         process.exit(1);
       }
 
-      // Load transcript
-      const entries = await loadTranscript(fullPath, {
+      const sessionFiles = await resolveSessionFiles(
+        fullPath,
+        options.latest ? [] : sessionPaths,
+        options.followResume
+      );
+
+      // Stream transcript, keeping only the entries the picker can display
+      const entries: TranscriptEntry[] = [];
+      for await (const entry of streamSession(sessionFiles, options.inputFormat, {
         loadAgents: options.agents !== false,
-      });
+        agentResolver: getAgentResolver(options),
+        leafUuid: options.branch,
+        resumeDividers: options.resumeDivider,
+      })) {
+        if (isRenderableMessage(entry)) {
+          entries.push(entry);
+        }
+      }
 
       if (entries.length === 0) {
         console.log(chalk.yellow("No messages found in session file"));
@@ -504,7 +1650,16 @@ program
         if (formConfig) {
           // Convert with form options
           const theme = getTheme(formConfig.theme);
-          const castResult = convertToAsciicast(exportedEntries, {
+          const filterOptions: ContentFilterOptions = {
+            hideThinking: formConfig.hideThinking,
+            hideToolResults: formConfig.hideToolResults,
+            excludeTools: parseToolList(formConfig.excludeTools),
+            onlyTools: parseToolList(formConfig.onlyTools),
+            collapseTools: parseToolList(formConfig.collapseTools),
+          };
+          const filter = createContentFilter(filterOptions);
+          const castEntries = filter ? filter.filterEntries(exportedEntries) : exportedEntries;
+          const castResult = convertToAsciicast(castEntries, {
             builder: {
               cols: formConfig.cols,
               rows: formConfig.rows,
@@ -516,7 +1671,12 @@ program
               thinkingPause: formConfig.thinkingPause ?? undefined,
             },
             markers: { mode: formConfig.markers as "all" | "user" | "tools" | "none" },
-            render: { theme, width: formConfig.cols },
+            render: {
+              theme,
+              width: formConfig.cols,
+              showThinking: !formConfig.hideThinking,
+              showToolResults: !formConfig.hideToolResults,
+            },
             inputAnimation: formConfig.typingEffect,
             statusSpinner: formConfig.statusSpinner,
             spinnerDuration: formConfig.spinnerDuration,
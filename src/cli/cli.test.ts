@@ -1,12 +1,14 @@
 /* eslint-disable no-control-regex */
 import { describe, it, expect } from "vitest";
-import { execSync } from "node:child_process";
+import { execSync, spawnSync } from "node:child_process";
 import { join } from "node:path";
 import { fileURLToPath } from "node:url";
 import { readFileSync, unlinkSync } from "node:fs";
 import { loadTranscript } from "../parser/loader.js";
 import { convertToAsciicast } from "../generator/convert.js";
 import { serializeCast, parseCast } from "../generator/builder.js";
+import { streamAsciicast } from "../generator/live.js";
+import { LiveCastServer } from "./live.js";
 
 const __dirname = fileURLToPath(new URL(".", import.meta.url));
 const fixturesDir = join(__dirname, "../parser/__fixtures__");
@@ -125,6 +127,27 @@ describe("CLI integration", () => {
     expect(markers.length).toBe(0);
   });
 
+  it("rejects options --follow cannot apply", () => {
+    const sessionPath = join(fixturesDir, "sample-session.jsonl");
+    const result = spawnSync(
+      "node",
+      ["dist/cli.js", "cast", sessionPath, "--follow", "--last-turns", "1", "--branch", "msg-008"],
+      { cwd: projectRoot, encoding: "utf-8", timeout: 10000 }
+    );
+
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain("--follow does not support --last-turns, --branch");
+
+    const agents = spawnSync(
+      "node",
+      ["dist/cli.js", "cast", sessionPath, "--follow", "--redact-dry-run", "--agents", "collapsed"],
+      { cwd: projectRoot, encoding: "utf-8", timeout: 10000 }
+    );
+
+    expect(agents.status).toBe(1);
+    expect(agents.stderr).toContain("--follow does not support --redact-dry-run, --agents collapsed");
+  });
+
   it("lists messages with list command", () => {
     const sessionPath = join(fixturesDir, "sample-session.jsonl");
     const result = execSync(`node dist/cli.js list "${sessionPath}"`, {
@@ -217,3 +240,59 @@ describe("end-to-end conversion", () => {
     }
   });
 });
+
+describe("live streaming", () => {
+  it("streams the same recording as a batch conversion", async () => {
+    const entries = await loadTranscript(join(fixturesDir, "sample-session.jsonl"));
+    const options = { builder: { timestamp: 1764842400 }, timing: { preset: "speedrun" as const } };
+
+    const lines: string[] = [];
+    async function* source() {
+      yield* entries;
+    }
+    await streamAsciicast(
+      source(),
+      {
+        header: (header) => {
+          lines.push(JSON.stringify(header));
+        },
+        events: (events) => {
+          lines.push(...events.map((event) => JSON.stringify(event)));
+        },
+      },
+      options
+    );
+
+    expect(lines.join("\n") + "\n").toBe(serializeCast(convertToAsciicast(entries, options).document));
+  });
+
+  it("serves the recording so far, then new events, over HTTP", async () => {
+    const server = new LiveCastServer();
+    const port = await server.listen(0);
+    try {
+      server.header({ version: 3, term: { cols: 80, rows: 24 } });
+      server.events([[0.5, "o", "hello"]]);
+
+      const response = await fetch(`http://127.0.0.1:${port}/`);
+      expect(response.headers.get("content-type")).toBe("application/x-asciicast");
+
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+      let received = "";
+      while (!received.includes("hello")) {
+        received += decoder.decode((await reader.read()).value);
+      }
+
+      server.events([[1, "o", "world"]]);
+      while (!received.includes("world")) {
+        received += decoder.decode((await reader.read()).value);
+      }
+
+      const doc = parseCast(received);
+      expect(doc.header.term.cols).toBe(80);
+      expect(doc.events).toEqual([[0.5, "o", "hello"], [1, "o", "world"]]);
+    } finally {
+      await server.close();
+    }
+  });
+});
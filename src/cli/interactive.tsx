@@ -22,6 +22,12 @@ export interface CastFormConfig {
   statusSpinner: boolean;
   spinnerDuration: number;
   markers: string;
+  hideThinking: boolean;
+  hideToolResults: boolean;
+  /** Comma-separated tool names */
+  excludeTools: string;
+  onlyTools: string;
+  collapseTools: string;
 }
 
 interface InteractiveFormProps {
@@ -38,12 +44,13 @@ const PRESETS = ["speedrun", "default", "realtime"] as const;
 const MARKERS = ["all", "user", "tools", "none"] as const;
 
 // Field definitions for navigation
-type SectionName = "output" | "appearance" | "timing" | "features";
+type SectionName = "output" | "appearance" | "timing" | "features" | "filters";
 type FieldName =
   | `section:${SectionName}`
   | "output" | "upload" | "theme" | "cols" | "rows" | "title"
   | "preset" | "maxWait" | "thinkingPause" | "typingEffect"
   | "statusSpinner" | "spinnerDuration" | "markers"
+  | "hideThinking" | "hideToolResults" | "excludeTools" | "onlyTools" | "collapseTools"
   | "generate" | "saveProfile" | "cancel";
 
 // Section to fields mapping
@@ -52,12 +59,13 @@ const SECTION_FIELDS: Record<SectionName, FieldName[]> = {
   appearance: ["theme", "cols", "rows", "title"],
   timing: ["preset", "maxWait", "thinkingPause"],
   features: ["typingEffect", "statusSpinner", "spinnerDuration", "markers"],
+  filters: ["hideThinking", "hideToolResults", "excludeTools", "onlyTools", "collapseTools"],
 };
 
 // Build dynamic field order based on expanded sections
 function getVisibleFields(expanded: Set<SectionName>): FieldName[] {
   const fields: FieldName[] = [];
-  for (const section of ["output", "appearance", "timing", "features"] as SectionName[]) {
+  for (const section of ["output", "appearance", "timing", "features", "filters"] as SectionName[]) {
     fields.push(`section:${section}`);
     if (expanded.has(section)) {
       fields.push(...SECTION_FIELDS[section]);
@@ -83,6 +91,11 @@ function getDefaultConfig(defaultOutput: string): CastFormConfig {
     statusSpinner: false,
     spinnerDuration: 3.0,
     markers: "all",
+    hideThinking: false,
+    hideToolResults: false,
+    excludeTools: "",
+    onlyTools: "",
+    collapseTools: "",
   };
 }
 
@@ -133,6 +146,11 @@ function formToProfile(config: CastFormConfig): ProfileConfig {
     status_spinner: config.statusSpinner,
     spinner_duration: config.spinnerDuration,
     markers: config.markers,
+    hide_thinking: config.hideThinking,
+    hide_tool_results: config.hideToolResults,
+    exclude_tools: config.excludeTools,
+    only_tools: config.onlyTools,
+    collapse_tools: config.collapseTools,
   };
 }
 
@@ -151,6 +169,11 @@ function profileToForm(profile: ProfileConfig, defaults: CastFormConfig): CastFo
     statusSpinner: profile.status_spinner ?? defaults.statusSpinner,
     spinnerDuration: profile.spinner_duration ?? defaults.spinnerDuration,
     markers: profile.markers ?? defaults.markers,
+    hideThinking: profile.hide_thinking ?? defaults.hideThinking,
+    hideToolResults: profile.hide_tool_results ?? defaults.hideToolResults,
+    excludeTools: profile.exclude_tools ?? defaults.excludeTools,
+    onlyTools: profile.only_tools ?? defaults.onlyTools,
+    collapseTools: profile.collapse_tools ?? defaults.collapseTools,
   };
 }
 
@@ -200,13 +223,13 @@ function InteractiveForm({ sessionPath, defaultOutput, defaultTitle, onSubmit, o
 
   // Field type helpers
   const isTextField = (field: FieldName) =>
-    ["output", "title"].includes(field);
+    ["output", "title", "excludeTools", "onlyTools", "collapseTools"].includes(field);
   const isNumberField = (field: FieldName) =>
     ["cols", "rows", "maxWait", "thinkingPause", "spinnerDuration"].includes(field);
   const isSelectField = (field: FieldName) =>
     ["theme", "preset", "markers"].includes(field);
   const isCheckbox = (field: FieldName) =>
-    ["upload", "typingEffect", "statusSpinner"].includes(field);
+    ["upload", "typingEffect", "statusSpinner", "hideThinking", "hideToolResults"].includes(field);
   const isButton = (field: FieldName) =>
     ["generate", "saveProfile", "cancel"].includes(field);
 
@@ -544,6 +567,20 @@ function InteractiveForm({ sessionPath, defaultOutput, defaultTitle, onSubmit, o
         )}
       </Box>
 
+      {/* Filters Section */}
+      <Box flexDirection="column">
+        {renderSectionHeader("filters", "Filters")}
+        {expandedSections.has("filters") && (
+          <Box flexDirection="column" marginLeft={2}>
+            {renderCheckbox("hideThinking", "Hide thinking")}
+            {renderCheckbox("hideToolResults", "Hide tool results")}
+            {renderTextField("excludeTools", "Exclude tools", 30, "e.g. Read,Glob,Grep")}
+            {renderTextField("onlyTools", "Only tools   ", 30, "all tools")}
+            {renderTextField("collapseTools", "Collapse     ", 30, "e.g. Read")}
+          </Box>
+        )}
+      </Box>
+
       {/* Action Buttons */}
       <Box marginTop={1} borderStyle="single" borderColor="gray" paddingX={1}>
         <Box>
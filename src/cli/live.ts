@@ -0,0 +1,108 @@
+/**
+ * Live recording outputs for `cast --follow`
+ */
+
+import { appendFile, writeFile } from "node:fs/promises";
+import { createServer, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { AsciicastEvent, AsciicastHeader } from "../types/asciicast.js";
+import type { LiveCastSink } from "../generator/live.js";
+import { serializeCastLine } from "../generator/live.js";
+
+/** Write the recording to a .cast file, appending events as they arrive */
+export function createCastFileSink(filePath: string): LiveCastSink {
+  return {
+    header: (header) => writeFile(filePath, serializeCastLine(header), "utf-8"),
+    events: (events) => appendFile(filePath, events.map(serializeCastLine).join(""), "utf-8"),
+  };
+}
+
+/** Write the recording to a stream (e.g. stdout) as it is produced */
+export function createStreamSink(stream: NodeJS.WritableStream): LiveCastSink {
+  return {
+    header: (header) => {
+      stream.write(serializeCastLine(header));
+    },
+    events: (events) => {
+      stream.write(events.map(serializeCastLine).join(""));
+    },
+  };
+}
+
+/** Pass a live recording to several sinks */
+export function combineSinks(sinks: LiveCastSink[]): LiveCastSink {
+  return {
+    header: async (header) => {
+      for (const sink of sinks) await sink.header(header);
+    },
+    events: async (events) => {
+      for (const sink of sinks) await sink.events(events);
+    },
+  };
+}
+
+/**
+ * Serve a live recording over HTTP as a growing asciicast stream.
+ *
+ * Each GET receives the header and every event so far, then stays open and
+ * receives new events as newline-delimited JSON until the recording ends.
+ * Point a player that reads asciicast over HTTP at it, or `curl` it.
+ */
+export class LiveCastServer implements LiveCastSink {
+  private server: Server;
+  private lines: string[] = [];
+  private clients = new Set<ServerResponse>();
+
+  constructor() {
+    this.server = createServer((req, res) => {
+      if (req.method !== "GET") {
+        res.writeHead(405, { Allow: "GET" }).end();
+        return;
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "application/x-asciicast",
+        "Cache-Control": "no-cache",
+        "Access-Control-Allow-Origin": "*",
+      });
+      res.write(this.lines.join(""));
+      this.clients.add(res);
+      req.on("close", () => this.clients.delete(res));
+    });
+  }
+
+  /** Start listening; resolves with the bound port */
+  listen(port: number, host = "127.0.0.1"): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(port, host, () => {
+        this.server.off("error", reject);
+        resolve((this.server.address() as AddressInfo).port);
+      });
+    });
+  }
+
+  header(header: AsciicastHeader): void {
+    this.broadcast(serializeCastLine(header));
+  }
+
+  events(events: AsciicastEvent[]): void {
+    this.broadcast(events.map(serializeCastLine).join(""));
+  }
+
+  /** End every open stream and stop the server */
+  close(): Promise<void> {
+    for (const client of this.clients) {
+      client.end();
+    }
+    this.clients.clear();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private broadcast(text: string): void {
+    this.lines.push(text);
+    for (const client of this.clients) {
+      client.write(text);
+    }
+  }
+}
@@ -178,6 +178,13 @@ function generateCommandString(range: Selection, sessionPath: string): string {
   return `cc-prism cast "${sessionPath}" --start-uuid ${range.startUuid} --end-uuid ${range.endUuid}`;
 }
 
+// Generate one cast command joining several ranges (skipped messages become a divider)
+function generateJoinedCommandString(ranges: Selection[], sessionPath: string): string {
+  if (ranges.length === 1) return generateCommandString(ranges[0]!, sessionPath);
+  const args = ranges.map((r) => `--range ${r.startUuid}..${r.endUuid}`).join(" ");
+  return `cc-prism cast "${sessionPath}" ${args}`;
+}
+
 // Generate UUID pair string
 function generateUuidPair(range: Selection): string {
   return `${range.startUuid} ${range.endUuid}`;
@@ -442,10 +449,10 @@ function Picker({ entries, sessionPath, onExit, onInteractiveExport }: PickerPro
     try {
       switch (format) {
         case "command": {
-          const commands = ranges.map(r => generateCommandString(r, sessionPath)).join("\n");
+          const command = generateJoinedCommandString(ranges, sessionPath);
           try {
-            await clipboard.write(commands);
-            setStatusMessage(`${ranges.length} command${ranges.length > 1 ? "s" : ""} copied`);
+            await clipboard.write(command);
+            setStatusMessage("Command copied");
           } catch {
             setStatusMessage("Clipboard unavailable");
           }
@@ -672,10 +679,10 @@ function Picker({ entries, sessionPath, onExit, onInteractiveExport }: PickerPro
           if (statusMessage) return; // Debounce: skip if feedback already showing
           const ranges = getSelectionRanges(selected, renderableEntries);
           if (ranges.length > 0) {
-            const commands = ranges.map(r => generateCommandString(r, sessionPath)).join("\n");
+            const command = generateJoinedCommandString(ranges, sessionPath);
             setStatusMessage("Command copied");
             setTimeout(() => setStatusMessage(null), 2000);
-            clipboard.write(commands).catch(() => {
+            clipboard.write(command).catch(() => {
               setStatusMessage("Clipboard unavailable");
               setTimeout(() => setStatusMessage(null), 2000);
             });
@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import { join } from "node:path";
+import { copyFile, mkdir, mkdtemp, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { fileURLToPath } from "node:url";
+import {
+  filterSessions,
+  findProjectPath,
+  getLatestSession,
+  getProjectCwd,
+  getSessionDetails,
+  mangleProjectPath,
+  resolveProject,
+  resolveSession,
+  SessionLookupError,
+  sortSessions,
+  unmangleProjectName,
+  type SessionDetails,
+} from "./sessions.js";
+
+const __dirname = fileURLToPath(new URL(".", import.meta.url));
+const fixturesDir = join(__dirname, "../parser/__fixtures__");
+
+async function details(file: string): Promise<SessionDetails> {
+  const path = join(fixturesDir, file);
+  const { mtime, size } = await stat(path);
+  return getSessionDetails({ path, name: file.replace(".jsonl", ""), modified: mtime, size });
+}
+
+describe("getSessionDetails", () => {
+  it("reads prompt, counts, duration, models and cwd from the entries", async () => {
+    const session = await details("sample-session.jsonl");
+
+    expect(session.firstPrompt).toBe("Hello, can you help me fix a bug?");
+    expect(session.messages).toBe(9);
+    expect(session.durationMs).toBe(50_000);
+    expect(session.models).toEqual(["claude-sonnet-4-5"]);
+    expect(session.cwd).toBe("/home/user/project");
+    expect(session.gitBranch).toBeNull();
+  });
+
+  it("sorts and filters sessions", async () => {
+    const sessions = [await details("sample-session.jsonl"), await details("compacted-session.jsonl")];
+
+    expect(sortSessions(sessions, "duration").map((s) => s.name)).toEqual([
+      "compacted-session",
+      "sample-session",
+    ]);
+    expect(filterSessions(sessions, { prompt: "PAYMENT" }).map((s) => s.name)).toEqual([
+      "compacted-session",
+    ]);
+    expect(filterSessions(sessions, { model: "opus" })).toEqual([]);
+    expect(filterSessions(sessions, { since: new Date("2025-12-04T10:10:00Z") }).map((s) => s.name)).toEqual([
+      "compacted-session",
+    ]);
+  });
+});
+
+describe("project names", () => {
+  it("maps a mangled name back to the directory with dashes in it", async () => {
+    const root = await mkdtemp(join(tmpdir(), "cc-prism-projects-"));
+    const project = join(root, "my-app", "web");
+    await mkdir(project, { recursive: true });
+
+    expect(unmangleProjectName(mangleProjectPath(project))).toBe(project);
+    expect(unmangleProjectName("-no-such-dir")).toBe("/no/such/dir");
+    await rm(root, { recursive: true });
+  });
+
+  it("mangles every character but letters and digits", () => {
+    expect(mangleProjectPath("/home/user/my_app.v2")).toBe("-home-user-my-app-v2");
+  });
+
+  it("maps names with dots and underscores back to their directory", async () => {
+    const root = await mkdtemp(join(tmpdir(), "cc-prism-projects-"));
+    const project = join(root, "my_app.v2");
+    await mkdir(project);
+
+    expect(unmangleProjectName(mangleProjectPath(project))).toBe(project);
+    await rm(root, { recursive: true });
+  });
+
+  it("prefers the cwd recorded in the sessions", async () => {
+    const session = await details("sample-session.jsonl");
+
+    expect(getProjectCwd("-home-user-project", [session])).toBe("/home/user/project");
+  });
+});
+
+describe("project resolution", () => {
+  it("finds projects under CLAUDE_CONFIG_DIR by name, path or recorded cwd", async () => {
+    const configDir = await mkdtemp(join(tmpdir(), "cc-prism-config-"));
+    const projectPath = join(configDir, "projects", "-renamed-project");
+    await mkdir(projectPath, { recursive: true });
+    await copyFile(join(fixturesDir, "sample-session.jsonl"), join(projectPath, "session.jsonl"));
+
+    const previous = process.env["CLAUDE_CONFIG_DIR"];
+    process.env["CLAUDE_CONFIG_DIR"] = configDir;
+    try {
+      expect(await findProjectPath("/home/user/project")).toBe(projectPath);
+      expect(await resolveProject("-renamed-project")).toBe(projectPath);
+      expect(await resolveProject(projectPath)).toBe(projectPath);
+      expect(await resolveProject("/somewhere/else")).toBe(
+        join(configDir, "projects", "-somewhere-else")
+      );
+    } finally {
+      if (previous === undefined) delete process.env["CLAUDE_CONFIG_DIR"];
+      else process.env["CLAUDE_CONFIG_DIR"] = previous;
+      await rm(configDir, { recursive: true });
+    }
+  });
+});
+
+describe("resolveSession", () => {
+  it("finds sessions by ID prefix, in the project first", async () => {
+    const configDir = await mkdtemp(join(tmpdir(), "cc-prism-config-"));
+    const projectA = join(configDir, "projects", "-project-a");
+    const projectB = join(configDir, "projects", "-project-b");
+    await mkdir(projectA, { recursive: true });
+    await mkdir(projectB, { recursive: true });
+    const fixture = join(fixturesDir, "sample-session.jsonl");
+    await copyFile(fixture, join(projectA, "abc12345-aaaa.jsonl"));
+    await copyFile(fixture, join(projectB, "abc67890-bbbb.jsonl"));
+    await copyFile(fixture, join(projectB, "def00000-cccc.jsonl"));
+
+    const previous = process.env["CLAUDE_CONFIG_DIR"];
+    process.env["CLAUDE_CONFIG_DIR"] = configDir;
+    try {
+      expect(await resolveSession("abc", projectA)).toBe(join(projectA, "abc12345-aaaa.jsonl"));
+      expect(await resolveSession("def", projectA)).toBe(join(projectB, "def00000-cccc.jsonl"));
+      expect(await resolveSession(fixture, projectA)).toBe(fixture);
+      // The project is only resolved when an ID needs looking up
+      expect(await resolveSession(fixture, () => Promise.reject(new Error("resolved")))).toBe(fixture);
+      expect(await resolveSession("abc", async () => projectA)).toBe(join(projectA, "abc12345-aaaa.jsonl"));
+
+      const ambiguous = resolveSession("abc", join(configDir, "projects", "-other"));
+      await expect(ambiguous).rejects.toThrow(SessionLookupError);
+      await expect(ambiguous).rejects.toThrow(/matches 2 sessions[\s\S]*abc12345-aaaa/);
+      await expect(resolveSession("zzz", projectA)).rejects.toThrow("No session file or session ID");
+
+      expect(await getLatestSession(projectB, 3)).toBeNull();
+    } finally {
+      if (previous === undefined) delete process.env["CLAUDE_CONFIG_DIR"];
+      else process.env["CLAUDE_CONFIG_DIR"] = previous;
+      await rm(configDir, { recursive: true });
+    }
+  });
+});
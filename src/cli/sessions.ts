@@ -2,14 +2,153 @@
  * Session discovery - find Claude Code sessions for current project
  */
 
+import { existsSync, readdirSync } from "node:fs";
 import { readdir, stat } from "node:fs/promises";
-import { join } from "node:path";
+import { dirname, join, resolve } from "node:path";
 import { homedir } from "node:os";
+import { readTranscriptLines, getTimestamp } from "../parser/loader.js";
+import { getSearchText, isTurnStart } from "../parser/clip.js";
+import { isRenderableMessage } from "../types/messages.js";
+
+/** Get the Claude config directory ($CLAUDE_CONFIG_DIR, default ~/.claude) */
+export function getClaudeConfigDir(): string {
+  return process.env["CLAUDE_CONFIG_DIR"] || join(homedir(), ".claude");
+}
+
+/** Get the directory holding every Claude project */
+export function getClaudeProjectsDir(): string {
+  return join(getClaudeConfigDir(), "projects");
+}
 
 /** Get Claude projects directory path from a working directory */
 export function getClaudeProjectPath(cwd: string): string {
-  const mangled = cwd.replace(/\//g, "-");
-  return join(homedir(), ".claude/projects", mangled);
+  return join(getClaudeProjectsDir(), mangleProjectPath(cwd));
+}
+
+/**
+ * Name of the project directory for a working directory. Like Claude Code,
+ * every character other than a letter or digit becomes a dash.
+ */
+export function mangleProjectPath(cwd: string): string {
+  return cwd.replace(/[^a-zA-Z0-9]/g, "-");
+}
+
+/**
+ * Recover the working directory a project directory is named after.
+ * A dash may stand for "/", ".", "_", "-" and more, so the names found in
+ * the file system are mangled and compared (longest names first). Falls
+ * back to reading every dash as "/" when no directory matches.
+ */
+export function unmangleProjectName(name: string): string {
+  const mangled = name.replace(/^-/, "");
+  return findExistingPath("/", mangled) ?? "/" + mangled.replace(/-/g, "/");
+}
+
+function findExistingPath(dir: string, mangled: string): string | null {
+  if (mangled === "") return dir;
+
+  let entries: string[];
+  try {
+    entries = readdirSync(dir);
+  } catch {
+    return null;
+  }
+
+  const candidates = entries
+    .filter((entry) => {
+      const name = mangleProjectPath(entry);
+      return mangled === name || mangled.startsWith(name + "-");
+    })
+    .sort((a, b) => b.length - a.length);
+
+  for (const entry of candidates) {
+    const found = findExistingPath(join(dir, entry), mangled.slice(entry.length + 1));
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Working directory of a project: the cwd recorded in its sessions when it
+ * matches the directory name, else the unmangled name.
+ */
+export function getProjectCwd(name: string, sessions: SessionDetails[]): string {
+  const recorded = sessions.find((session) => session.cwd && mangleProjectPath(session.cwd) === name);
+  return recorded?.cwd ?? unmangleProjectName(name);
+}
+
+/**
+ * Find the project directory of a working directory. When no directory has
+ * the mangled name, projects whose sessions recorded this cwd are looked
+ * for. Returns the mangled path (which may not exist) when none match.
+ */
+export async function findProjectPath(cwd: string): Promise<string> {
+  const projectPath = getClaudeProjectPath(cwd);
+  if (existsSync(projectPath)) return projectPath;
+
+  for (const project of await listProjects()) {
+    for (const session of await listSessions(project.path)) {
+      const recorded = await readRecordedCwd(session.path);
+      if (recorded === cwd) return project.path;
+      if (recorded !== null) break;
+    }
+  }
+  return projectPath;
+}
+
+/**
+ * Find the project directory for `--project`: a project directory name
+ * (e.g. -home-user-app), the path of a project directory, or a working
+ * directory. Without a value, the project of the current directory.
+ */
+export async function resolveProject(value?: string, cwd: string = process.cwd()): Promise<string> {
+  if (value === undefined) return findProjectPath(cwd);
+
+  const projectsDir = getClaudeProjectsDir();
+  const byName = join(projectsDir, value);
+  if (!value.includes("/") && existsSync(byName)) return byName;
+
+  const path = resolve(cwd, value);
+  if (dirname(path) === resolve(projectsDir) && existsSync(path)) return path;
+  return findProjectPath(path);
+}
+
+/** Read the cwd of a session's first message that recorded one */
+async function readRecordedCwd(sessionPath: string): Promise<string | null> {
+  for await (const entry of readTranscriptLines(sessionPath)) {
+    if (entry.type === "user" && entry.cwd) return entry.cwd;
+  }
+  return null;
+}
+
+export interface ProjectInfo {
+  path: string;
+  /** Directory name (the mangled working directory) */
+  name: string;
+  modified: Date;
+}
+
+/** List Claude project directories, most recently modified first */
+export async function listProjects(): Promise<ProjectInfo[]> {
+  const projects: ProjectInfo[] = [];
+  const projectsDir = getClaudeProjectsDir();
+
+  try {
+    const entries = await readdir(projectsDir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+
+      const projectPath = join(projectsDir, entry.name);
+      const stats = await stat(projectPath);
+
+      projects.push({ path: projectPath, name: entry.name, modified: stats.mtime });
+    }
+  } catch {
+    // Directory doesn't exist
+  }
+
+  return projects.sort((a, b) => b.modified.getTime() - a.modified.getTime());
 }
 
 export interface SessionInfo {
@@ -47,11 +186,195 @@ export async function listSessions(projectPath: string): Promise<SessionInfo[]>
   return sessions.sort((a, b) => b.modified.getTime() - a.modified.getTime());
 }
 
-/** Get the most recent session file */
-export async function getLatestSession(cwd: string): Promise<string | null> {
-  const projectPath = getClaudeProjectPath(cwd);
+// =============================================================================
+// Session Details
+// =============================================================================
+
+/** A session with figures read from its entries */
+export interface SessionDetails extends SessionInfo {
+  /** First prompt typed in the session */
+  firstPrompt: string | null;
+  /** Messages that render (as listed by `list`) */
+  messages: number;
+  start: Date | null;
+  end: Date | null;
+  durationMs: number;
+  /** Models that answered, in order of first use */
+  models: string[];
+  /** Git branch of the last message that recorded one */
+  gitBranch: string | null;
+  /** Working directory of the first prompt */
+  cwd: string | null;
+}
+
+/** Read a session's entries (without agent transcripts) for its details */
+export async function getSessionDetails(session: SessionInfo): Promise<SessionDetails> {
+  const details: SessionDetails = {
+    ...session,
+    firstPrompt: null,
+    messages: 0,
+    start: null,
+    end: null,
+    durationMs: 0,
+    models: [],
+    gitBranch: null,
+    cwd: null,
+  };
+
+  for await (const entry of readTranscriptLines(session.path)) {
+    if (isRenderableMessage(entry)) details.messages++;
+
+    const timestamp = getTimestamp(entry);
+    if (timestamp) {
+      if (!details.start || timestamp < details.start) details.start = timestamp;
+      if (!details.end || timestamp > details.end) details.end = timestamp;
+    }
+
+    if (entry.type === "user") {
+      details.cwd ??= entry.cwd ?? null;
+      if (details.firstPrompt === null && isTurnStart(entry)) {
+        details.firstPrompt = getSearchText(entry).trim();
+      }
+    }
+    if (entry.type === "assistant" && entry.message.model !== "<synthetic>") {
+      if (!details.models.includes(entry.message.model)) details.models.push(entry.message.model);
+    }
+    if ((entry.type === "user" || entry.type === "assistant") && entry.gitBranch) {
+      details.gitBranch = entry.gitBranch;
+    }
+  }
+
+  if (details.start && details.end) {
+    details.durationMs = details.end.getTime() - details.start.getTime();
+  }
+  return details;
+}
+
+/** Ways to order sessions; all put the largest (or latest) first */
+export type SessionSortKey = "modified" | "created" | "duration" | "messages" | "size";
+
+export const SESSION_SORT_KEYS: readonly SessionSortKey[] = [
+  "modified",
+  "created",
+  "duration",
+  "messages",
+  "size",
+];
+
+/** Sort sessions by a key, largest (or latest) first */
+export function sortSessions<T extends SessionDetails>(sessions: T[], key: SessionSortKey): T[] {
+  const value = (session: SessionDetails): number => {
+    switch (key) {
+      case "modified":
+        return session.modified.getTime();
+      case "created":
+        return session.start?.getTime() ?? 0;
+      case "duration":
+        return session.durationMs;
+      case "messages":
+        return session.messages;
+      case "size":
+        return session.size;
+    }
+  };
+  return [...sessions].sort((a, b) => value(b) - value(a));
+}
+
+/** Which sessions to keep */
+export interface SessionFilter {
+  /** Last active at or after this time */
+  since?: Date;
+  /** Git branch, exactly */
+  gitBranch?: string;
+  /** Part of a model name */
+  model?: string;
+  /** Part of the first prompt (ignoring case) */
+  prompt?: string;
+}
+
+/** Keep the sessions matching every filter set */
+export function filterSessions<T extends SessionDetails>(sessions: T[], filter: SessionFilter): T[] {
+  const { since, gitBranch, model, prompt } = filter;
+  return sessions.filter(
+    (session) =>
+      (!since || (session.end ?? session.modified) >= since) &&
+      (!gitBranch || session.gitBranch === gitBranch) &&
+      (!model || session.models.some((name) => name.includes(model))) &&
+      (!prompt || (session.firstPrompt ?? "").toLowerCase().includes(prompt.toLowerCase()))
+  );
+}
+
+/** Get the most recent (or the Nth most recent) session file of a project directory */
+export async function getLatestSession(projectPath: string, nth = 1): Promise<string | null> {
   const sessions = await listSessions(projectPath);
-  return sessions[0]?.path ?? null;
+  return sessions[nth - 1]?.path ?? null;
+}
+
+// =============================================================================
+// Session Lookup
+// =============================================================================
+
+/** Sessions listed in a lookup error at most */
+const MAX_LISTED_SESSIONS = 10;
+
+/** Thrown when a session ID matches no session, or several */
+export class SessionLookupError extends Error {
+  readonly candidates: SessionInfo[];
+
+  constructor(message: string, candidates: SessionInfo[] = []) {
+    const shown = candidates.slice(0, MAX_LISTED_SESSIONS);
+    const more = candidates.length - shown.length;
+    super(
+      [
+        message,
+        ...shown.map((session) => `  ${session.name}  ${session.path}`),
+        ...(more > 0 ? [`  ... and ${more} more`] : []),
+      ].join("\n")
+    );
+    this.name = "SessionLookupError";
+    this.candidates = candidates;
+  }
+}
+
+/**
+ * Find a session file from a path, a session ID or a unique ID prefix.
+ * IDs are looked up in the project first, then in every project. The
+ * project may be given lazily; it is only resolved to look up an ID.
+ */
+export async function resolveSession(
+  value: string,
+  project: string | (() => Promise<string>)
+): Promise<string> {
+  const path = resolve(value);
+  if (existsSync(path) || /[\\/]|\.(jsonl?|cast)$/.test(value)) return path;
+
+  const projectPath = typeof project === "string" ? project : await project();
+  const inProject = findSessionsById(await listSessions(projectPath), value);
+  if (inProject.length === 1) return inProject[0]!.path;
+
+  let candidates = inProject;
+  if (candidates.length === 0) {
+    for (const project of await listProjects()) {
+      if (project.path === projectPath) continue;
+      candidates.push(...findSessionsById(await listSessions(project.path), value));
+    }
+    candidates = findSessionsById(candidates, value);
+  }
+
+  if (candidates.length === 1) return candidates[0]!.path;
+  if (candidates.length === 0) {
+    throw new SessionLookupError(`No session file or session ID matches "${value}"`);
+  }
+  throw new SessionLookupError(
+    `Session ID "${value}" matches ${candidates.length} sessions; use a longer prefix:`,
+    candidates
+  );
+}
+
+/** Sessions whose ID is `id`, else those whose ID starts with it */
+function findSessionsById(sessions: SessionInfo[], id: string): SessionInfo[] {
+  const exact = sessions.filter((session) => session.name === id);
+  return exact.length > 0 ? exact : sessions.filter((session) => session.name.startsWith(id));
 }
 
 /** Format file size */
@@ -81,6 +404,12 @@ export interface ProfileConfig {
   status_spinner?: boolean;
   spinner_duration?: number;
   markers?: string;
+  hide_thinking?: boolean;
+  hide_tool_results?: boolean;
+  /** Comma-separated tool names */
+  exclude_tools?: string;
+  only_tools?: string;
+  collapse_tools?: string;
 }
 
 /**
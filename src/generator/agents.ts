@@ -0,0 +1,215 @@
+/**
+ * Subagent grouping - attach subagent conversations to their Task calls
+ *
+ * The loader splices an agent's transcript in after the Task result that
+ * references it and tags each entry with the agent ID. Grouping collects
+ * those runs so they can be rendered under the Task call instead of as
+ * main-thread turns, even after clipping has reordered entries by time.
+ */
+
+import type { ToolUseContent, TranscriptEntry } from "../types/messages.js";
+import { getAgentId, getTimestamp, getToolResultIds } from "../parser/loader.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * How subagent conversations are shown:
+ * - collapsed: Task header and a one-line summary of the run
+ * - inline:    agent turns in the main thread, as recorded
+ * - expanded:  agent turns indented under the Task call
+ */
+export type AgentDisplayMode = "collapsed" | "inline" | "expanded";
+
+export const AGENT_DISPLAY_MODES: readonly AgentDisplayMode[] = ["collapsed", "inline", "expanded"];
+
+/** A subagent conversation and the Task call that started it */
+export interface AgentRun {
+  agentId: string;
+  /** Task description (falls back to the prompt) */
+  description: string;
+  /** Task subagent_type, when given */
+  subagentType?: string;
+  /** Agent transcript entries, in order */
+  entries: TranscriptEntry[];
+  /** The Task result that references the agent */
+  result: TranscriptEntry;
+  /** Tool calls made by the agent */
+  toolUseCount: number;
+  /** Run duration in milliseconds, when known */
+  durationMs: number | null;
+}
+
+/** Entries in display order, with agent runs looked up by entry */
+export interface AgentGrouping {
+  /** Entries with each agent run moved before its Task result */
+  entries: TranscriptEntry[];
+  /** Run for each agent entry and each Task result that references an agent */
+  runs: Map<TranscriptEntry, AgentRun>;
+}
+
+// =============================================================================
+// Grouping
+// =============================================================================
+
+/** Check whether a tool call starts a subagent */
+export function isAgentToolCall(tool: ToolUseContent): boolean {
+  return tool.name === "Task" || tool.name === "Agent";
+}
+
+/**
+ * Group agent transcripts with their Task calls.
+ * Each run is moved right before its Task result, so an agent's work shows
+ * as one block between the call and the result.
+ */
+export function groupAgentRuns(entries: TranscriptEntry[]): AgentGrouping {
+  const runsById = new Map<string, AgentRun>();
+  const runs = new Map<TranscriptEntry, AgentRun>();
+
+  // Task calls not yet matched to a result, by tool_use id
+  const openTasks = new Map<string, ToolUseContent>();
+
+  for (const entry of entries) {
+    if (entry.type === "assistant") {
+      for (const item of entry.message.content) {
+        if (item.type === "tool_use" && isAgentToolCall(item)) {
+          openTasks.set(item.id, item);
+        }
+      }
+    }
+
+    const agentId = getAgentId(entry);
+    if (!agentId || runsById.has(agentId)) continue;
+
+    const task = takeTask(openTasks, getToolResultIds(entry));
+    const subagentType = task?.input["subagent_type"];
+    const run: AgentRun = {
+      agentId,
+      description: getTaskDescription(task),
+      subagentType: typeof subagentType === "string" ? subagentType : undefined,
+      entries: [],
+      result: entry,
+      toolUseCount: 0,
+      durationMs: null,
+    };
+    runsById.set(agentId, run);
+    runs.set(entry, run);
+  }
+
+  // Agent entries are tagged with their agent by the loader
+  for (const entry of entries) {
+    const run = runsById.get(getEntryAgentId(entry) ?? "");
+    if (!run || run.result === entry) continue;
+    run.entries.push(entry);
+    runs.set(entry, run);
+  }
+
+  for (const run of runsById.values()) {
+    run.toolUseCount = countToolUses(run.result, run.entries);
+    run.durationMs = getRunDuration(run.result, run.entries);
+  }
+
+  // Emit each run (and any runs nested in it) before its result
+  const ordered: TranscriptEntry[] = [];
+  const emit = (entry: TranscriptEntry): void => {
+    const run = runs.get(entry);
+    if (run && run.result === entry) {
+      for (const agentEntry of run.entries) emit(agentEntry);
+    }
+    ordered.push(entry);
+  };
+  for (const entry of entries) {
+    const run = runs.get(entry);
+    if (run && run.result !== entry) continue;
+    emit(entry);
+  }
+
+  return { entries: ordered, runs };
+}
+
+/** Format a run summary, e.g. "Done (3 tool uses · 42s)" */
+export function formatAgentRunSummary(run: AgentRun): string {
+  const parts = [`${run.toolUseCount} tool use${run.toolUseCount === 1 ? "" : "s"}`];
+  if (run.durationMs !== null) {
+    parts.push(formatRunDuration(run.durationMs));
+  }
+  return `Done (${parts.join(" · ")})`;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Agent that wrote an entry, for entries from agent transcripts */
+function getEntryAgentId(entry: TranscriptEntry): string | null {
+  return "agentId" in entry && typeof entry.agentId === "string" ? entry.agentId : null;
+}
+
+/** Match a result to its Task call by id, else to the latest open Task */
+function takeTask(
+  openTasks: Map<string, ToolUseContent>,
+  resultIds: string[]
+): ToolUseContent | undefined {
+  for (const id of resultIds) {
+    const task = openTasks.get(id);
+    if (task) {
+      openTasks.delete(id);
+      return task;
+    }
+  }
+
+  const latest = [...openTasks.keys()].pop();
+  if (latest === undefined) return undefined;
+  const task = openTasks.get(latest);
+  openTasks.delete(latest);
+  return task;
+}
+
+function getTaskDescription(task: ToolUseContent | undefined): string {
+  const description = task?.input["description"];
+  if (typeof description === "string" && description.trim()) return description.trim();
+
+  const prompt = task?.input["prompt"];
+  if (typeof prompt === "string" && prompt.trim()) {
+    return prompt.trim().split("\n")[0]!;
+  }
+  return "Agent";
+}
+
+function countToolUses(result: TranscriptEntry, agentEntries: TranscriptEntry[]): number {
+  let count = 0;
+  for (const entry of agentEntries) {
+    if (entry.type !== "assistant") continue;
+    count += entry.message.content.filter((item) => item.type === "tool_use").length;
+  }
+
+  // Without the agent transcript, fall back to the total the result reports
+  if (agentEntries.length === 0 && result.type === "user") {
+    const total = typeof result.toolUseResult === "object"
+      ? result.toolUseResult.totalToolUseCount
+      : undefined;
+    return total ?? 0;
+  }
+  return count;
+}
+
+function getRunDuration(result: TranscriptEntry, agentEntries: TranscriptEntry[]): number | null {
+  if (result.type === "user" && typeof result.toolUseResult === "object") {
+    const total = result.toolUseResult.totalDurationMs;
+    if (typeof total === "number") return total;
+  }
+
+  const times = agentEntries
+    .map((entry) => getTimestamp(entry)?.getTime())
+    .filter((time): time is number => time !== undefined && !Number.isNaN(time));
+  if (times.length < 2) return null;
+  return Math.max(...times) - Math.min(...times);
+}
+
+/** Format a duration as "42s" or "3m 5s" */
+function formatRunDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
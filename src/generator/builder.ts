@@ -1,15 +1,18 @@
 /**
  * asciicast document builder
- * Creates asciicast v3 format documents from rendered messages
+ * Creates asciicast v3 format documents from rendered messages,
+ * written as v3 or (for older players) v2
  */
 
 import type {
   AsciicastHeader,
+  AsciicastV2Header,
   AsciicastEvent,
   AsciicastDocument,
   AsciicastTheme,
   OutputEvent,
   MarkerEvent,
+  CastFormat,
 } from "../types/asciicast.js";
 import { THEMES } from "../types/asciicast.js";
 
@@ -161,6 +164,11 @@ export class AsciicastBuilder {
     return this.events.length;
   }
 
+  /** Get the events added after the first `count` (for incremental output) */
+  eventsSince(count: number): AsciicastEvent[] {
+    return this.events.slice(count);
+  }
+
   /** Reset builder state (keeps config) */
   reset(): this {
     this.events = [];
@@ -174,22 +182,27 @@ export class AsciicastBuilder {
 // Serialization
 // =============================================================================
 
-/** Serialize asciicast document to .cast file format (NDJSON) */
-export function serializeCast(doc: AsciicastDocument): string {
+/**
+ * Serialize asciicast document to .cast file format (NDJSON).
+ * v2 files get absolute event times and top-level width/height/theme.
+ */
+export function serializeCast(doc: AsciicastDocument, format: CastFormat = "v3"): string {
   const lines: string[] = [];
+  const header = format === "v2" ? toV2Header(doc.header) : doc.header;
+  const events = format === "v2" ? toAbsoluteTimes(doc.events) : doc.events;
 
   // Header as first line
-  lines.push(JSON.stringify(doc.header));
+  lines.push(JSON.stringify(header));
 
   // Events as subsequent lines
-  for (const event of doc.events) {
+  for (const event of events) {
     lines.push(JSON.stringify(event));
   }
 
   return lines.join("\n") + "\n";
 }
 
-/** Parse .cast file content back to document */
+/** Parse .cast file content (v2 or v3) back to a v3 document */
 export function parseCast(content: string): AsciicastDocument {
   const lines = content.trim().split("\n");
 
@@ -197,7 +210,7 @@ export function parseCast(content: string): AsciicastDocument {
     throw new Error("Empty cast file");
   }
 
-  const header = JSON.parse(lines[0]!) as AsciicastHeader;
+  const header = JSON.parse(lines[0]!) as AsciicastHeader | AsciicastV2Header;
   const events: AsciicastEvent[] = [];
 
   for (let i = 1; i < lines.length; i++) {
@@ -207,5 +220,67 @@ export function parseCast(content: string): AsciicastDocument {
     }
   }
 
+  if (header.version === 2) {
+    return { header: fromV2Header(header), events: toIntervals(events) };
+  }
   return { header, events };
 }
+
+// =============================================================================
+// asciicast v2
+// =============================================================================
+
+/** Convert a v3 header: terminal size, type and theme move to the top level */
+export function toV2Header(header: AsciicastHeader): AsciicastV2Header {
+  const { term } = header;
+  const v2: AsciicastV2Header = { version: 2, width: term.cols, height: term.rows };
+
+  if (header.timestamp !== undefined) v2.timestamp = header.timestamp;
+  if (header.title !== undefined) v2.title = header.title;
+  if (term.type !== undefined || header.env) {
+    v2.env = { ...(term.type !== undefined ? { TERM: term.type } : {}), ...header.env };
+  }
+  if (term.theme) v2.theme = term.theme;
+  return v2;
+}
+
+/** Convert a v2 header back to v3 */
+export function fromV2Header(header: AsciicastV2Header): AsciicastHeader {
+  const { TERM: type, ...env } = header.env ?? {};
+  const v3: AsciicastHeader = { version: 3, term: { cols: header.width, rows: header.height } };
+
+  if (type !== undefined) v3.term.type = type;
+  if (header.theme) v3.term.theme = header.theme;
+  if (header.timestamp !== undefined) v3.timestamp = header.timestamp;
+  if (header.title !== undefined) v3.title = header.title;
+  if (Object.keys(env).length > 0) v3.env = env;
+  return v3;
+}
+
+/** Turn v3 intervals into v2 times since the start of the recording */
+export function toAbsoluteTimes(events: AsciicastEvent[]): AsciicastEvent[] {
+  let time = 0;
+  return events.map((event) => {
+    time += event[0];
+    return withTime(event, roundTime(time));
+  });
+}
+
+/** Turn v2 times since the start into v3 intervals */
+export function toIntervals(events: AsciicastEvent[]): AsciicastEvent[] {
+  let previous = 0;
+  return events.map((event) => {
+    const interval = Math.max(0, event[0] - previous);
+    previous = event[0];
+    return withTime(event, roundTime(interval));
+  });
+}
+
+function withTime(event: AsciicastEvent, time: number): AsciicastEvent {
+  return [time, ...event.slice(1)] as AsciicastEvent;
+}
+
+/** Round to microseconds, dropping float error from summing intervals */
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 1e6) / 1e6;
+}
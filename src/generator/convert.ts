@@ -4,7 +4,7 @@
  */
 
 import type { TranscriptEntry } from "../types/messages.js";
-import type { AsciicastDocument } from "../types/asciicast.js";
+import type { AsciicastDocument, AsciicastEvent, AsciicastHeader } from "../types/asciicast.js";
 import { AsciicastBuilder, type BuilderConfig } from "./builder.js";
 import {
   TimingCalculator,
@@ -14,9 +14,16 @@ import {
 import {
   shouldHaveMarker,
   generateMarkerLabel,
+  generateBoundaryMarkerLabel,
   type MarkerOptions,
   DEFAULT_MARKER_OPTIONS,
 } from "./markers.js";
+import {
+  groupAgentRuns,
+  formatAgentRunSummary,
+  type AgentDisplayMode,
+  type AgentRun,
+} from "./agents.js";
 import {
   renderMessage,
   extractTextContent,
@@ -34,8 +41,21 @@ import {
   type BurstTypingConfig,
 } from "../renderer/input.js";
 import { moveTo } from "../renderer/ansi.js";
-import { isRenderableMessage } from "../types/messages.js";
+import { CLIP_SKIPPED_SUBTYPE, isRenderableMessage } from "../types/messages.js";
 import { isTodoWriteToolResult } from "../renderer/todos.js";
+import { renderMissingToolResult, renderOrphanToolResultHeader } from "../renderer/tool-results.js";
+import {
+  renderAgentHeader,
+  renderAgentBlock,
+  renderAgentSummary,
+  AGENT_GUTTER_WIDTH,
+} from "../renderer/agents.js";
+import {
+  findToolOrphans,
+  getToolCallIds,
+  getUuid,
+  type ToolOrphanReport,
+} from "../parser/loader.js";
 import { isBashInputMessage, parseBashInput, renderBashInput } from "../renderer/commands.js";
 import {
   generateStatusSpinnerSegments,
@@ -70,6 +90,8 @@ export interface ConvertOptions {
   statusSpinner?: boolean;
   /** Duration of status spinner animation in seconds (default: 3.0) */
   spinnerDuration?: number;
+  /** How subagent conversations are shown (default: "expanded") */
+  agents?: AgentDisplayMode;
 }
 
 export interface ConvertResult {
@@ -90,6 +112,30 @@ export interface ConvertStats {
   markersGenerated: number;
   /** Total playback duration (seconds) */
   duration: number;
+  /** Tool calls rendered without a result */
+  orphanToolCalls: number;
+  /** Tool results rendered without their call */
+  orphanToolResults: number;
+}
+
+/** Whole-session context for an incremental converter */
+export interface ConverterContext {
+  /** Unpaired tool calls/results, rendered with explicit placeholders */
+  orphans?: ToolOrphanReport;
+  /** Agent runs by entry, from groupAgentRuns (agent entries render inline without) */
+  agentRuns?: Map<TranscriptEntry, AgentRun>;
+}
+
+/** Converts entries one at a time, for sessions that are still being written */
+export interface SessionConverter {
+  /** Render the next entry */
+  addEntry(entry: TranscriptEntry): void;
+  /** Header for the recording */
+  header(): AsciicastHeader;
+  /** Events generated since the previous call */
+  takeEvents(): AsciicastEvent[];
+  /** Build the document and stats */
+  finish(): ConvertResult;
 }
 
 // =============================================================================
@@ -101,7 +147,29 @@ export function convertToAsciicast(
   entries: TranscriptEntry[],
   options: ConvertOptions = {}
 ): ConvertResult {
+  // Subagent runs are shown under their Task call unless rendered inline
+  const grouping = (options.agents ?? "expanded") === "inline" ? null : groupAgentRuns(entries);
+
+  const converter = createSessionConverter(options, {
+    orphans: findToolOrphans(entries),
+    agentRuns: grouping?.runs,
+  });
+  for (const entry of grouping?.entries ?? entries) {
+    converter.addEntry(entry);
+  }
+  return converter.finish();
+}
+
+/**
+ * Create a converter that renders entries as they arrive.
+ * `convertToAsciicast` feeds a whole session through one of these.
+ */
+export function createSessionConverter(
+  options: ConvertOptions = {},
+  context: ConverterContext = {}
+): SessionConverter {
   const renderConfig = { ...DEFAULT_RENDER_CONFIG, ...options.render };
+  const agentMode = options.agents ?? "expanded";
   const markerOptions = { ...DEFAULT_MARKER_OPTIONS, ...options.markers };
   const timingConfig = resolveTimingConfig(options.timing ?? {});
   const inputAnimation = options.inputAnimation ?? false;
@@ -127,9 +195,23 @@ export function convertToAsciicast(
   const timing = new TimingCalculator(timingConfig);
 
   // Stats tracking
+  let entriesProcessed = 0;
   let entriesRendered = 0;
   let markersGenerated = 0;
 
+  // Unpaired tool calls/results are rendered with explicit placeholders
+  const orphanCalls = new Set(context.orphans?.orphanCalls);
+  const orphanResults = new Set(context.orphans?.orphanResults);
+
+  // Agent entries are nested under their Task call unless rendered inline
+  const agentRuns = agentMode === "inline" ? undefined : context.agentRuns;
+  const agentRenderConfig = {
+    ...renderConfig,
+    width: Math.max(20, renderConfig.width - AGENT_GUTTER_WIDTH),
+  };
+  // Runs whose header has been rendered
+  const openedRuns = new Set<AgentRun>();
+
   // Input UI configuration (used for animation and cursor positioning)
   const inputConfig: InputUIConfig = {
     theme: renderConfig.theme,
@@ -146,12 +228,9 @@ export function convertToAsciicast(
   const statusSpinner = options.statusSpinner ?? false;
   let currentActiveForm: string | null = null;
 
-  // Seed messageIndex from first entry's timestamp for varied verb selection per session
+  // Seeded from the first entry's timestamp for varied verb selection per session
   // This ensures different sessions get different verb sequences while remaining deterministic
-  const firstTimestamp = entries[0] && "timestamp" in entries[0]
-    ? new Date(entries[0].timestamp as string).getTime()
-    : Date.now();
-  let messageIndex = Math.abs(firstTimestamp | 0) % 1000; // Start at varied offset (0-999)
+  let messageIndex = 0;
 
   // Verb rotation timing - prevents rapid switching during consecutive tool calls
   // Note: Use 2.0s since default timing preset compresses gaps to max 3s
@@ -255,11 +334,26 @@ export function convertToAsciicast(
   // Spinners only appear AFTER user prompts are rendered, not before.
   // This keeps the initial frame clean and matches expected UX flow.
 
-  // Process each entry
-  for (const entry of entries) {
-    // Skip non-renderable entries
-    if (!isRenderableMessage(entry)) {
-      continue;
+  // Render one entry
+  const addEntry = (entry: TranscriptEntry): void => {
+    if (entriesProcessed++ === 0) {
+      // Start at varied offset (0-999)
+      const firstTimestamp = "timestamp" in entry
+        ? new Date(entry.timestamp as string).getTime()
+        : Date.now();
+      messageIndex = Math.abs(firstTimestamp | 0) % 1000;
+    }
+
+    // Skip non-renderable entries (summaries are rendered as dividers)
+    if (!isRenderableMessage(entry) && entry.type !== "summary") {
+      return;
+    }
+
+    // Entries belonging to a subagent run (agent turns, or the Task result)
+    const agentRun = agentRuns?.get(entry);
+    const isAgentEntry = agentRun !== undefined && agentRun.result !== entry;
+    if (isAgentEntry && agentMode === "collapsed") {
+      return;
     }
 
     // Track activeForm from TodoWrite tool results for spinner verb
@@ -308,7 +402,8 @@ export function convertToAsciicast(
       !("toolUseResult" in entry && entry.toolUseResult) &&
       !isMetaMessage &&
       !isBashOutput &&
-      !isInterruptMessage;
+      !isInterruptMessage &&
+      !isAgentEntry;
     const useInputAnimation = inputAnimation && isUserPrompt;
 
     // Check if this is an assistant message with text content (final response, not just tool calls)
@@ -348,6 +443,11 @@ export function convertToAsciicast(
     // Note: User prompts are NOT in this list - startSpinner() handles the transition
     const shouldClearSpinner = isMetaMessage || isSystemInfoMessage || isInterruptMessage;
 
+    // Time skipped between clip ranges is not played back
+    if (entry.type === "system" && entry.subtype === CLIP_SKIPPED_SUBTYPE) {
+      timing.resetGap();
+    }
+
     // Calculate timing for this entry
     // Skip for input animation (handles its own timing)
     if (!useInputAnimation) {
@@ -389,8 +489,17 @@ export function convertToAsciicast(
       spinner.row = null;
     }
 
-    // Generate marker if applicable
-    if (shouldHaveMarker(entry, markerOptions.mode)) {
+    // Mark compaction boundaries and summaries separately when requested
+    if (markerOptions.boundaries) {
+      const label = generateBoundaryMarkerLabel(entry, markerOptions.labelLength);
+      if (label) {
+        builder.marker(label);
+        markersGenerated++;
+      }
+    }
+
+    // Generate marker if applicable (the Task call already marks agent runs)
+    if (!isAgentEntry && shouldHaveMarker(entry, markerOptions.mode)) {
       const label = generateMarkerLabel(entry, markerOptions.labelLength);
       if (label) {
         builder.marker(label);
@@ -412,7 +521,7 @@ export function convertToAsciicast(
       const text = isBashInput
         ? `! ${parseBashInput(entry.message.content as string)!}`
         : entryText;
-      if (!text.trim()) continue;
+      if (!text.trim()) return;
 
       const inputConfig: InputUIConfig = {
         theme: renderConfig.theme,
@@ -457,15 +566,44 @@ export function convertToAsciicast(
       }
     } else {
       // Standard rendering
-      const rendered = renderMessage(entry, renderConfig);
-      if (!rendered) continue;
+      let rendered = renderMessage(entry, isAgentEntry ? agentRenderConfig : renderConfig);
+      if (agentRun && agentRun.result === entry && agentMode === "collapsed") {
+        rendered = renderAgentSummary(formatAgentRunSummary(agentRun), renderConfig);
+      }
+      if (!rendered) return;
+
+      // Make unpaired tool calls and results explicit
+      for (const id of getToolCallIds(entry)) {
+        if (orphanCalls.has(id) && renderConfig.showToolResults) {
+          rendered += "\n" + renderMissingToolResult(renderConfig.theme);
+        }
+      }
+      if (isToolResult && orphanResults.has(getUuid(entry) ?? "")) {
+        rendered = renderOrphanToolResultHeader(renderConfig.theme) + "\n" + rendered;
+      }
 
       // Convert \n to \r\n for proper terminal line endings
       // Use single newline after simple tool calls and bash input so results attach directly
       const isBashInput = entry.type === "user" &&
         typeof entry.message?.content === "string" &&
         entry.message.content.includes("<bash-input>");
-      const trailing = (isSimpleToolCall || isBashInput || isBashOutput) ? "\r\n" : "\r\n\r\n";
+      const isTight =
+        (isSimpleToolCall && renderConfig.showToolResults) || isBashInput || isBashOutput;
+      let trailing = isTight ? "\r\n" : "\r\n\r\n";
+
+      // Nest agent turns behind the agent gutter, headed by the Task description
+      if (isAgentEntry) {
+        rendered = renderAgentBlock(isTight ? rendered : rendered + "\n", renderConfig);
+        if (!openedRuns.has(agentRun)) {
+          openedRuns.add(agentRun);
+          rendered =
+            renderAgentHeader(agentRun.description, agentRun.subagentType, renderConfig) +
+            "\n" +
+            rendered;
+        }
+        trailing = "\r\n";
+      }
+
       const output = rendered.replace(/\n/g, "\r\n") + trailing;
 
       // When using input animation, position in scroll region first
@@ -499,19 +637,37 @@ export function convertToAsciicast(
     }
 
     entriesRendered++;
-  }
+  };
 
-  // Build final document
-  const document = builder.build();
+  let eventsTaken = 0;
 
   return {
-    document,
-    stats: {
-      entriesProcessed: entries.length,
-      entriesRendered,
-      eventsGenerated: document.events.length,
-      markersGenerated,
-      duration: builder.time,
+    addEntry,
+
+    header: () => builder.buildHeader(),
+
+    takeEvents: () => {
+      const events = builder.eventsSince(eventsTaken);
+      eventsTaken += events.length;
+      return events;
+    },
+
+    finish: () => {
+      // Build final document
+      const document = builder.build();
+
+      return {
+        document,
+        stats: {
+          entriesProcessed,
+          entriesRendered,
+          eventsGenerated: document.events.length,
+          markersGenerated,
+          duration: builder.time,
+          orphanToolCalls: context.orphans?.orphanCalls.length ?? 0,
+          orphanToolResults: context.orphans?.orphanResults.length ?? 0,
+        },
+      };
     },
   };
 }
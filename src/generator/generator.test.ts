@@ -1,11 +1,14 @@
 import { describe, it, expect } from "vitest";
 import { join } from "node:path";
 import { fileURLToPath } from "node:url";
-import { loadTranscript } from "../parser/loader.js";
+import { loadTranscript, getUuid, sortByTimestamp } from "../parser/loader.js";
+import { stripAnsi } from "../renderer/ansi.js";
 import { AsciicastBuilder, serializeCast, parseCast } from "./builder.js";
 import { TimingCalculator, resolveTimingConfig, generateTypingSegments } from "./timing.js";
-import { shouldHaveMarker, generateMarkerLabel } from "./markers.js";
+import { shouldHaveMarker, generateMarkerLabel, generateBoundaryMarkerLabel } from "./markers.js";
 import { convertToAsciicast, convertWithPreset, getSessionInfo } from "./convert.js";
+import { groupAgentRuns, formatAgentRunSummary } from "./agents.js";
+import { extractClip } from "../parser/clip.js";
 import { THEMES } from "../types/asciicast.js";
 
 const __dirname = fileURLToPath(new URL(".", import.meta.url));
@@ -106,6 +109,48 @@ describe("serializeCast / parseCast", () => {
       expect(() => JSON.parse(line)).not.toThrow();
     }
   });
+
+  it("writes v2 with absolute times and a top-level size and theme", () => {
+    const doc = new AsciicastBuilder({ title: "Test", cols: 80, rows: 24, timestamp: 1700000000 }).build();
+    doc.events = [
+      [0.1, "o", "a"],
+      [0.2, "m", "Point A"],
+      [0, "o", "b"],
+      [1.5, "o", "c"],
+    ];
+
+    const [header, ...events] = serializeCast(doc, "v2")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+
+    expect(header).toEqual({
+      version: 2,
+      width: 80,
+      height: 24,
+      timestamp: 1700000000,
+      title: "Test",
+      env: { TERM: "xterm-256color" },
+      theme: doc.header.term.theme,
+    });
+    expect(events).toEqual([
+      [0.1, "o", "a"],
+      [0.3, "m", "Point A"],
+      [0.3, "o", "b"],
+      [1.8, "o", "c"],
+    ]);
+  });
+
+  it("parses v2 back into the v3 document", () => {
+    const doc = new AsciicastBuilder({ title: "Test", timestamp: 1700000000 }).build();
+    doc.events = [
+      [0.1, "o", "a"],
+      [0.25, "m", "Point A"],
+      [2, "o", "b"],
+    ];
+
+    expect(parseCast(serializeCast(doc, "v2"))).toEqual(doc);
+  });
 });
 
 describe("TimingCalculator", () => {
@@ -150,6 +195,21 @@ describe("TimingCalculator", () => {
 
     expect(maxDelta).toBeLessThanOrEqual(config.maxWait + config.thinkingPause);
   });
+
+  it("uses a default pause after resetGap", async () => {
+    const [prompt, reply] = await loadTranscript(join(fixturesDir, "sample-session.jsonl"));
+    const later = { ...reply!, timestamp: "2025-12-04T14:00:00.000Z" };
+    const config = resolveTimingConfig({ preset: "default" });
+    const delta = (reset: boolean) => {
+      const calc = new TimingCalculator(config);
+      const start = calc.nextEntry(prompt!);
+      if (reset) calc.resetGap();
+      return calc.nextEntry(later) - start;
+    };
+
+    expect(delta(false)).toBe(config.maxWait);
+    expect(delta(true)).toBe(config.thinkingPause);
+  });
 });
 
 describe("generateTypingSegments", () => {
@@ -207,6 +267,18 @@ describe("markers", () => {
     expect(label).toContain("●");
     expect(label).toContain("Read");
   });
+
+  it("generates boundary labels for summaries and compactions only", async () => {
+    const entries = await loadTranscript(join(fixturesDir, "compacted-session.jsonl"));
+
+    expect(entries.map((e) => generateBoundaryMarkerLabel(e, 40))).toEqual([
+      "✻ Summary: Refactor the payment service",
+      null,
+      null,
+      null,
+      "✻ Compacted (152.3k → 12.1k)",
+    ]);
+  });
 });
 
 describe("convertToAsciicast", () => {
@@ -241,6 +313,51 @@ describe("convertToAsciicast", () => {
     expect(markers.length).toBe(0);
   });
 
+  it("renders summaries and compaction boundaries as dividers", async () => {
+    const entries = await loadTranscript(join(fixturesDir, "compacted-session.jsonl"));
+    const result = convertToAsciicast(entries, { timing: { preset: "speedrun" } });
+
+    const output = stripAnsi(
+      result.document.events
+        .filter((e) => e[1] === "o")
+        .map((e) => e[2])
+        .join("")
+    );
+    expect(output).toContain("✻ Summary");
+    expect(output).toContain("✻ Conversation compacted · 152.3k → 12.1k tokens");
+    expect(result.stats.entriesRendered).toBe(entries.length);
+  });
+
+  it("adds boundary markers only when enabled", async () => {
+    const entries = await loadTranscript(join(fixturesDir, "compacted-session.jsonl"));
+    const labels = (boundaries: boolean) =>
+      convertToAsciicast(entries, { markers: { mode: "none", boundaries } })
+        .document.events.filter((e) => e[1] === "m")
+        .map((e) => e[2]);
+
+    expect(labels(false)).toEqual([]);
+    expect(labels(true)).toEqual(["✻ Summary: Refactor the payme…", "✻ Compacted (152.3k → 12.1k)"]);
+  });
+
+  it("renders skipped messages between clip ranges with a marker", async () => {
+    const entries = await loadTranscript(join(fixturesDir, "sample-session.jsonl"));
+    const clip = extractClip(entries, {
+      ranges: [{ endUuid: "msg-002" }, { startUuid: "msg-008" }],
+    });
+    const result = convertToAsciicast(clip, { markers: { mode: "user" } });
+
+    const output = stripAnsi(
+      result.document.events
+        .filter((e) => e[1] === "o")
+        .map((e) => e[2])
+        .join("")
+    );
+    expect(output).toContain("⋯ 5 messages skipped ⋯");
+    expect(result.document.events.filter((e) => e[1] === "m").map((e) => e[2])).toContain(
+      "⋯ 5 messages skipped"
+    );
+  });
+
   it("embeds theme in header", async () => {
     const entries = await loadTranscript(join(fixturesDir, "sample-session.jsonl"));
     const result = convertToAsciicast(entries);
@@ -249,6 +366,89 @@ describe("convertToAsciicast", () => {
     expect(result.document.header.term.theme?.fg).toBe("#a9b1d6");
     expect(result.document.header.term.theme?.bg).toBe("#1a1b26");
   });
+  it("renders unpaired tool calls and results explicitly", async () => {
+    const entries = await loadTranscript(join(fixturesDir, "sample-session.jsonl"));
+    // Drop the result for the Read call (msg-005) and the call for the Edit result (msg-006)
+    const clipped = entries
+      .filter((e) => !["msg-005", "msg-006"].includes(getUuid(e) ?? ""))
+      .map((e) =>
+        e.type === "user" && getUuid(e) === "msg-007"
+          ? { ...e, message: { role: "user" as const, content: [{ type: "tool_result" as const, tool_use_id: "tool-002" }] } }
+          : e
+      );
+    const result = convertToAsciicast(clipped, { timing: { preset: "speedrun" } });
+
+    const output = stripAnsi(
+      result.document.events
+        .filter((e) => e[1] === "o")
+        .map((e) => e[2])
+        .join("")
+    );
+    expect(output).toContain("No result recorded");
+    expect(output).toContain("Unknown tool call");
+    expect(result.stats.orphanToolCalls).toBe(1);
+    expect(result.stats.orphanToolResults).toBe(1);
+  });
+});
+
+describe("groupAgentRuns", () => {
+  it("moves each agent run before its Task result", async () => {
+    const entries = await loadTranscript(join(fixturesDir, "nested/nested-session.jsonl"));
+    // Clipping orders entries by time, which puts the agent before earlier results
+    const { entries: ordered, runs } = groupAgentRuns(sortByTimestamp(entries));
+
+    expect(ordered.map((e) => getUuid(e))).toEqual([
+      "n-001", "n-002", "na-001", "na-002", "n-003", "n-004", "n-005",
+    ]);
+
+    const run = runs.get(ordered[4]!)!;
+    expect(run.agentId).toBe("abcd1234");
+    expect(run.description).toBe("Review parser");
+    expect(run.subagentType).toBe("code-reviewer");
+    expect(run.entries.map((e) => getUuid(e))).toEqual(["na-001", "na-002"]);
+    expect(runs.get(ordered[2]!)).toBe(run);
+  });
+
+  it("falls back to the Task prompt and agent timestamps", async () => {
+    const entries = await loadTranscript(join(fixturesDir, "with-agent-ref.jsonl"));
+    const { runs } = groupAgentRuns(entries);
+    const run = [...runs.values()][0]!;
+
+    expect(run.description).toBe("Search for files");
+    expect(formatAgentRunSummary(run)).toBe("Done (0 tool uses · 5s)");
+  });
+});
+
+describe("agent display modes", () => {
+  const render = async (agents: "collapsed" | "inline" | "expanded") => {
+    const entries = await loadTranscript(join(fixturesDir, "nested/nested-session.jsonl"));
+    const result = convertToAsciicast(entries, { timing: { preset: "speedrun" }, agents });
+    return stripAnsi(
+      result.document.events
+        .filter((e) => e[1] === "o")
+        .map((e) => e[2])
+        .join("")
+    );
+  };
+
+  it("nests agent turns under the Task call when expanded", async () => {
+    const output = await render("expanded");
+    expect(output).toContain("  ⤵ Review parser (code-reviewer)\r\n  │ → Review the parser");
+    expect(output).toContain("  │ Looks good");
+  });
+
+  it("shows only a run summary when collapsed", async () => {
+    const output = await render("collapsed");
+    expect(output).not.toContain("Review the parser");
+    expect(output).toContain("⎿  Done (0 tool uses · 40s)");
+  });
+
+  it("renders agent turns in the main thread when inline", async () => {
+    const output = await render("inline");
+    expect(output).toContain("Review the parser");
+    expect(output).not.toContain("⤵ Review parser");
+    expect(output).not.toContain("│");
+  });
 });
 
 describe("convertWithPreset", () => {
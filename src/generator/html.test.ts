@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { UserMessage } from "../types/messages.js";
+import { loadTranscript } from "../parser/loader.js";
+import { bg, fg, style } from "../renderer/ansi.js";
+import { DRACULA, TOKYO_NIGHT } from "../renderer/theme.js";
+import { ansiToHtml, renderHtml } from "./html.js";
+
+const __dirname = fileURLToPath(new URL(".", import.meta.url));
+const sessionPath = join(__dirname, "../parser/__fixtures__/sample-session.jsonl");
+
+const editResult: UserMessage = {
+  type: "user",
+  timestamp: "2025-01-01T00:00:00Z",
+  sessionId: "test",
+  uuid: "edit-result",
+  parentUuid: null,
+  userType: "external",
+  cwd: "/test",
+  message: { role: "user", content: "" },
+  toolUseResult: {
+    filePath: "/test/file.ts",
+    oldString: "old",
+    newString: "new",
+    structuredPatch: [{ oldStart: 10, newStart: 10, oldLines: 1, newLines: 1, lines: ["-old", "+new"] }],
+  } as UserMessage["toolUseResult"],
+};
+
+describe("ansiToHtml", () => {
+  it("turns colors and styles into spans and escapes the text", () => {
+    const ansi = style("<b>", { fg: "#ff0000", bold: true }) + " & " + bg("#00ff00") + fg("#0000ff") + "x";
+
+    expect(ansiToHtml(ansi, TOKYO_NIGHT)).toBe(
+      `<span style="color:#ff0000;font-weight:bold">&lt;b&gt;</span> &amp; ` +
+        `<span style="color:#0000ff;background:#00ff00">x</span>`
+    );
+  });
+});
+
+describe("renderHtml", () => {
+  it("renders a standalone page with a table of contents and anchors", async () => {
+    const html = renderHtml(await loadTranscript(sessionPath), {
+      title: "Bug <fix>",
+      render: { theme: DRACULA },
+    });
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain("<title>Bug &lt;fix&gt;</title>");
+    expect(html).toContain(`background: ${DRACULA.bg}`);
+    expect(html).toContain(`<li><a href="#msg-003">&gt; The app crashes on startup</a></li>`);
+    expect(html).toContain(`<section class="entry user" id="msg-003">`);
+    expect(html).toMatch(/<details class="thinking"><summary>.*∴ Thinking….*<\/summary><pre>.*Let me check/);
+    expect(html).toMatch(/<details class="tool-output"><summary>Output · 5 lines<\/summary>/);
+  });
+
+  it("keeps diffs open and lists only the chosen markers", () => {
+    const html = renderHtml([editResult], { markers: "user" });
+
+    expect(html).toContain(`<details class="tool-output" open><summary>Diff</summary>`);
+    expect(html).toContain("file.ts");
+    expect(html).not.toContain(`<nav class="toc">`);
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Static HTML export - a readable, scrollable transcript instead of an animation
+ * Entries are rendered with the same renderers as the recording, and their ANSI
+ * output is turned into styled spans. Thinking and tool output are collapsible.
+ */
+
+import type { AssistantMessage, TranscriptEntry } from "../types/messages.js";
+import type { MarkerMode } from "../types/asciicast.js";
+import { getUuid } from "../parser/loader.js";
+import { renderMessage, DEFAULT_RENDER_CONFIG, type RenderConfig } from "../renderer/messages.js";
+import { isEditToolResult } from "../renderer/diff.js";
+import { stripAnsi } from "../renderer/ansi.js";
+import { toAsciicastTheme, type RenderTheme } from "../renderer/theme.js";
+import { generateMarkerLabel, shouldHaveMarker } from "./markers.js";
+import { applyGraphicRendition, ColorResolver, type CellStyle } from "./screen.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface HtmlExportOptions {
+  /** Page title (default: "Claude Code Session") */
+  title?: string;
+  /** Render configuration (theme, wrap width, thinking and tool results) */
+  render?: Partial<RenderConfig>;
+  /** Which messages get a table of contents entry (default: all) */
+  markers?: MarkerMode;
+  /** Maximum length of table of contents labels (default: 60) */
+  labelLength?: number;
+}
+
+/** A table of contents entry, labelled like the recording's markers */
+interface TocEntry {
+  uuid: string;
+  label: string;
+}
+
+const DEFAULT_TITLE = "Claude Code Session";
+const DEFAULT_LABEL_LENGTH = 60;
+
+// eslint-disable-next-line no-control-regex
+const SGR_PATTERN = /\x1b\[([0-9;:]*)m/g;
+
+// eslint-disable-next-line no-control-regex
+const OTHER_ESCAPE_PATTERN = /\x1b\[[0-9;:?]*[@-~]/g;
+
+// =============================================================================
+// Document
+// =============================================================================
+
+/** Render transcript entries as a standalone HTML page */
+export function renderHtml(entries: TranscriptEntry[], options: HtmlExportOptions = {}): string {
+  // Tool output is collapsed instead of truncated
+  const cfg: RenderConfig = {
+    ...DEFAULT_RENDER_CONFIG,
+    ...options.render,
+    maxToolOutputLines: Number.POSITIVE_INFINITY,
+  };
+  const title = options.title ?? DEFAULT_TITLE;
+  const toc: TocEntry[] = [];
+  const sections: string[] = [];
+
+  for (const entry of entries) {
+    const body = renderEntryBody(entry, cfg);
+    if (!body) continue;
+
+    const uuid = getUuid(entry);
+    const agent = "isSidechain" in entry && entry.isSidechain;
+    if (uuid && !agent && shouldHaveMarker(entry, options.markers ?? "all")) {
+      const label = generateMarkerLabel(entry, options.labelLength ?? DEFAULT_LABEL_LENGTH);
+      if (label) toc.push({ uuid, label });
+    }
+
+    const classes = ["entry", entry.type, ...(agent ? ["agent"] : [])].join(" ");
+    const anchor = uuid ? ` id="${escapeHtml(uuid)}"` : "";
+    const link = uuid ? `<a class="anchor" href="#${escapeHtml(uuid)}" title="Link to this message">#</a>` : "";
+    sections.push(`<section class="${classes}"${anchor}>${link}${body}</section>`);
+  }
+
+  return [
+    "<!DOCTYPE html>",
+    `<html lang="en">`,
+    "<head>",
+    `<meta charset="utf-8">`,
+    `<meta name="viewport" content="width=device-width, initial-scale=1">`,
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${renderStyles(cfg.theme, cfg.width)}</style>`,
+    "</head>",
+    "<body>",
+    renderToc(toc),
+    "<main>",
+    `<h1>${escapeHtml(title)}</h1>`,
+    ...sections,
+    "</main>",
+    "</body>",
+    "</html>",
+  ].join("\n") + "\n";
+}
+
+/** Render an entry's content; empty when nothing is shown for it */
+function renderEntryBody(entry: TranscriptEntry, cfg: RenderConfig): string {
+  if (entry.type === "assistant") {
+    return renderAssistantBody(entry, cfg);
+  }
+
+  const rendered = renderMessage(entry, cfg);
+  if (!rendered) return "";
+
+  if (entry.type === "user" && entry.toolUseResult !== undefined) {
+    // Diffs stay open; other output is collapsed behind a line count
+    const lines = stripAnsi(rendered).split("\n").length;
+    const summary = isEditToolResult(entry.toolUseResult) ? "Diff" : `Output · ${formatLines(lines)}`;
+    const open = isEditToolResult(entry.toolUseResult) ? " open" : "";
+    return `<details class="tool-output"${open}><summary>${summary}</summary>${pre(rendered, cfg.theme)}</details>`;
+  }
+
+  return pre(rendered, cfg.theme);
+}
+
+/** Thinking blocks become collapsed sections; the rest renders as one block */
+function renderAssistantBody(entry: AssistantMessage, cfg: RenderConfig): string {
+  const parts: string[] = [];
+  const content = entry.message.content;
+
+  if (cfg.showThinking) {
+    for (const item of content) {
+      if (item.type !== "thinking") continue;
+      const rendered = renderMessage(withContent(entry, [item]), cfg);
+      if (!rendered) continue;
+      // The renderer's "∴ Thinking…" header becomes the summary
+      const [header = "", ...lines] = rendered.split("\n");
+      const body = lines.join("\n").replace(/^\n+/, "");
+      parts.push(
+        `<details class="thinking"><summary>${ansiToHtml(header, cfg.theme)}</summary>${pre(body, cfg.theme)}</details>`
+      );
+    }
+  }
+
+  const rest = content.filter((item) => item.type !== "thinking");
+  if (rest.length > 0 || entry.context_management) {
+    const rendered = renderMessage(withContent(entry, rest), cfg);
+    if (rendered) parts.push(pre(rendered, cfg.theme));
+  }
+
+  return parts.join("");
+}
+
+function withContent(entry: AssistantMessage, content: AssistantMessage["message"]["content"]): AssistantMessage {
+  return { ...entry, message: { ...entry.message, content } };
+}
+
+function renderToc(toc: TocEntry[]): string {
+  if (toc.length === 0) return "";
+  const items = toc.map(
+    ({ uuid, label }) => `<li><a href="#${escapeHtml(uuid)}">${escapeHtml(label)}</a></li>`
+  );
+  return `<nav class="toc"><h2>Contents</h2><ol>${items.join("")}</ol></nav>`;
+}
+
+function pre(ansi: string, theme: RenderTheme): string {
+  return `<pre>${ansiToHtml(ansi, theme)}</pre>`;
+}
+
+function formatLines(count: number): string {
+  return `${count} line${count === 1 ? "" : "s"}`;
+}
+
+// =============================================================================
+// Styles
+// =============================================================================
+
+function renderStyles(theme: RenderTheme, width: number): string {
+  return `
+:root { color-scheme: dark; }
+body { margin: 0; display: flex; align-items: flex-start; background: ${theme.bg}; color: ${theme.fg};
+  font: 14px/1.45 ui-monospace, SFMono-Regular, Menlo, Consolas, "Liberation Mono", monospace; }
+a { color: ${theme.userPrompt}; }
+nav.toc { position: sticky; top: 0; flex: 0 0 18rem; max-height: 100vh; overflow-y: auto; box-sizing: border-box;
+  padding: 1rem; border-right: 1px solid ${theme.boxDrawing}; }
+nav.toc h2 { margin: 0 0 0.5rem; font-size: 1em; color: ${theme.muted}; }
+nav.toc ol { margin: 0; padding-left: 2.5em; color: ${theme.muted}; }
+nav.toc a { display: block; overflow: hidden; white-space: nowrap; text-overflow: ellipsis; color: ${theme.fg}; text-decoration: none; }
+nav.toc a:hover { color: ${theme.userPrompt}; }
+main { flex: 1; min-width: 0; max-width: calc(${width}ch + 4rem); padding: 1rem 2rem; }
+h1 { font-size: 1.2em; color: ${theme.toolName}; }
+.entry { position: relative; margin: 0 0 1em; scroll-margin-top: 1rem; }
+.entry.agent { margin-left: 2ch; padding-left: 1ch; border-left: 2px solid ${theme.agent}; }
+.entry:target { outline: 1px solid ${theme.boxDrawing}; outline-offset: 4px; }
+.anchor { position: absolute; left: -1.5em; color: ${theme.muted}; text-decoration: none; opacity: 0; }
+.entry:hover .anchor, .anchor:focus { opacity: 1; }
+pre { margin: 0; font: inherit; white-space: pre-wrap; overflow-wrap: anywhere; }
+details > summary { cursor: pointer; color: ${theme.muted}; }
+details > pre { margin-top: 0.25em; }
+`.trim();
+}
+
+// =============================================================================
+// ANSI to HTML
+// =============================================================================
+
+/** Convert ANSI-styled text to HTML spans, resolving colors with the theme */
+export function ansiToHtml(text: string, theme: RenderTheme): string {
+  const colors = new ColorResolver(toAsciicastTheme(theme));
+  const clean = text.replace(OTHER_ESCAPE_PATTERN, (sequence) => (sequence.endsWith("m") ? sequence : ""));
+  const parts: string[] = [];
+  let style: CellStyle = {};
+  let last = 0;
+
+  const pushText = (end: number) => {
+    if (end > last) parts.push(span(clean.slice(last, end), style, colors));
+  };
+
+  for (const match of clean.matchAll(SGR_PATTERN)) {
+    pushText(match.index);
+    const params = match[1]!.split(/[;:]/).map((param) => (param ? parseInt(param, 10) : 0));
+    style = applyGraphicRendition(style, params);
+    last = match.index + match[0].length;
+  }
+  pushText(clean.length);
+
+  return parts.join("");
+}
+
+function span(text: string, style: CellStyle, colors: ColorResolver): string {
+  const css: string[] = [];
+  const hasColor = style.fg !== undefined || style.bg !== undefined || style.inverse;
+  if (hasColor) {
+    const { fg, bg } = colors.resolve(style);
+    css.push(`color:${fg}`);
+    if (bg) css.push(`background:${bg}`);
+  }
+  if (style.bold) css.push("font-weight:bold");
+  if (style.dim) css.push("opacity:0.6");
+  if (style.italic) css.push("font-style:italic");
+  const decorations = [style.underline ? "underline" : "", style.strikethrough ? "line-through" : ""].filter(Boolean);
+  if (decorations.length > 0) css.push(`text-decoration:${decorations.join(" ")}`);
+
+  const escaped = escapeHtml(text);
+  return css.length > 0 ? `<span style="${css.join(";")}">${escaped}</span>` : escaped;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
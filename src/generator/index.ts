@@ -2,3 +2,9 @@ export * from "./builder.js";
 export * from "./timing.js";
 export * from "./markers.js";
 export * from "./convert.js";
+export * from "./agents.js";
+export * from "./live.js";
+export * from "./screen.js";
+export * from "./svg.js";
+export * from "./html.js";
+export * from "./markdown.js";
@@ -0,0 +1,55 @@
+/**
+ * Live conversion - render entries into asciicast events as they arrive
+ */
+
+import type { TranscriptEntry } from "../types/messages.js";
+import type { AsciicastEvent, AsciicastHeader } from "../types/asciicast.js";
+import { createSessionConverter, type ConvertOptions, type ConvertResult } from "./convert.js";
+
+/** Receives a live recording as it is produced */
+export interface LiveCastSink {
+  /** Called once, before any events */
+  header(header: AsciicastHeader): void | Promise<void>;
+  /** Called with the events rendered for each new entry */
+  events(events: AsciicastEvent[]): void | Promise<void>;
+}
+
+/**
+ * Convert an entry stream incrementally, passing events to the sink as each
+ * entry is rendered. Resolves with the full result once the stream ends.
+ *
+ * Whole-session passes (orphan detection, subagent grouping) need entries
+ * that have not been written yet, so they are skipped: agent entries in the
+ * stream render inline and unpaired tool calls get no placeholder. Followed
+ * sessions (`cast --follow`) have no agent entries, since subagent
+ * transcripts are not read while following.
+ */
+export async function streamAsciicast(
+  entries: AsyncIterable<TranscriptEntry>,
+  sink: LiveCastSink,
+  options: ConvertOptions = {}
+): Promise<ConvertResult> {
+  const converter = createSessionConverter(options);
+
+  await sink.header(converter.header());
+  await flush();
+
+  for await (const entry of entries) {
+    converter.addEntry(entry);
+    await flush();
+  }
+
+  return converter.finish();
+
+  async function flush(): Promise<void> {
+    const events = converter.takeEvents();
+    if (events.length > 0) {
+      await sink.events(events);
+    }
+  }
+}
+
+/** Serialize a header or event as one line of a .cast file */
+export function serializeCastLine(item: AsciicastHeader | AsciicastEvent): string {
+  return JSON.stringify(item) + "\n";
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { AssistantMessage, UserMessage } from "../types/messages.js";
+import { loadTranscript } from "../parser/loader.js";
+import { renderMarkdownTranscript } from "./markdown.js";
+
+const __dirname = fileURLToPath(new URL(".", import.meta.url));
+const sessionPath = join(__dirname, "../parser/__fixtures__/sample-session.jsonl");
+
+const base = {
+  timestamp: "2025-01-01T00:00:00Z",
+  sessionId: "test",
+  parentUuid: null,
+  userType: "external" as const,
+  cwd: "/test",
+};
+
+const todoCall: AssistantMessage = {
+  ...base,
+  type: "assistant",
+  uuid: "todo-call",
+  message: {
+    id: "msg_todo",
+    type: "message",
+    role: "assistant",
+    model: "claude",
+    stop_reason: "tool_use",
+    content: [
+      {
+        type: "tool_use",
+        id: "toolu_todo",
+        name: "TodoWrite",
+        input: {
+          todos: [
+            { content: "Find the crash", status: "completed" },
+            { content: "Fix it", status: "in_progress" },
+          ],
+        },
+      },
+    ],
+  },
+};
+
+const editResult: UserMessage = {
+  ...base,
+  type: "user",
+  uuid: "edit-result",
+  message: { role: "user", content: "" },
+  toolUseResult: {
+    filePath: "/test/file.ts",
+    oldString: "old",
+    newString: "new",
+    structuredPatch: [{ oldStart: 10, newStart: 10, oldLines: 1, newLines: 1, lines: ["-old", "+new"] }],
+  } as UserMessage["toolUseResult"],
+};
+
+const backtickResult: UserMessage = {
+  ...base,
+  type: "user",
+  uuid: "bash-result",
+  message: { role: "user", content: "" },
+  toolUseResult: { stdout: "```js\nx\n```" },
+};
+
+describe("renderMarkdownTranscript", () => {
+  it("quotes prompts, summarizes tools and collapses thinking and output", async () => {
+    const md = renderMarkdownTranscript(await loadTranscript(sessionPath), { title: "Crash fix" });
+
+    expect(md).toMatch(/^# Crash fix\n\n/);
+    expect(md).toContain("> The app crashes on startup");
+    expect(md).toMatch(/<details>\n<summary>Thinking<\/summary>\n\nLet me check/);
+    expect(md).toMatch(/● `Read\(.+\)`/);
+    expect(md).toMatch(/<details>\n<summary>Output<\/summary>\n\n```\n/);
+  });
+
+  it("renders Edit results as diffs and todos as a checklist", () => {
+    const md = renderMarkdownTranscript([todoCall, editResult]);
+
+    expect(md).toContain("- [x] Find the crash\n- [ ] Fix it");
+    expect(md).toContain("```diff\n--- /test/file.ts\n+++ /test/file.ts\n@@ -10,1 +10,1 @@\n-old\n+new\n```");
+  });
+
+  it("delimits tool summaries containing backticks", () => {
+    const bashCall: AssistantMessage = {
+      ...todoCall,
+      uuid: "bash-call",
+      message: {
+        ...todoCall.message,
+        content: [{ type: "tool_use", id: "toolu_bash", name: "Bash", input: { command: "echo `date`" } }],
+      },
+    };
+
+    expect(renderMarkdownTranscript([bashCall])).toContain("● `` Bash(echo `date`) ``");
+  });
+
+  it("leaves out thinking and output when asked, and lengthens fences around backticks", () => {
+    const md = renderMarkdownTranscript([backtickResult], {});
+    expect(md).toContain("````\n```js\nx\n```\n````");
+
+    expect(renderMarkdownTranscript([backtickResult], { showToolResults: false })).toBe("\n");
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Markdown export - session excerpts for docs and PR descriptions
+ * Prompts become blockquotes, assistant text stays markdown, tool calls are
+ * one-line summaries, Edit results become diffs and thinking is collapsed.
+ */
+
+import type {
+  AssistantMessage,
+  ContentItem,
+  TodoItem,
+  ToolUseContent,
+  TranscriptEntry,
+  UserMessage,
+} from "../types/messages.js";
+import { CLIP_SKIPPED_SUBTYPE, SESSION_RESUMED_SUBTYPE } from "../types/messages.js";
+import { getToolResultText } from "../parser/filter.js";
+import { extractTextContent } from "../renderer/messages.js";
+import { isEditToolResult, type EditToolResult } from "../renderer/diff.js";
+import { isTodoWriteToolResult } from "../renderer/todos.js";
+import { formatToolArgs, formatToolName } from "../renderer/tool-formatting.js";
+import { stripAnsi } from "../renderer/ansi.js";
+import { TOKYO_NIGHT } from "../renderer/theme.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface MarkdownExportOptions {
+  /** Heading of the document (default: none) */
+  title?: string;
+  /** Include thinking blocks, collapsed (default: true) */
+  showThinking?: boolean;
+  /** Include tool output (default: true) */
+  showToolResults?: boolean;
+}
+
+// =============================================================================
+// Document
+// =============================================================================
+
+/** Render transcript entries as a markdown document */
+export function renderMarkdownTranscript(
+  entries: TranscriptEntry[],
+  options: MarkdownExportOptions = {}
+): string {
+  const blocks: string[] = [];
+  if (options.title) blocks.push(`# ${options.title}`);
+
+  for (const entry of entries) {
+    const block = renderEntry(entry, options);
+    if (block) blocks.push(block);
+  }
+
+  return blocks.join("\n\n") + "\n";
+}
+
+function renderEntry(entry: TranscriptEntry, options: MarkdownExportOptions): string {
+  switch (entry.type) {
+    case "user":
+      if (entry.isMeta) return "";
+      if (entry.toolUseResult !== undefined) {
+        return options.showToolResults === false ? "" : renderToolResult(entry);
+      }
+      return renderPrompt(entry);
+    case "assistant":
+      return renderAssistant(entry, options);
+    case "system":
+      if (entry.subtype === CLIP_SKIPPED_SUBTYPE) {
+        return `*⋯ ${entry.content ?? "Messages skipped"}*`;
+      }
+      if (entry.subtype === SESSION_RESUMED_SUBTYPE) {
+        return "---\n\n*Session resumed*";
+      }
+      return "";
+    default:
+      return "";
+  }
+}
+
+/** User prompt as a blockquote */
+function renderPrompt(msg: UserMessage): string {
+  const text = extractTextContent(msg.message.content).trim();
+  if (!text) return "";
+  return text
+    .split("\n")
+    .map((line) => (line ? `> ${line}` : ">"))
+    .join("\n");
+}
+
+function renderAssistant(msg: AssistantMessage, options: MarkdownExportOptions): string {
+  const parts: string[] = [];
+
+  if (msg.context_management?.type === "compacted") {
+    parts.push("---\n\n*Conversation compacted*");
+  }
+
+  for (const item of msg.message.content) {
+    const part = renderContentItem(item, options);
+    if (part) parts.push(part);
+  }
+
+  return parts.join("\n\n");
+}
+
+function renderContentItem(item: ContentItem, options: MarkdownExportOptions): string {
+  switch (item.type) {
+    case "text":
+      return item.text.trim();
+    case "thinking":
+      if (options.showThinking === false || !item.thinking.trim()) return "";
+      return `<details>\n<summary>Thinking</summary>\n\n${item.thinking.trim()}\n\n</details>`;
+    case "tool_use":
+      return renderToolUse(item);
+    case "image":
+      return "*[Image]*";
+    default:
+      return "";
+  }
+}
+
+// =============================================================================
+// Tools
+// =============================================================================
+
+/** One-line summary of a tool call, as in the recording's tool header */
+function renderToolUse(tool: ToolUseContent): string {
+  const { displayName, isMcp } = formatToolName(tool.name);
+  const args = stripAnsi(formatToolArgs(tool, TOKYO_NIGHT, isMcp));
+  const summary = `● ${inlineCode(displayName + args)}`;
+
+  const todos = tool.name === "TodoWrite" ? tool.input["todos"] : undefined;
+  if (Array.isArray(todos) && todos.length > 0) {
+    return summary + "\n\n" + (todos as TodoItem[]).map(renderTodo).join("\n");
+  }
+  return summary;
+}
+
+function renderTodo(todo: TodoItem): string {
+  return `- [${todo.status === "completed" ? "x" : " "}] ${todo.content}`;
+}
+
+function renderToolResult(msg: UserMessage): string {
+  const result = msg.toolUseResult!;
+
+  if (isEditToolResult(result)) {
+    return fence(renderDiff(result), "diff");
+  }
+  // Todos are listed with the TodoWrite call
+  if (isTodoWriteToolResult(result)) {
+    return "";
+  }
+
+  const text = getToolResultText(result).replace(/\n+$/, "");
+  if (!text.trim()) return "";
+  const summary = typeof result === "string" || result.is_error ? "Error" : "Output";
+  return `<details>\n<summary>${summary}</summary>\n\n${fence(text)}\n\n</details>`;
+}
+
+/** Unified diff of an Edit result, from its structured patch */
+function renderDiff(result: EditToolResult): string {
+  const lines = [`--- ${result.filePath}`, `+++ ${result.filePath}`];
+  for (const hunk of result.structuredPatch ?? []) {
+    lines.push(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`);
+    lines.push(...hunk.lines);
+  }
+  return lines.join("\n");
+}
+
+/** Fence a code block, with a fence longer than any backtick run in the text */
+function fence(text: string, language = ""): string {
+  const marker = "`".repeat(Math.max(3, longestBacktickRun(text) + 1));
+  return `${marker}${language}\n${text}\n${marker}`;
+}
+
+/** Inline code, delimited by more backticks than any run in the text */
+function inlineCode(text: string): string {
+  const longest = longestBacktickRun(text);
+  if (longest === 0) return `\`${text}\``;
+  // Pad so backticks at either end don't merge with the delimiter
+  const marker = "`".repeat(longest + 1);
+  return `${marker} ${text} ${marker}`;
+}
+
+function longestBacktickRun(text: string): number {
+  return Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+}
@@ -3,9 +3,11 @@
  */
 
 import type { TranscriptEntry, UserMessage, AssistantMessage } from "../types/messages.js";
+import { CLIP_SKIPPED_SUBTYPE } from "../types/messages.js";
 import type { MarkerMode } from "../types/asciicast.js";
 import { extractText, extractToolUse } from "../renderer/content.js";
 import { isCommandMessage, parseCommandTags, parseLocalCommandStdout } from "../renderer/commands.js";
+import { formatTokenCount, getContextTokens } from "../renderer/dividers.js";
 
 // =============================================================================
 // Marker Configuration
@@ -16,11 +18,14 @@ export interface MarkerOptions {
   mode: MarkerMode;
   /** Maximum length for marker labels */
   labelLength: number;
+  /** Also mark compaction boundaries and session summaries */
+  boundaries: boolean;
 }
 
 export const DEFAULT_MARKER_OPTIONS: MarkerOptions = {
   mode: "all",
   labelLength: 30,
+  boundaries: false,
 };
 
 // =============================================================================
@@ -50,6 +55,10 @@ export function shouldHaveMarker(
       // Regular assistant messages
       return mode === "all";
 
+    case "system":
+      // Joins between clip ranges
+      return entry.subtype === CLIP_SKIPPED_SUBTYPE;
+
     default:
       return false;
   }
@@ -67,11 +76,42 @@ export function generateMarkerLabel(
     case "assistant":
       return generateAssistantMarkerLabel(entry, maxLength);
 
+    case "system":
+      return entry.subtype === CLIP_SKIPPED_SUBTYPE
+        ? truncateMarker(`⋯ ${entry.content ?? "Messages skipped"}`, maxLength)
+        : null;
+
     default:
       return null;
   }
 }
 
+/**
+ * Generate marker label for a compaction boundary or session summary.
+ * Returns null for other entries.
+ */
+export function generateBoundaryMarkerLabel(
+  entry: TranscriptEntry,
+  maxLength: number = 30
+): string | null {
+  if (entry.type === "summary") {
+    const text = entry.summary.replace(/\s+/g, " ").trim();
+    return truncateMarker(text ? `✻ Summary: ${text}` : "✻ Summary", maxLength);
+  }
+
+  if (entry.type === "assistant" && entry.context_management?.type === "compacted") {
+    const { original_tokens, compacted_tokens } = entry.context_management;
+    if (original_tokens && compacted_tokens) {
+      const before = formatTokenCount(getContextTokens(original_tokens));
+      const after = formatTokenCount(getContextTokens(compacted_tokens));
+      return truncateMarker(`✻ Compacted (${before} → ${after})`, maxLength);
+    }
+    return "✻ Compacted";
+  }
+
+  return null;
+}
+
 // =============================================================================
 // User Message Markers
 // =============================================================================
@@ -0,0 +1,504 @@
+/**
+ * Terminal screen model - replays asciicast output into a grid of cells
+ * Handles the subset of VT sequences the renderer emits (cursor movement,
+ * erasing, scroll regions, SGR colors and styles); anything else is ignored.
+ */
+
+import type { AsciicastTheme } from "../types/asciicast.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Palette index (0-255) or a "#rrggbb" color */
+export type CellColor = number | string;
+
+export interface CellStyle {
+  fg?: CellColor;
+  bg?: CellColor;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  inverse?: boolean;
+}
+
+interface Cell {
+  char: string;
+  style: CellStyle;
+}
+
+/** Consecutive cells of a row sharing a style */
+export interface ScreenRun {
+  /** Column the run starts at (0-indexed) */
+  col: number;
+  text: string;
+  style: CellStyle;
+}
+
+const DEFAULT_STYLE: CellStyle = {};
+
+const TAB_WIDTH = 8;
+
+// eslint-disable-next-line no-control-regex
+const ESCAPE_PATTERN = /\x1b(?:\[([?>=!]?)([0-9;:]*)[ -/]*([@-~])|\][^\x07\x1b]*(?:\x07|\x1b\\)|[()][0-9A-Za-z]|([78cDEM])|[^[\]()])/y;
+
+// eslint-disable-next-line no-control-regex
+const INCOMPLETE_ESCAPE_PATTERN = /^\x1b(?:\[[?>=!]?[0-9;:]*[ -/]*|\][^\x07\x1b]*\x1b?|[()])?$/;
+
+// =============================================================================
+// Screen
+// =============================================================================
+
+export class TerminalScreen {
+  private cols: number;
+  private rows: number;
+  private cells: Cell[][];
+  private x = 0;
+  private y = 0;
+  /** Cursor sits past the last column; the next character wraps */
+  private wrapPending = false;
+  private scrollTop = 0;
+  private scrollBottom: number;
+  private saved = { x: 0, y: 0 };
+  private style: CellStyle = DEFAULT_STYLE;
+  /** Escape sequence cut off at the end of the last write */
+  private pending = "";
+
+  constructor(cols: number, rows: number) {
+    this.cols = cols;
+    this.rows = rows;
+    this.scrollBottom = rows - 1;
+    this.cells = Array.from({ length: rows }, () => this.blankRow());
+  }
+
+  /** Terminal width */
+  get width(): number {
+    return this.cols;
+  }
+
+  /** Terminal height */
+  get height(): number {
+    return this.rows;
+  }
+
+  /** Cursor position (0-indexed) */
+  get cursor(): { x: number; y: number } {
+    return { x: this.x, y: this.y };
+  }
+
+  /** Feed terminal output to the screen */
+  write(text: string): void {
+    const input = this.pending + text;
+    this.pending = "";
+    let i = 0;
+
+    while (i < input.length) {
+      const code = input.codePointAt(i)!;
+
+      if (code === 0x1b) {
+        ESCAPE_PATTERN.lastIndex = i;
+        const match = ESCAPE_PATTERN.exec(input);
+        if (match) {
+          if (match[3] !== undefined) this.csi(match[1]!, match[2]!, match[3]);
+          else if (match[4] !== undefined) this.escape(match[4]);
+          i = ESCAPE_PATTERN.lastIndex;
+        } else if (INCOMPLETE_ESCAPE_PATTERN.test(input.slice(i))) {
+          this.pending = input.slice(i);
+          return;
+        } else {
+          i++;
+        }
+        continue;
+      }
+
+      const char = String.fromCodePoint(code);
+      i += char.length;
+      if (code < 0x20 || code === 0x7f) this.control(char);
+      else this.print(char);
+    }
+  }
+
+  /** Change the terminal size, keeping the top-left of the content */
+  resize(cols: number, rows: number): void {
+    this.cells = Array.from({ length: rows }, (_, y) => {
+      const row = this.cells[y] ?? [];
+      return Array.from({ length: cols }, (_, x) => row[x] ?? this.blankCell());
+    });
+    this.cols = cols;
+    this.rows = rows;
+    this.scrollTop = 0;
+    this.scrollBottom = rows - 1;
+    this.moveTo(this.x, this.y);
+  }
+
+  /** Rows as runs of styled text, with trailing blank cells dropped */
+  getLines(): ScreenRun[][] {
+    return this.cells.map((row) => {
+      let end = row.length;
+      while (end > 0 && isBlank(row[end - 1]!)) end--;
+
+      const runs: ScreenRun[] = [];
+      for (let x = 0; x < end; x++) {
+        const cell = row[x]!;
+        const last = runs[runs.length - 1];
+        if (last && sameStyle(last.style, cell.style)) {
+          last.text += cell.char;
+        } else {
+          runs.push({ col: x, text: cell.char, style: cell.style });
+        }
+      }
+      return runs;
+    });
+  }
+
+  /** Plain text of each row, trailing spaces trimmed */
+  getText(): string[] {
+    return this.cells.map((row) => row.map((cell) => cell.char).join("").trimEnd());
+  }
+
+  // ===========================================================================
+  // Characters
+  // ===========================================================================
+
+  private print(char: string): void {
+    if (this.wrapPending) {
+      this.x = 0;
+      this.wrapPending = false;
+      this.lineFeed();
+    }
+    this.cells[this.y]![this.x] = { char, style: this.style };
+    if (this.x === this.cols - 1) this.wrapPending = true;
+    else this.x++;
+  }
+
+  private control(char: string): void {
+    switch (char) {
+      case "\r":
+        this.moveTo(0, this.y);
+        break;
+      case "\n":
+      case "\v":
+      case "\f":
+        this.wrapPending = false;
+        this.lineFeed();
+        break;
+      case "\b":
+        this.moveTo(this.x - 1, this.y);
+        break;
+      case "\t":
+        this.moveTo((Math.floor(this.x / TAB_WIDTH) + 1) * TAB_WIDTH, this.y);
+        break;
+    }
+  }
+
+  private lineFeed(): void {
+    if (this.y === this.scrollBottom) this.scrollUp();
+    else if (this.y < this.rows - 1) this.y++;
+  }
+
+  private reverseLineFeed(): void {
+    if (this.y === this.scrollTop) this.scrollDown();
+    else if (this.y > 0) this.y--;
+  }
+
+  private scrollUp(): void {
+    this.cells.splice(this.scrollTop, 1);
+    this.cells.splice(this.scrollBottom, 0, this.blankRow());
+  }
+
+  private scrollDown(): void {
+    this.cells.splice(this.scrollBottom, 1);
+    this.cells.splice(this.scrollTop, 0, this.blankRow());
+  }
+
+  // ===========================================================================
+  // Escape Sequences
+  // ===========================================================================
+
+  private escape(final: string): void {
+    switch (final) {
+      case "7":
+        this.saved = { x: this.x, y: this.y };
+        break;
+      case "8":
+        this.moveTo(this.saved.x, this.saved.y);
+        break;
+      case "c":
+        this.style = DEFAULT_STYLE;
+        this.scrollTop = 0;
+        this.scrollBottom = this.rows - 1;
+        this.cells = Array.from({ length: this.rows }, () => this.blankRow());
+        this.moveTo(0, 0);
+        break;
+      case "D":
+        this.wrapPending = false;
+        this.lineFeed();
+        break;
+      case "E":
+        this.moveTo(0, this.y);
+        this.lineFeed();
+        break;
+      case "M":
+        this.wrapPending = false;
+        this.reverseLineFeed();
+        break;
+    }
+  }
+
+  private csi(prefix: string, paramText: string, final: string): void {
+    // Private modes (cursor visibility, alternate screen, ...) don't change the cells
+    if (prefix) return;
+
+    const params = paramText.split(/[;:]/).map((param) => (param ? parseInt(param, 10) : 0));
+    const n = Math.max(1, params[0] ?? 0);
+
+    switch (final) {
+      case "A":
+        this.moveTo(this.x, this.y - n);
+        break;
+      case "B":
+      case "e":
+        this.moveTo(this.x, this.y + n);
+        break;
+      case "C":
+      case "a":
+        this.moveTo(this.x + n, this.y);
+        break;
+      case "D":
+        this.moveTo(this.x - n, this.y);
+        break;
+      case "E":
+        this.moveTo(0, this.y + n);
+        break;
+      case "F":
+        this.moveTo(0, this.y - n);
+        break;
+      case "G":
+      case "`":
+        this.moveTo(n - 1, this.y);
+        break;
+      case "d":
+        this.moveTo(this.x, n - 1);
+        break;
+      case "H":
+      case "f":
+        this.moveTo(Math.max(1, params[1] ?? 0) - 1, n - 1);
+        break;
+      case "J":
+        this.eraseInDisplay(params[0] ?? 0);
+        break;
+      case "K":
+        this.eraseInLine(params[0] ?? 0);
+        break;
+      case "X":
+        this.eraseCells(this.y, this.x, this.x + n);
+        break;
+      case "L":
+        this.insertLines(n);
+        break;
+      case "M":
+        this.deleteLines(n);
+        break;
+      case "S":
+        for (let i = 0; i < n; i++) this.scrollUp();
+        break;
+      case "T":
+        for (let i = 0; i < n; i++) this.scrollDown();
+        break;
+      case "m":
+        this.style = applyGraphicRendition(this.style, params);
+        break;
+      case "r": {
+        const top = Math.max(1, params[0] ?? 0) - 1;
+        const bottom = Math.min(this.rows, params[1] || this.rows) - 1;
+        if (top < bottom) {
+          this.scrollTop = top;
+          this.scrollBottom = bottom;
+          this.moveTo(0, 0);
+        }
+        break;
+      }
+      case "s":
+        this.saved = { x: this.x, y: this.y };
+        break;
+      case "u":
+        this.moveTo(this.saved.x, this.saved.y);
+        break;
+    }
+  }
+
+  private moveTo(x: number, y: number): void {
+    this.x = clamp(x, 0, this.cols - 1);
+    this.y = clamp(y, 0, this.rows - 1);
+    this.wrapPending = false;
+  }
+
+  private eraseInDisplay(mode: number): void {
+    if (mode === 0) {
+      this.eraseCells(this.y, this.x, this.cols);
+      for (let y = this.y + 1; y < this.rows; y++) this.eraseCells(y, 0, this.cols);
+    } else if (mode === 1) {
+      for (let y = 0; y < this.y; y++) this.eraseCells(y, 0, this.cols);
+      this.eraseCells(this.y, 0, this.x + 1);
+    } else {
+      for (let y = 0; y < this.rows; y++) this.eraseCells(y, 0, this.cols);
+    }
+  }
+
+  private eraseInLine(mode: number): void {
+    if (mode === 0) this.eraseCells(this.y, this.x, this.cols);
+    else if (mode === 1) this.eraseCells(this.y, 0, this.x + 1);
+    else this.eraseCells(this.y, 0, this.cols);
+  }
+
+  private eraseCells(y: number, from: number, to: number): void {
+    const row = this.cells[y]!;
+    for (let x = from; x < Math.min(to, this.cols); x++) row[x] = this.blankCell();
+  }
+
+  private insertLines(count: number): void {
+    if (this.y < this.scrollTop || this.y > this.scrollBottom) return;
+    for (let i = 0; i < count; i++) {
+      this.cells.splice(this.scrollBottom, 1);
+      this.cells.splice(this.y, 0, this.blankRow());
+    }
+  }
+
+  private deleteLines(count: number): void {
+    if (this.y < this.scrollTop || this.y > this.scrollBottom) return;
+    for (let i = 0; i < count; i++) {
+      this.cells.splice(this.y, 1);
+      this.cells.splice(this.scrollBottom, 0, this.blankRow());
+    }
+  }
+
+  // ===========================================================================
+  // Blank Cells
+  // ===========================================================================
+
+  private blankCell(): Cell {
+    // Erased cells keep the current background, as in xterm
+    return { char: " ", style: this.style.bg !== undefined ? { bg: this.style.bg } : DEFAULT_STYLE };
+  }
+
+  private blankRow(): Cell[] {
+    return Array.from({ length: this.cols }, () => this.blankCell());
+  }
+}
+
+// =============================================================================
+// Colors and Styles
+// =============================================================================
+
+/** Apply SGR parameters (colors and styles) to a style, returning the new style */
+export function applyGraphicRendition(current: CellStyle, params: number[]): CellStyle {
+  const style: CellStyle = { ...current };
+
+  for (let i = 0; i < params.length; i++) {
+    const param = params[i]!;
+    if (param === 0) {
+      for (const key of Object.keys(style)) delete style[key as keyof CellStyle];
+    } else if (param === 1) style.bold = true;
+    else if (param === 2) style.dim = true;
+    else if (param === 3) style.italic = true;
+    else if (param === 4) style.underline = true;
+    else if (param === 7) style.inverse = true;
+    else if (param === 9) style.strikethrough = true;
+    else if (param === 22) {
+      delete style.bold;
+      delete style.dim;
+    } else if (param === 23) delete style.italic;
+    else if (param === 24) delete style.underline;
+    else if (param === 27) delete style.inverse;
+    else if (param === 29) delete style.strikethrough;
+    else if (param >= 30 && param <= 37) style.fg = param - 30;
+    else if (param === 39) delete style.fg;
+    else if (param >= 40 && param <= 47) style.bg = param - 40;
+    else if (param === 49) delete style.bg;
+    else if (param >= 90 && param <= 97) style.fg = param - 90 + 8;
+    else if (param >= 100 && param <= 107) style.bg = param - 100 + 8;
+    else if (param === 38 || param === 48) {
+      const [color, used] = parseExtendedColor(params, i + 1);
+      if (color !== undefined) style[param === 38 ? "fg" : "bg"] = color;
+      i += used;
+    }
+  }
+
+  return style;
+}
+
+/** Turn cell colors into hex using the theme palette */
+export class ColorResolver {
+  private theme: AsciicastTheme;
+  private palette: string[];
+
+  constructor(theme: AsciicastTheme) {
+    this.theme = theme;
+    this.palette = theme.palette.split(":");
+  }
+
+  /** Foreground and background of a style (bg is null when it's the default) */
+  resolve(style: CellStyle): { fg: string; bg: string | null } {
+    const fg = style.fg !== undefined ? this.color(style.fg) : this.theme.fg;
+    const bg = style.bg !== undefined ? this.color(style.bg) : null;
+    return style.inverse ? { fg: bg ?? this.theme.bg, bg: fg } : { fg, bg };
+  }
+
+  private color(color: CellColor): string {
+    if (typeof color === "string") return color;
+    if (color < 16) {
+      // Themes with 8 colors reuse them for the bright ones
+      return this.palette[color] ?? this.palette[color - 8] ?? this.theme.fg;
+    }
+    return xtermColor(color);
+  }
+}
+
+/** Colors 16-255 of the xterm palette: a 6x6x6 cube, then a gray ramp */
+function xtermColor(index: number): string {
+  if (index >= 232) {
+    const level = (index - 232) * 10 + 8;
+    return toHex(level, level, level);
+  }
+  const cube = index - 16;
+  const level = (n: number) => (n === 0 ? 0 : n * 40 + 55);
+  return toHex(level(Math.floor(cube / 36)), level(Math.floor(cube / 6) % 6), level(cube % 6));
+}
+
+function toHex(r: number, g: number, b: number): string {
+  return "#" + [r, g, b].map((value) => value.toString(16).padStart(2, "0")).join("");
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Read a 256-color (5;n) or truecolor (2;r;g;b) argument, returning the params used */
+function parseExtendedColor(params: number[], start: number): [CellColor | undefined, number] {
+  if (params[start] === 5) {
+    return [params[start + 1], 2];
+  }
+  if (params[start] === 2) {
+    const rgb = params.slice(start + 1, start + 4);
+    const hex = rgb.map((value) => clamp(value, 0, 255).toString(16).padStart(2, "0")).join("");
+    return [rgb.length === 3 ? `#${hex}` : undefined, 4];
+  }
+  return [undefined, 0];
+}
+
+function isBlank(cell: Cell): boolean {
+  return cell.char === " " && cell.style.bg === undefined && !cell.style.inverse;
+}
+
+/** Compare styles by value */
+function sameStyle(a: CellStyle, b: CellStyle): boolean {
+  if (a === b) return true;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as Array<keyof CellStyle>);
+  return [...keys].every((key) => a[key] === b[key]);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import type { AsciicastDocument, AsciicastEvent } from "../types/asciicast.js";
+import { THEMES } from "../types/asciicast.js";
+import { TerminalScreen } from "./screen.js";
+import { collectFrames, renderSvg } from "./svg.js";
+
+function document(events: AsciicastEvent[], cols = 20, rows = 3): AsciicastDocument {
+  return {
+    header: { version: 3, term: { cols, rows, theme: THEMES["dracula"] }, title: "Demo <1>" },
+    events,
+  };
+}
+
+describe("TerminalScreen", () => {
+  it("wraps, scrolls and moves the cursor", () => {
+    const screen = new TerminalScreen(5, 3);
+    screen.write("abcdefg\r\nxy\x1b[1;4Hz\r\nlast");
+    expect(screen.getText()).toEqual(["abcze", "last", "xy"]);
+
+    screen.write("\x1b[3;1H\r\nend");
+    expect(screen.getText()).toEqual(["last", "xy", "end"]);
+  });
+
+  it("scrolls only inside the scroll region", () => {
+    const screen = new TerminalScreen(10, 4);
+    screen.write("\x1b[1;2r\x1b[4;1Hinput\x1b[2;1Hone\r\ntwo\r\nthree");
+
+    expect(screen.getText()).toEqual(["two", "three", "", "input"]);
+  });
+
+  it("erases lines and keeps escape sequences split across writes", () => {
+    const screen = new TerminalScreen(10, 2);
+    screen.write("spinner");
+    screen.write("\r\x1b[");
+    screen.write("2Kdone");
+
+    expect(screen.getText()).toEqual(["done", ""]);
+  });
+
+  it("tracks colors and styles in runs", () => {
+    const screen = new TerminalScreen(20, 1);
+    screen.write("\x1b[1;38;2;255;0;128mbold\x1b[0m plain \x1b[31;44mred\x1b[39m");
+
+    expect(screen.getLines()[0]).toEqual([
+      { col: 0, text: "bold", style: { bold: true, fg: "#ff0080" } },
+      { col: 4, text: " plain ", style: {} },
+      { col: 11, text: "red", style: { fg: 1, bg: 4 } },
+    ]);
+  });
+});
+
+describe("collectFrames", () => {
+  it("folds idle time and drops unchanged frames", () => {
+    const frames = collectFrames(
+      document([
+        [0, "o", "a"],
+        [30, "o", "b"],
+        [0.5, "m", "marker"],
+        [0.5, "o", "c"],
+      ]),
+      { idleTimeLimit: 1 }
+    );
+
+    expect(frames.map((frame) => frame.time)).toEqual([0, 1, 2]);
+    expect(frames[2]?.lines[0]).toEqual([{ col: 0, text: "abc", style: {} }]);
+  });
+
+  it("merges events to stay within the frame limit", () => {
+    const events: AsciicastEvent[] = Array.from({ length: 100 }, () => [0.1, "o", "x"]);
+    const frames = collectFrames(document(events, 200), { maxFrames: 10 });
+
+    expect(frames.length).toBeLessThanOrEqual(10);
+    expect(frames[frames.length - 1]?.lines[0]?.[0]?.text).toBe("x".repeat(100));
+  });
+});
+
+describe("renderSvg", () => {
+  it("renders frames, keyframes and the theme", () => {
+    const svg = renderSvg(
+      document([
+        [0, "o", "hello"],
+        [1, "o", "\r\n\x1b[32mworld"],
+      ]),
+      { window: true }
+    );
+
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg"/);
+    expect(svg).toContain(`fill="${THEMES["dracula"]!.bg}"`);
+    expect(svg).toContain("<title>Demo &lt;1&gt;</title>");
+    expect(svg).toContain("@keyframes play{0%{transform:translateX(0px)}33.333%{transform:translateX(-168px)}}");
+    // "hello" is defined once and used in both frames
+    expect(svg.match(/>hello</g)).toHaveLength(1);
+    expect(svg.match(/href="#l0"/g)).toHaveLength(2);
+    expect(svg).toContain(`fill="${THEMES["dracula"]!.palette.split(":")[2]}">world</text>`);
+  });
+
+  it("leaves out the animation for a single frame", () => {
+    const svg = renderSvg(document([[0, "o", "still"]]));
+
+    expect(svg).toContain("<style></style>");
+    expect(svg).not.toContain("<circle");
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Animated SVG export - replays an asciicast document into a self-contained SVG
+ * Each frame is a snapshot of the terminal screen; CSS keyframes slide a strip
+ * of frames past the viewport. Identical rows are defined once and reused.
+ */
+
+import type { AsciicastDocument, AsciicastTheme } from "../types/asciicast.js";
+import { THEMES } from "../types/asciicast.js";
+import { ColorResolver, TerminalScreen, type ScreenRun } from "./screen.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SvgOptions {
+  /** Most frames to keep; events closer together are merged (default: 300) */
+  maxFrames?: number;
+  /** Longest pause kept between frames, in seconds (default: 2) */
+  idleTimeLimit?: number;
+  /** Draw a window title bar with the recording title */
+  window?: boolean;
+  /** Font size in pixels (default: 14) */
+  fontSize?: number;
+  /** Theme for recordings without one (default: tokyo-night) */
+  theme?: AsciicastTheme;
+}
+
+/** Screen contents from `time` until the next frame */
+export interface SvgFrame {
+  /** Seconds since the start, with idle time folded */
+  time: number;
+  lines: ScreenRun[][];
+}
+
+export const DEFAULT_SVG_MAX_FRAMES = 300;
+export const DEFAULT_SVG_IDLE_TIME_LIMIT = 2;
+
+const DEFAULT_FONT_SIZE = 14;
+const FONT_FAMILY = "ui-monospace, SFMono-Regular, Menlo, Consolas, 'Liberation Mono', monospace";
+
+/** Cell size relative to the font size */
+const CHAR_WIDTH = 0.6;
+const LINE_HEIGHT = 1.2;
+
+const TITLE_BAR_HEIGHT = 36;
+const WINDOW_BUTTONS = ["#ff5f58", "#ffbd2e", "#18c132"];
+
+// =============================================================================
+// Frames
+// =============================================================================
+
+/**
+ * Replay the output events into screen snapshots.
+ * Pauses longer than the idle limit are shortened to it, and events too close
+ * together share a frame so there are at most maxFrames. Unchanged snapshots
+ * are dropped.
+ */
+export function collectFrames(doc: AsciicastDocument, options: SvgOptions = {}): SvgFrame[] {
+  const maxFrames = options.maxFrames ?? DEFAULT_SVG_MAX_FRAMES;
+  const idleTimeLimit = options.idleTimeLimit ?? DEFAULT_SVG_IDLE_TIME_LIMIT;
+  const screen = new TerminalScreen(doc.header.term.cols, doc.header.term.rows);
+
+  // Event times since the start, idle time folded
+  let time = 0;
+  const times = doc.events.map(([interval]) => (time += Math.min(interval, idleTimeLimit)));
+  const minGap = maxFrames > 1 ? time / (maxFrames - 1) : Infinity;
+
+  const frames: SvgFrame[] = [];
+  let lastKey: string | null = null;
+  let lastTime = 0;
+
+  doc.events.forEach((event, i) => {
+    if (event[1] === "o") {
+      screen.write(event[2]);
+    } else if (event[1] === "r") {
+      const [cols, rows] = event[2].split("x").map((n) => parseInt(n, 10));
+      if (cols && rows) screen.resize(cols, rows);
+    }
+
+    // Wait for the events shown together with this one
+    const next = times[i + 1];
+    if (next !== undefined && (next === times[i] || next - lastTime < minGap)) return;
+
+    const lines = screen.getLines();
+    const key = JSON.stringify(lines);
+    if (key === lastKey) return;
+    frames.push({ time: frames.length === 0 ? 0 : times[i]!, lines });
+    lastKey = key;
+    lastTime = times[i]!;
+  });
+
+  return frames;
+}
+
+// =============================================================================
+// SVG Rendering
+// =============================================================================
+
+/** Render an asciicast document as an animated SVG that loops */
+export function renderSvg(doc: AsciicastDocument, options: SvgOptions = {}): string {
+  const theme = doc.header.term.theme ?? options.theme ?? THEMES["tokyo-night"]!;
+  const fontSize = options.fontSize ?? DEFAULT_FONT_SIZE;
+  const idleTimeLimit = options.idleTimeLimit ?? DEFAULT_SVG_IDLE_TIME_LIMIT;
+  const frames = collectFrames(doc, options);
+
+  const cellWidth = fontSize * CHAR_WIDTH;
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const padding = fontSize;
+  const termWidth = doc.header.term.cols * cellWidth;
+  const termHeight = doc.header.term.rows * lineHeight;
+  const barHeight = options.window ? TITLE_BAR_HEIGHT : 0;
+  const width = termWidth + padding * 2;
+  const height = termHeight + padding * 2 + barHeight;
+
+  const colors = new ColorResolver(theme);
+  const lineIds = new Map<string, string>();
+  const defs: string[] = [];
+
+  // Define each distinct row once, then place it in the frames that show it
+  const frameGroups = frames.map((frame, index) => {
+    const uses = frame.lines.flatMap((runs, row) => {
+      if (runs.length === 0) return [];
+      const key = JSON.stringify(runs);
+      let id = lineIds.get(key);
+      if (!id) {
+        id = `l${lineIds.size}`;
+        lineIds.set(key, id);
+        defs.push(`<g id="${id}">${renderLine(runs, colors, cellWidth, lineHeight, fontSize)}</g>`);
+      }
+      return [`<use href="#${id}" y="${num(row * lineHeight)}"/>`];
+    });
+    return `<g transform="translate(${num(index * termWidth)})">${uses.join("")}</g>`;
+  });
+
+  // Hold the last frame before looping
+  const duration = (frames[frames.length - 1]?.time ?? 0) + idleTimeLimit;
+  const keyframes = frames.map(
+    (frame, index) =>
+      `${num((frame.time / duration) * 100)}%{transform:translateX(${num(-index * termWidth)}px)}`
+  );
+  const animation =
+    frames.length > 1
+      ? `@keyframes play{${keyframes.join("")}}` +
+        `.frames{animation:play ${num(duration)}s steps(1,end) infinite}`
+      : "";
+
+  const title = doc.header.title ?? "";
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(width)}" height="${num(height)}" ` +
+      `viewBox="0 0 ${num(width)} ${num(height)}" font-family="${escapeXml(FONT_FAMILY)}" ` +
+      `font-size="${fontSize}" xml:space="preserve">`,
+    title ? `<title>${escapeXml(title)}</title>` : "",
+    `<style>${animation}</style>`,
+    `<rect width="100%" height="100%" rx="${options.window ? 8 : 0}" fill="${theme.bg}"/>`,
+    options.window ? renderTitleBar(title, width, theme) : "",
+    `<svg x="${num(padding)}" y="${num(padding + barHeight)}" width="${num(termWidth)}" height="${num(termHeight)}">`,
+    `<defs>${defs.join("")}</defs>`,
+    `<g class="frames">${frameGroups.join("")}</g>`,
+    `</svg>`,
+    `</svg>`,
+  ].join("\n") + "\n";
+}
+
+/** Window controls and the centered title */
+function renderTitleBar(title: string, width: number, theme: AsciicastTheme): string {
+  const y = TITLE_BAR_HEIGHT / 2;
+  const buttons = WINDOW_BUTTONS.map(
+    (color, i) => `<circle cx="${20 + i * 20}" cy="${y}" r="6" fill="${color}"/>`
+  );
+  const label = title
+    ? `<text x="${num(width / 2)}" y="${y}" dy="0.35em" text-anchor="middle" fill="${theme.fg}" ` +
+      `opacity="0.7">${escapeXml(title)}</text>`
+    : "";
+  return `<g>${buttons.join("")}${label}</g>`;
+}
+
+/** Backgrounds then text of one row, positioned at the top of the row */
+function renderLine(
+  runs: ScreenRun[],
+  colors: ColorResolver,
+  cellWidth: number,
+  lineHeight: number,
+  fontSize: number
+): string {
+  const parts: string[] = [];
+
+  for (const run of runs) {
+    const { fg, bg } = colors.resolve(run.style);
+    const x = num(run.col * cellWidth);
+    if (bg) {
+      parts.push(
+        `<rect x="${x}" width="${num([...run.text].length * cellWidth)}" height="${num(lineHeight)}" fill="${bg}"/>`
+      );
+    }
+    if (!run.text.trim()) continue;
+
+    const attributes = [`x="${x}"`, `y="${num(fontSize)}"`, `fill="${fg}"`];
+    if (run.style.bold) attributes.push(`font-weight="bold"`);
+    if (run.style.italic) attributes.push(`font-style="italic"`);
+    if (run.style.dim) attributes.push(`opacity="0.5"`);
+    const decorations = [
+      run.style.underline ? "underline" : "",
+      run.style.strikethrough ? "line-through" : "",
+    ].filter(Boolean);
+    if (decorations.length > 0) attributes.push(`text-decoration="${decorations.join(" ")}"`);
+
+    parts.push(`<text ${attributes.join(" ")}>${escapeXml(run.text)}</text>`);
+  }
+
+  return parts.join("");
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Escape text for XML, dropping characters XML can't contain */
+function escapeXml(text: string): string {
+  return text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Format a number with at most 3 decimals */
+function num(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
@@ -70,6 +70,14 @@ export class TimingCalculator {
     this.currentTime = 0;
   }
 
+  /**
+   * Forget the last timestamp, so the next entry gets a default pause rather
+   * than the real gap (used where a clip skips messages)
+   */
+  resetGap(): void {
+    this.lastTimestamp = null;
+  }
+
   /** Calculate time for next entry */
   nextEntry(entry: TranscriptEntry): number {
     const timestamp = getTimestamp(entry);
@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { AssistantMessage, TranscriptEntry, UserMessage } from "../types/messages.js";
+import {
+  detectTranscriptFormat,
+  loadAnyTranscript,
+  resolveTranscriptAdapter,
+} from "./adapters.js";
+import { convertToAsciicast } from "../generator/convert.js";
+
+const __dirname = fileURLToPath(new URL(".", import.meta.url));
+const fixturesDir = join(__dirname, "__fixtures__");
+const codexSession = join(fixturesDir, "codex-session.jsonl");
+const codexLegacy = join(fixturesDir, "codex-legacy.json");
+
+function assistants(entries: TranscriptEntry[]): AssistantMessage[] {
+  return entries.filter((e): e is AssistantMessage => e.type === "assistant");
+}
+
+function users(entries: TranscriptEntry[]): UserMessage[] {
+  return entries.filter((e): e is UserMessage => e.type === "user");
+}
+
+describe("detectTranscriptFormat", () => {
+  it("detects Claude Code sessions", async () => {
+    const adapter = await detectTranscriptFormat(join(fixturesDir, "sample-session.jsonl"));
+    expect(adapter?.name).toBe("claude");
+  });
+
+  it("detects Codex rollout and legacy logs", async () => {
+    expect((await detectTranscriptFormat(codexSession))?.name).toBe("codex");
+    expect((await detectTranscriptFormat(codexLegacy))?.name).toBe("codex");
+  });
+
+  it("detects Claude Code sessions with a malformed first line or a long preamble", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cc-prism-detect-"));
+    try {
+      const session = await readFile(join(fixturesDir, "sample-session.jsonl"), "utf-8");
+      const truncated = join(dir, "truncated.jsonl");
+      await writeFile(truncated, `{"type":"user","uuid":"cut-off\n${session}`);
+      expect((await detectTranscriptFormat(truncated))?.name).toBe("claude");
+
+      const snapshot = JSON.stringify({ type: "file-history-snapshot", messageId: "m", snapshot: {} });
+      const preamble = join(dir, "preamble.jsonl");
+      await writeFile(preamble, `${snapshot}\n`.repeat(30) + session);
+      expect((await detectTranscriptFormat(preamble))?.name).toBe("claude");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects unknown format names", async () => {
+    await expect(resolveTranscriptAdapter(codexSession, "aider")).rejects.toThrow(
+      'Unknown transcript format "aider"'
+    );
+  });
+});
+
+describe("codex adapter", () => {
+  it("normalizes user turns and assistant text, skipping injected context", async () => {
+    const entries = await loadAnyTranscript(codexSession);
+    const prompts = users(entries)
+      .map((e) => e.message.content)
+      .filter((content) => typeof content === "string");
+
+    expect(prompts).toEqual(["List the files and fix the typo in README.md", "Thanks!"]);
+    expect(users(entries).every((e) => e.sessionId === "0199c1a2-codex")).toBe(true);
+
+    const texts = assistants(entries).flatMap((e) =>
+      e.message.content.flatMap((c) => (c.type === "text" ? [c.text] : []))
+    );
+    expect(texts).toEqual(["Fixed the typo in `README.md`."]);
+    expect(assistants(entries)[0]?.message.model).toBe("gpt-5-codex");
+  });
+
+  it("keeps reasoning summaries as thinking", async () => {
+    const entries = await loadAnyTranscript(codexSession);
+    const thinking = assistants(entries).flatMap((e) =>
+      e.message.content.flatMap((c) => (c.type === "thinking" ? [c.thinking] : []))
+    );
+    expect(thinking).toEqual(["**Listing files**\n\nI'll start by listing the project files."]);
+  });
+
+  it("maps shell calls to Bash and pairs their results", async () => {
+    const entries = await loadAnyTranscript(codexSession);
+    const calls = assistants(entries).flatMap((e) =>
+      e.message.content.flatMap((c) => (c.type === "tool_use" ? [c] : []))
+    );
+
+    expect(calls.map((c) => [c.id, c.name])).toEqual([
+      ["call_001", "Bash"],
+      ["call_002", "Edit"],
+      ["call_003", "Bash"],
+    ]);
+    expect(calls[0]?.input["command"]).toBe("ls");
+    expect(calls[1]?.input["file_path"]).toBe("README.md");
+
+    const results = users(entries).filter((e) => Array.isArray(e.message.content));
+    expect(results).toHaveLength(3);
+    expect(results[0]?.toolUseResult).toMatchObject({ stdout: "README.md\nsrc\n" });
+
+    const failed = results[2]?.message.content;
+    expect(Array.isArray(failed) && failed[0]).toMatchObject({
+      type: "tool_result",
+      tool_use_id: "call_003",
+      is_error: true,
+    });
+  });
+
+  it("chains entries and turns compactions into summaries", async () => {
+    const entries = await loadAnyTranscript(codexSession);
+    const messages = entries.filter((e) => e.type !== "summary") as UserMessage[];
+
+    expect(messages[0]?.parentUuid).toBeNull();
+    for (let i = 1; i < messages.length; i++) {
+      expect(messages[i]?.parentUuid).toBe(messages[i - 1]?.uuid);
+    }
+
+    const summary = entries.find((e) => e.type === "summary");
+    expect(summary).toMatchObject({
+      summary: "The user asked to fix a README typo; it was fixed.",
+    });
+  });
+
+  it("reads legacy JSON sessions", async () => {
+    const entries = await loadAnyTranscript(codexLegacy);
+
+    expect(entries.map((e) => e.type)).toEqual(["user", "assistant", "user", "assistant"]);
+    expect(users(entries).every((e) => e.sessionId === "legacy-1")).toBe(true);
+
+    const call = assistants(entries)[0]?.message.content[0];
+    expect(call).toMatchObject({ type: "tool_use", name: "Bash", input: { command: "cat main.ts" } });
+  });
+
+  it("renders through the normal cast pipeline", async () => {
+    const entries = await loadAnyTranscript(codexSession);
+    const result = convertToAsciicast(entries, { builder: { title: "codex" } });
+    const output = result.document.events.map((e) => e[2]).join("");
+
+    expect(output).toContain("List the files and fix the typo");
+    expect(output).toContain("Bash");
+    expect(output).toContain("Fixed the typo");
+  });
+});
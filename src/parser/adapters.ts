@@ -0,0 +1,120 @@
+/**
+ * Transcript adapters - read session logs written by other coding agents
+ *
+ * Everything downstream of the parser works on Claude Code's TranscriptEntry
+ * union. An adapter normalizes another tool's log into that shape (user
+ * turns, assistant text, reasoning, tool calls and results) so the renderer
+ * and generator can make casts of it with the same look.
+ */
+
+import type { TranscriptEntry } from "../types/messages.js";
+import { readTranscriptRecords, streamTranscript, type TranscriptRecord } from "./loader.js";
+import { codexAdapter } from "./codex.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Reads one transcript format as TranscriptEntry values */
+export interface TranscriptAdapter {
+  /** Format name used by --input-format, e.g. "codex" */
+  name: string;
+  /** Short description for help output */
+  description: string;
+  /** Check whether a run of records from a file is in this format */
+  detect(records: TranscriptRecord[]): boolean;
+  /** Stream the file as transcript entries */
+  read(filePath: string): AsyncIterable<TranscriptEntry>;
+}
+
+/** Number of records checked at a time when detecting a file's format */
+const DETECT_SAMPLE_SIZE = 20;
+
+// =============================================================================
+// Built-in Adapters
+// =============================================================================
+
+/** Claude Code's own JSONL format (no conversion needed) */
+export const claudeAdapter: TranscriptAdapter = {
+  name: "claude",
+  description: "Claude Code session JSONL",
+  detect: (records) =>
+    records.some(
+      (record) =>
+        typeof record["type"] === "string" &&
+        ["user", "assistant", "system", "summary"].includes(record["type"]) &&
+        ("uuid" in record || "leafUuid" in record)
+    ),
+  read: (filePath) => streamTranscript(filePath),
+};
+
+/** Adapters tried by auto-detection, in order */
+export const TRANSCRIPT_ADAPTERS: TranscriptAdapter[] = [claudeAdapter, codexAdapter];
+
+/** Look up an adapter by format name */
+export function getTranscriptAdapter(name: string): TranscriptAdapter | undefined {
+  return TRANSCRIPT_ADAPTERS.find((adapter) => adapter.name === name);
+}
+
+// =============================================================================
+// Detection and Loading
+// =============================================================================
+
+/**
+ * Detect a transcript's format, checking its records a sample at a time.
+ * Reads on past records no adapter recognizes (e.g. a long run of Claude
+ * Code snapshots before the first message) until one claims the file.
+ */
+export async function detectTranscriptFormat(filePath: string): Promise<TranscriptAdapter | null> {
+  let sample: TranscriptRecord[] = [];
+  for await (const record of readTranscriptRecords(filePath)) {
+    sample.push(record);
+    if (sample.length < DETECT_SAMPLE_SIZE) continue;
+
+    const adapter = detectSample(sample);
+    if (adapter) return adapter;
+    sample = [];
+  }
+  return detectSample(sample);
+}
+
+function detectSample(sample: TranscriptRecord[]): TranscriptAdapter | null {
+  return TRANSCRIPT_ADAPTERS.find((adapter) => adapter.detect(sample)) ?? null;
+}
+
+/**
+ * Get the adapter for a file: the named format, or the detected one for "auto".
+ * Throws when the name is unknown or the format cannot be detected.
+ */
+export async function resolveTranscriptAdapter(
+  filePath: string,
+  format: string = "auto"
+): Promise<TranscriptAdapter> {
+  if (format !== "auto") {
+    const adapter = getTranscriptAdapter(format);
+    if (!adapter) {
+      const names = TRANSCRIPT_ADAPTERS.map((a) => a.name).join(", ");
+      throw new Error(`Unknown transcript format "${format}" (use auto, ${names})`);
+    }
+    return adapter;
+  }
+
+  const detected = await detectTranscriptFormat(filePath);
+  if (!detected) {
+    throw new Error(`Could not detect the transcript format of ${filePath}`);
+  }
+  return detected;
+}
+
+/** Load a transcript in any supported format as TranscriptEntry[] */
+export async function loadAnyTranscript(
+  filePath: string,
+  format: string = "auto"
+): Promise<TranscriptEntry[]> {
+  const adapter = await resolveTranscriptAdapter(filePath, format);
+  const entries: TranscriptEntry[] = [];
+  for await (const entry of adapter.read(filePath)) {
+    entries.push(entry);
+  }
+  return entries;
+}
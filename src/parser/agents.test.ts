@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { TranscriptEntry } from "../types/messages.js";
+import { loadTranscript, streamTranscript, getUuid } from "./loader.js";
+import { validateTranscript } from "./validate.js";
+import {
+  flatAgentResolver,
+  nestedAgentResolver,
+  createSearchPathResolver,
+  createAgentResolver,
+  parseAgentSearchPath,
+  DEFAULT_AGENT_RESOLVER,
+} from "./agents.js";
+
+const __dirname = fileURLToPath(new URL(".", import.meta.url));
+const fixturesDir = join(__dirname, "__fixtures__");
+const nestedDir = join(fixturesDir, "nested");
+const nestedSession = join(nestedDir, "nested-session.jsonl");
+const nestedAgent = join(nestedDir, "nested-session", "subagents", "agent-abcd1234.jsonl");
+const flatSession = join(fixturesDir, "with-agent-ref.jsonl");
+const flatAgent = join(fixturesDir, "agent-12345678.jsonl");
+
+describe("agent resolvers", () => {
+  it("resolves the flat layout next to the parent", async () => {
+    expect(await flatAgentResolver("12345678", flatSession)).toBe(flatAgent);
+    expect(await flatAgentResolver("abcd1234", nestedSession)).toBeNull();
+  });
+
+  it("resolves the nested subagents layout", async () => {
+    expect(await nestedAgentResolver("abcd1234", nestedSession)).toBe(nestedAgent);
+    expect(await nestedAgentResolver("12345678", flatSession)).toBeNull();
+  });
+
+  it("resolves from a search path", async () => {
+    const resolver = createSearchPathResolver([nestedDir, fixturesDir]);
+    expect(await resolver("12345678", nestedSession)).toBe(flatAgent);
+  });
+
+  it("tries flat, nested, then the search path", async () => {
+    expect(await DEFAULT_AGENT_RESOLVER("12345678", flatSession)).toBe(flatAgent);
+    expect(await DEFAULT_AGENT_RESOLVER("abcd1234", nestedSession)).toBe(nestedAgent);
+    expect(await DEFAULT_AGENT_RESOLVER("12345678", nestedSession)).toBeNull();
+
+    const resolver = createAgentResolver({ searchPath: [fixturesDir] });
+    expect(await resolver("12345678", nestedSession)).toBe(flatAgent);
+  });
+
+  it("rejects agent IDs that are not plain tokens", async () => {
+    expect(await DEFAULT_AGENT_RESOLVER("../agent-12345678", flatSession)).toBeNull();
+  });
+
+  it("splits search paths on the platform delimiter", () => {
+    expect(parseAgentSearchPath(["/a", "", "/b"].join(process.platform === "win32" ? ";" : ":"))).toEqual(["/a", "/b"]);
+  });
+});
+
+describe("loading with agent resolvers", () => {
+  it("splices nested-layout agents and reports unresolved ones", async () => {
+    const missing: string[] = [];
+    const entries = await loadTranscript(nestedSession, {
+      onMissingAgent: (agentId) => missing.push(agentId),
+    });
+
+    expect(entries.map((e) => getUuid(e))).toContain("na-002");
+    expect(missing).toEqual(["12345678", "99999999"]);
+  });
+
+  it("streams the same entries with a custom resolver", async () => {
+    const agentResolver = createAgentResolver({ searchPath: [fixturesDir] });
+    const missing: string[] = [];
+    const streamed: TranscriptEntry[] = [];
+    for await (const entry of streamTranscript(nestedSession, {
+      agentResolver,
+      onMissingAgent: (agentId) => missing.push(agentId),
+    })) {
+      streamed.push(entry);
+    }
+
+    expect(streamed).toEqual(await loadTranscript(nestedSession, { agentResolver }));
+    expect(streamed.map((e) => getUuid(e))).toContain("agent-msg-002");
+    expect(missing).toEqual(["99999999"]);
+  });
+
+  it("validates agent references through the resolver", async () => {
+    const report = await validateTranscript(nestedSession);
+
+    expect(report.issues.map((i) => [i.line, i.kind])).toEqual([
+      [4, "missing-agent-file"],
+      [5, "missing-agent-file"],
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Agent resolution - locate subagent transcripts referenced by Task results
+ *
+ * Claude Code has stored subagent transcripts in two layouts:
+ * - flat:   <project>/agent-{agentId}.jsonl, next to the session file
+ * - nested: <project>/{sessionId}/subagents/agent-{agentId}.jsonl
+ */
+
+import { access } from "node:fs/promises";
+import { basename, delimiter, dirname, join } from "node:path";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Resolve an agent ID to its transcript path.
+ * `parentPath` is the transcript that referenced the agent.
+ * Returns null when the transcript cannot be found.
+ */
+export type AgentResolver = (agentId: string, parentPath: string) => Promise<string | null>;
+
+/** Options for the default agent resolver */
+export interface AgentResolverOptions {
+  /** Extra directories to search for agent-{agentId}.jsonl files */
+  searchPath?: string[];
+}
+
+// =============================================================================
+// Layouts
+// =============================================================================
+
+/** Get the agent file name for an agent ID */
+export function getAgentFileName(agentId: string): string {
+  return `agent-${agentId}.jsonl`;
+}
+
+/** Get the flat-layout agent path: next to the parent transcript */
+export function getAgentPath(parentPath: string, agentId: string): string {
+  return join(dirname(parentPath), getAgentFileName(agentId));
+}
+
+/** Get the nested-layout agent path: in the session's subagents directory */
+export function getNestedAgentPath(parentPath: string, agentId: string): string {
+  const sessionId = basename(parentPath, ".jsonl");
+  return join(dirname(parentPath), sessionId, "subagents", getAgentFileName(agentId));
+}
+
+/** Check whether an agent ID is a plain file-name-safe token */
+function isSafeAgentId(agentId: string): boolean {
+  return /^[\w-]+$/.test(agentId);
+}
+
+/** Resolve agents next to the parent transcript */
+export const flatAgentResolver: AgentResolver = (agentId, parentPath) =>
+  firstExisting([getAgentPath(parentPath, agentId)]);
+
+/** Resolve agents in the parent session's subagents directory */
+export const nestedAgentResolver: AgentResolver = (agentId, parentPath) =>
+  firstExisting([getNestedAgentPath(parentPath, agentId)]);
+
+/** Create a resolver that looks for agent files in the given directories */
+export function createSearchPathResolver(dirs: string[]): AgentResolver {
+  return (agentId) => firstExisting(dirs.map((dir) => join(dir, getAgentFileName(agentId))));
+}
+
+/** Combine resolvers; the first one to find a transcript wins */
+export function chainAgentResolvers(...resolvers: AgentResolver[]): AgentResolver {
+  return async (agentId, parentPath) => {
+    if (!isSafeAgentId(agentId)) return null;
+    for (const resolver of resolvers) {
+      const path = await resolver(agentId, parentPath);
+      if (path) return path;
+    }
+    return null;
+  };
+}
+
+/** Create the standard resolver: flat layout, nested layout, then the search path */
+export function createAgentResolver(options: AgentResolverOptions = {}): AgentResolver {
+  const resolvers = [flatAgentResolver, nestedAgentResolver];
+  if (options.searchPath && options.searchPath.length > 0) {
+    resolvers.push(createSearchPathResolver(options.searchPath));
+  }
+  return chainAgentResolvers(...resolvers);
+}
+
+/** Resolver used when none is given */
+export const DEFAULT_AGENT_RESOLVER: AgentResolver = createAgentResolver();
+
+/** Split a search path string (":"-separated, ";" on Windows) into directories */
+export function parseAgentSearchPath(value: string): string[] {
+  return value.split(delimiter).filter((dir) => dir.length > 0);
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+async function firstExisting(paths: string[]): Promise<string | null> {
+  for (const path of paths) {
+    try {
+      await access(path);
+      return path;
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return null;
+}
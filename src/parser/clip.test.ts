@@ -1,8 +1,21 @@
 import { describe, it, expect } from "vitest";
 import { join } from "node:path";
 import { fileURLToPath } from "node:url";
-import { extractClip, getClipSummary } from "./clip.js";
-import { loadTranscript, getUuid } from "./loader.js";
+import type { TranscriptEntry, UserMessage } from "../types/messages.js";
+import { CLIP_SKIPPED_SUBTYPE } from "../types/messages.js";
+import {
+  extractClip,
+  collectClip,
+  getClipSummary,
+  isTurnStart,
+  parseTurnRange,
+  segmentTurns,
+  ClipSelectorError,
+  formatClipAdjustment,
+  parseClipRange,
+  type ClipAdjustment,
+} from "./clip.js";
+import { loadTranscript, streamTranscript, getUuid } from "./loader.js";
 
 const __dirname = fileURLToPath(new URL(".", import.meta.url));
 const fixturesDir = join(__dirname, "__fixtures__");
@@ -17,7 +30,7 @@ describe("extractClip", () => {
 
   it("extracts last N messages", async () => {
     const entries = await loadTranscript(join(fixturesDir, "sample-session.jsonl"));
-    const clip = extractClip(entries, { last: 3 });
+    const clip = extractClip(entries, { last: 3, repair: "none" });
 
     // Should return last 3 renderable messages
     expect(clip.length).toBe(3);
@@ -33,6 +46,7 @@ describe("extractClip", () => {
     const clip = extractClip(entries, {
       startUuid: "msg-003",
       endUuid: "msg-006",
+      repair: "none",
     });
 
     // Should include msg-003, msg-004, msg-005, msg-006
@@ -43,7 +57,7 @@ describe("extractClip", () => {
 
   it("extracts by start UUID only", async () => {
     const entries = await loadTranscript(join(fixturesDir, "sample-session.jsonl"));
-    const clip = extractClip(entries, { startUuid: "msg-005" });
+    const clip = extractClip(entries, { startUuid: "msg-005", repair: "none" });
 
     // Should include msg-005 through end (msg-005, 006, 007, 008, system)
     expect(clip.length).toBe(5);
@@ -91,6 +105,415 @@ describe("extractClip", () => {
   });
 });
 
+describe("collectClip", () => {
+  const sessionPath = join(fixturesDir, "sample-session.jsonl");
+
+  it("matches extractClip for UUID ranges", async () => {
+    const entries = await loadTranscript(sessionPath);
+    const options = { startUuid: "msg-003", endUuid: "msg-006" };
+
+    const clip = await collectClip(streamTranscript(sessionPath), options);
+
+    expect(clip).toEqual(extractClip(entries, options));
+  });
+
+  it("matches extractClip for last N", async () => {
+    const entries = await loadTranscript(sessionPath);
+
+    const clip = await collectClip(streamTranscript(sessionPath), { last: 3 });
+
+    expect(clip).toEqual(extractClip(entries, { last: 3 }));
+  });
+
+  it("matches extractClip for time ranges", async () => {
+    const entries = await loadTranscript(sessionPath);
+    const options = {
+      startTime: "2025-12-04T10:00:30.000Z",
+      endTime: "2025-12-04T10:00:41.000Z",
+    };
+
+    const clip = await collectClip(streamTranscript(sessionPath), options);
+
+    expect(clip).toEqual(extractClip(entries, options));
+  });
+
+  it("returns an empty clip for an unknown start UUID", async () => {
+    const clip = await collectClip(streamTranscript(sessionPath), {
+      startUuid: "does-not-exist",
+    });
+
+    expect(clip).toEqual([]);
+  });
+});
+
+describe("turns", () => {
+  const sessionPath = join(fixturesDir, "sample-session.jsonl");
+
+  function prompt(content: UserMessage["message"]["content"], extra: Partial<UserMessage> = {}): UserMessage {
+    return {
+      type: "user",
+      uuid: "u",
+      parentUuid: null,
+      sessionId: "s",
+      timestamp: "2025-12-04T10:00:00.000Z",
+      userType: "external",
+      cwd: "/",
+      message: { role: "user", content },
+      ...extra,
+    };
+  }
+
+  it("segments the session into prompt-led turns", async () => {
+    const entries = await loadTranscript(sessionPath);
+    const turns = segmentTurns(entries);
+
+    expect(turns.map((t) => t.number)).toEqual([1, 2]);
+    expect(turns.map((t) => t.promptUuid)).toEqual(["msg-001", "msg-003"]);
+    expect(turns[1]!.entries.map(getUuid)).toEqual([
+      "msg-003",
+      "msg-004",
+      "msg-005",
+      "msg-006",
+      "msg-007",
+      "msg-008",
+      null,
+    ]);
+  });
+
+  it("only starts turns at typed prompts", () => {
+    expect(isTurnStart(prompt("Fix the bug"))).toBe(true);
+    expect(isTurnStart(prompt("<command-name>/clear</command-name>"))).toBe(true);
+    expect(isTurnStart(prompt("[Request interrupted by user]"))).toBe(false);
+    expect(isTurnStart(prompt("<local-command-stdout>ok</local-command-stdout>"))).toBe(false);
+    expect(isTurnStart(prompt("Caveat", { isMeta: true }))).toBe(false);
+    expect(isTurnStart(prompt("Summary", { isCompactSummary: true }))).toBe(false);
+    expect(isTurnStart(prompt("Explore the repo", { isSidechain: true }))).toBe(false);
+    expect(isTurnStart(prompt([{ type: "tool_result", tool_use_id: "t", content: "ok" }]))).toBe(false);
+  });
+
+  it("keeps entries before the first prompt in turn 1", () => {
+    const entries: TranscriptEntry[] = [
+      { type: "summary", summary: "Earlier work", leafUuid: "x" },
+      prompt("Continue"),
+    ];
+    expect(segmentTurns(entries).map((t) => [t.number, t.entries.length])).toEqual([[1, 2]]);
+  });
+
+  it("extracts a turn range", async () => {
+    const entries = await loadTranscript(sessionPath);
+
+    expect(extractClip(entries, { turns: { start: 2, end: 2 } }).map(getUuid)[0]).toBe("msg-003");
+    expect(extractClip(entries, { turns: { start: 1 } })).toHaveLength(entries.length);
+    expect(extractClip(entries, { turns: { start: 3 } })).toEqual([]);
+  });
+
+  it("extracts the last N turns", async () => {
+    const entries = await loadTranscript(sessionPath);
+
+    expect(extractClip(entries, { lastTurns: 1 }).map(getUuid)[0]).toBe("msg-003");
+    expect(extractClip(entries, { lastTurns: 5 })).toHaveLength(entries.length);
+    expect(extractClip(entries, { lastTurns: 0 })).toEqual([]);
+  });
+
+  it("extracts the turn containing a message", async () => {
+    const entries = await loadTranscript(sessionPath);
+    const clip = extractClip(entries, { turnOf: "msg-002" });
+
+    expect(clip.map(getUuid)).toEqual(["msg-001", "msg-002"]);
+    expect(extractClip(entries, { turnOf: "missing" })).toEqual([]);
+  });
+
+  it("streams the same turn selections as extractClip", async () => {
+    const entries = await loadTranscript(sessionPath);
+    const selections = [
+      { turns: { start: 2, end: 2 } },
+      { turns: { start: 1, end: 1 } },
+      { lastTurns: 1 },
+      { turnOf: "msg-006" },
+    ];
+
+    for (const options of selections) {
+      const clip = await collectClip(streamTranscript(sessionPath), options);
+      expect(clip).toEqual(extractClip(entries, options));
+    }
+  });
+
+  it("parses turn ranges", () => {
+    expect(parseTurnRange("3-7")).toEqual({ start: 3, end: 7 });
+    expect(parseTurnRange("5")).toEqual({ start: 5, end: 5 });
+    expect(parseTurnRange("3-")).toEqual({ start: 3 });
+    expect(() => parseTurnRange("7-3")).toThrow("Invalid turn range");
+    expect(() => parseTurnRange("0")).toThrow("Invalid turn range");
+    expect(() => parseTurnRange("a-b")).toThrow("Invalid turn range");
+  });
+});
+
+describe("content selectors", () => {
+  const sessionPath = join(fixturesDir, "sample-session.jsonl");
+
+  it("starts at the prompt matching --from-prompt", async () => {
+    const entries = await loadTranscript(sessionPath);
+    const clip = extractClip(entries, { fromPrompt: "CRASHES on" });
+
+    expect(getUuid(clip[0]!)).toBe("msg-003");
+    expect(clip).toHaveLength(7);
+  });
+
+  it("ends after the response to the prompt matching --to-prompt", async () => {
+    const entries = await loadTranscript(sessionPath);
+    const clip = extractClip(entries, { toPrompt: "help me" });
+
+    expect(clip.map(getUuid)).toEqual(["msg-001", "msg-002"]);
+  });
+
+  it("centers the clip on an --around match", async () => {
+    const entries = await loadTranscript(sessionPath);
+
+    expect(extractClip(entries, { around: "undefinedVar\\);", context: 1 }).map(getUuid)).toEqual([
+      "msg-004", // call of the msg-005 result, added by the edge repair
+      "msg-005",
+      "msg-006",
+      "msg-007",
+    ]);
+    expect(extractClip(entries, { around: "crashes", context: 0 }).map(getUuid)).toEqual(["msg-003"]);
+  });
+
+  it("starts at the first call of a tool on a file", async () => {
+    const entries = await loadTranscript(sessionPath);
+
+    expect(getUuid(extractClip(entries, { fromTool: "Edit:src/main.ts" })[0]!)).toBe("msg-006");
+    expect(getUuid(extractClip(entries, { fromTool: "read" })[0]!)).toBe("msg-004");
+  });
+
+  it("reports ambiguous and missing matches", async () => {
+    const entries = await loadTranscript(sessionPath);
+
+    expect(() => extractClip(entries, { around: "bug" })).toThrow(ClipSelectorError);
+    expect(() => extractClip(entries, { around: "bug" })).toThrow(/matches 3 messages[\s\S]*msg-001/);
+    expect(() => extractClip(entries, { fromPrompt: "deploy" })).toThrow("matches no prompt");
+    expect(() => extractClip(entries, { fromTool: "Edit:other.ts" })).toThrow("matches no tool call");
+    expect(() => extractClip(entries, { fromPrompt: "(" })).toThrow("not a valid regex");
+  });
+
+  it("rejects two start selectors", async () => {
+    const entries = await loadTranscript(sessionPath);
+
+    expect(() => extractClip(entries, { fromPrompt: "crashes", startUuid: "msg-001" })).toThrow(
+      "Use one start selector"
+    );
+  });
+
+  it("rejects turn selectors combined with a UUID range", async () => {
+    const entries = await loadTranscript(sessionPath);
+
+    expect(() => extractClip(entries, { turns: { start: 1 }, startUuid: "msg-001" })).toThrow(
+      "Turn selectors (turns, last-turns or turn-of) can't be combined with a start or end UUID"
+    );
+    await expect(
+      collectClip(streamTranscript(sessionPath), { lastTurns: 1, endUuid: "msg-006" })
+    ).rejects.toThrow(ClipSelectorError);
+  });
+
+  it("rejects context without an around selector", async () => {
+    const entries = await loadTranscript(sessionPath);
+
+    expect(() => extractClip(entries, { fromPrompt: "crashes", context: 5 })).toThrow(
+      "Context only applies to the around selector"
+    );
+  });
+
+  it("streams the same selections as extractClip", async () => {
+    const entries = await loadTranscript(sessionPath);
+    const options = { fromPrompt: "help", toPrompt: "crashes" };
+
+    const clip = await collectClip(streamTranscript(sessionPath), options);
+    expect(clip).toEqual(extractClip(entries, options));
+    // Everything up to msg-008; the trailing system message has no UUID
+    expect(getUuid(clip[clip.length - 1]!)).toBe("msg-008");
+  });
+});
+
+describe("clip repair", () => {
+  const sessionPath = join(fixturesDir, "sample-session.jsonl");
+
+  it("widens clips to keep tool calls with their results", async () => {
+    const entries = await loadTranscript(sessionPath);
+    const adjustments: ClipAdjustment[] = [];
+    const clip = extractClip(entries, {
+      startUuid: "msg-005",
+      endUuid: "msg-006",
+      onRepair: (adjustment) => adjustments.push(adjustment),
+    });
+
+    expect(clip.map(getUuid)).toEqual(["msg-004", "msg-005", "msg-006", "msg-007"]);
+    expect(adjustments).toEqual([
+      { action: "added", uuid: "msg-004", reason: "tool call for msg-005" },
+      { action: "added", uuid: "msg-007", reason: "tool result for msg-006" },
+    ]);
+    expect(formatClipAdjustment(adjustments[0]!)).toBe("+ msg-004  tool call for msg-005");
+  });
+
+  it("trims entries whose partner is outside the clip", async () => {
+    const entries = await loadTranscript(sessionPath);
+    const adjustments: ClipAdjustment[] = [];
+    const clip = extractClip(entries, {
+      startUuid: "msg-005",
+      endUuid: "msg-008",
+      repair: "trim",
+      onRepair: (adjustment) => adjustments.push(adjustment),
+    });
+
+    expect(clip.map(getUuid)).toEqual(["msg-006", "msg-007", "msg-008"]);
+    expect(adjustments.map(formatClipAdjustment)).toEqual([
+      "- msg-005  its tool call msg-004 is outside the clip",
+    ]);
+  });
+
+  it("leaves the edges alone with repair none", async () => {
+    const entries = await loadTranscript(sessionPath);
+    const clip = extractClip(entries, { startUuid: "msg-005", endUuid: "msg-006", repair: "none" });
+
+    expect(clip.map(getUuid)).toEqual(["msg-005", "msg-006"]);
+  });
+
+  it("adds the prompt that started the first turn", async () => {
+    const entries = await loadTranscript(sessionPath);
+    const clip = extractClip(entries, { startUuid: "msg-006", endUuid: "msg-007", includePrompt: true });
+
+    expect(clip.map(getUuid)).toEqual(["msg-003", "msg-006", "msg-007"]);
+  });
+
+  it("keeps subagent runs with their Task call", async () => {
+    const entries = await loadTranscript(join(fixturesDir, "with-agent-ref.jsonl"));
+    const clip = extractClip(entries, { startUuid: "msg-002", endUuid: "msg-002" });
+
+    expect(clip.map(getUuid)).toEqual(
+      expect.arrayContaining(["msg-002", "msg-003", "agent-msg-001", "agent-msg-002"])
+    );
+    expect(clip.map(getUuid)).not.toContain("msg-004");
+  });
+
+  it("repairs turn selections that split a tool call from its result", async () => {
+    const entries = await loadTranscript(sessionPath);
+    // A prompt typed while the Read call ran starts turn 3 before its result
+    const interjection: UserMessage = {
+      type: "user",
+      uuid: "msg-004b",
+      parentUuid: "msg-004",
+      sessionId: "test-session-001",
+      timestamp: "2025-12-04T10:00:35.500Z",
+      userType: "external",
+      cwd: "/home/user/project",
+      message: { role: "user", content: "Check the logs too" },
+    };
+    const split = entries.flatMap((e) => (getUuid(e) === "msg-004" ? [e, interjection] : [e]));
+    async function* stream() {
+      yield* split;
+    }
+
+    const adjustments: ClipAdjustment[] = [];
+    const widened = await collectClip(stream(), {
+      turns: { start: 2, end: 2 },
+      onRepair: (adjustment) => adjustments.push(adjustment),
+    });
+    expect(widened.map(getUuid)).toEqual(["msg-003", "msg-004", "msg-005"]);
+    expect(adjustments.map(formatClipAdjustment)).toEqual(["+ msg-005  tool result for msg-004"]);
+
+    const trimmed = await collectClip(stream(), { turns: { start: 3 }, repair: "trim" });
+    expect(trimmed.map(getUuid)).toEqual(["msg-004b", "msg-006", "msg-007", "msg-008", null]);
+
+    const last = await collectClip(stream(), { lastTurns: 1, includePrompt: true });
+    expect(last.map(getUuid)).toEqual(["msg-003", ...split.slice(3).map(getUuid)]);
+    expect(last).toEqual(extractClip(split, { lastTurns: 1, includePrompt: true }));
+  });
+
+  it("streams the same repairs as extractClip", async () => {
+    const entries = await loadTranscript(sessionPath);
+
+    for (const options of [
+      { startUuid: "msg-005", endUuid: "msg-006" },
+      { startUuid: "msg-005", endUuid: "msg-008", repair: "trim" as const },
+      { startUuid: "msg-006", includePrompt: true },
+    ]) {
+      const clip = await collectClip(streamTranscript(sessionPath), options);
+      expect(clip).toEqual(extractClip(entries, options));
+    }
+  });
+});
+
+describe("ranges", () => {
+  const sessionPath = join(fixturesDir, "sample-session.jsonl");
+  const describeEntry = (e: TranscriptEntry) =>
+    e.type === "system" && e.subtype === CLIP_SKIPPED_SUBTYPE ? e.content : getUuid(e);
+
+  it("joins ranges with a divider counting the skipped messages", async () => {
+    const entries = await loadTranscript(sessionPath);
+    const clip = extractClip(entries, {
+      ranges: [{ startUuid: "msg-001", endUuid: "msg-002" }, { startUuid: "msg-008" }],
+    });
+
+    expect(clip.map(describeEntry)).toEqual([
+      "msg-001",
+      "msg-002",
+      "5 messages skipped",
+      "msg-008",
+      null, // trailing system message without a UUID
+    ]);
+    expect(clip[2]).toMatchObject({ timestamp: (clip[3] as UserMessage).timestamp });
+  });
+
+  it("merges overlapping ranges and repairs each range's edges", async () => {
+    const entries = await loadTranscript(sessionPath);
+    const clip = extractClip(entries, {
+      ranges: [
+        { startUuid: "msg-005", endUuid: "msg-006" },
+        { startUuid: "msg-001", endUuid: "msg-004" },
+      ],
+    });
+
+    expect(clip.map(describeEntry)).toEqual([
+      "msg-001",
+      "msg-002",
+      "msg-003",
+      "msg-004",
+      "msg-005",
+      "msg-006",
+      "msg-007",
+    ]);
+  });
+
+  it("rejects unknown UUIDs, reversed ranges and other selectors", async () => {
+    const entries = await loadTranscript(sessionPath);
+
+    expect(() => extractClip(entries, { ranges: [{ startUuid: "msg-999" }] })).toThrow(
+      "Range 1: no message with UUID msg-999"
+    );
+    expect(() =>
+      extractClip(entries, { ranges: [{ startUuid: "msg-001" }, { startUuid: "msg-006", endUuid: "msg-003" }] })
+    ).toThrow("Range 2: msg-003 comes before msg-006");
+    expect(() => extractClip(entries, { ranges: [{ startUuid: "msg-001" }], last: 2 })).toThrow(
+      ClipSelectorError
+    );
+  });
+
+  it("streams the same clip as extractClip", async () => {
+    const entries = await loadTranscript(sessionPath);
+    const options = { ranges: [{ endUuid: "msg-002" }, { startUuid: "msg-006", endUuid: "msg-007" }] };
+
+    expect(await collectClip(streamTranscript(sessionPath), options)).toEqual(
+      extractClip(entries, options)
+    );
+  });
+
+  it("parses range arguments", () => {
+    expect(parseClipRange("msg-001..msg-004")).toEqual({ startUuid: "msg-001", endUuid: "msg-004" });
+    expect(parseClipRange("msg-005..")).toEqual({ startUuid: "msg-005", endUuid: undefined });
+    expect(parseClipRange("..msg-002")).toEqual({ startUuid: undefined, endUuid: "msg-002" });
+    expect(() => parseClipRange("msg-001")).toThrow("Invalid range");
+    expect(() => parseClipRange("..")).toThrow("Invalid range");
+  });
+});
+
 describe("getClipSummary", () => {
   it("calculates correct counts", async () => {
     const entries = await loadTranscript(join(fixturesDir, "sample-session.jsonl"));
@@ -1,9 +1,17 @@
 /**
- * Clip extraction - filter messages by UUID range, timestamp range, or last N
+ * Clip extraction - filter messages by turn, content, UUID range(s), timestamp range, or last N
  */
 
-import type { TranscriptEntry } from "../types/messages.js";
-import { getTimestamp, getUuid, sortByTimestamp } from "./loader.js";
+import type { ContentItem, SystemMessage, TranscriptEntry } from "../types/messages.js";
+import { CLIP_SKIPPED_SUBTYPE } from "../types/messages.js";
+import {
+  getAgentId,
+  getTimestamp,
+  getToolCallIds,
+  getToolResultIds,
+  getUuid,
+  sortByTimestamp,
+} from "./loader.js";
 
 export interface ClipOptions {
   /** Start extraction from this message UUID (inclusive) */
@@ -16,25 +24,153 @@ export interface ClipOptions {
   endTime?: string;
   /** Extract last N messages */
   last?: number;
+  /** Extract a range of turns */
+  turns?: TurnRange;
+  /** Extract the last N turns */
+  lastTurns?: number;
+  /** Extract the turn containing this message UUID */
+  turnOf?: string;
+  /** Start at the user prompt matching this regex (case-insensitive) */
+  fromPrompt?: string;
+  /** End after the response to the user prompt matching this regex */
+  toPrompt?: string;
+  /** Center the clip on the message matching this regex */
+  around?: string;
+  /** Messages to include on each side of an `around` match (default: 3) */
+  context?: number;
+  /** Start at the first call of a tool, optionally on a target: "Edit:src/foo.ts" */
+  fromTool?: string;
+  /** UUID ranges to join into one clip, with a divider where messages are skipped */
+  ranges?: ClipRange[];
+  /** Keep tool exchanges and subagent runs whole at the clip edges (default: "widen") */
+  repair?: ClipRepairMode;
+  /** Also include the prompt that started the first included turn */
+  includePrompt?: boolean;
+  /** Called for each entry the repair adds or removes */
+  onRepair?: (adjustment: ClipAdjustment) => void;
 }
 
+/**
+ * How clip edges that cut through a tool exchange are repaired:
+ * - widen: add the missing call, result or subagent messages
+ * - trim:  drop the entries whose partner is outside the clip
+ * - none:  keep the clip as selected
+ */
+export type ClipRepairMode = "widen" | "trim" | "none";
+
+/** All clip repair modes */
+export const CLIP_REPAIR_MODES: readonly ClipRepairMode[] = ["widen", "trim", "none"];
+
+/** An entry added to or removed from a clip by the repair */
+export interface ClipAdjustment {
+  action: "added" | "removed";
+  /** UUID of the entry (or its type when it has none) */
+  uuid: string;
+  /** Why, e.g. "tool call for msg-005" */
+  reason: string;
+}
+
+/** A message matched by a content selector */
+export interface ClipMatch {
+  uuid: string;
+  /** First line of the matched text */
+  preview: string;
+}
+
+/** Thrown when a content selector matches no message, or several */
+export class ClipSelectorError extends Error {
+  readonly matches: ClipMatch[];
+
+  constructor(message: string, matches: ClipMatch[] = []) {
+    const shown = matches.slice(0, MAX_LISTED_MATCHES);
+    const more = matches.length - shown.length;
+    super(
+      [
+        message,
+        ...shown.map((match) => `  ${match.uuid}  ${match.preview}`),
+        ...(more > 0 ? [`  ... and ${more} more`] : []),
+      ].join("\n")
+    );
+    this.name = "ClipSelectorError";
+    this.matches = matches;
+  }
+}
+
+/** Messages on each side of an `around` match by default */
+export const DEFAULT_AROUND_CONTEXT = 3;
+
+/** Matches listed in an ambiguity error */
+const MAX_LISTED_MATCHES = 5;
+
+/** Tool input fields holding a file path */
+const TOOL_PATH_FIELDS = ["file_path", "notebook_path", "path"];
+
+/** Tool input fields describing what other tools act on */
+const TOOL_TARGET_FIELDS = ["command", "pattern", "url", "query", "description"];
+
+/** Inclusive range of 1-based turn numbers */
+export interface TurnRange {
+  start: number;
+  /** Last turn to include (default: through the final turn) */
+  end?: number;
+}
+
+/** Inclusive UUID range; a missing end runs to the start or end of the session */
+export interface ClipRange {
+  startUuid?: string;
+  endUuid?: string;
+}
+
+/** One user prompt plus everything Claude did in response */
+export interface Turn {
+  /** 1-based turn number */
+  number: number;
+  /** UUID of the prompt that opened the turn (null for a session without prompts) */
+  promptUuid: string | null;
+  entries: TranscriptEntry[];
+}
+
+/** User messages that are shown as prompts but continue the current turn */
+const NON_PROMPT_PREFIXES = [
+  "<local-command-stdout>",
+  "<bash-stdout>",
+  "<bash-stderr>",
+  "[Request interrupted by user",
+];
+
 /**
  * Extract a clip from transcript entries based on filtering options
  *
  * Priority:
+ * 0. If `ranges` is specified, join those UUID ranges (no other selector allowed)
  * 1. If `last` is specified, return the last N renderable messages
- * 2. If UUID range is specified, extract messages between start and end UUID
- * 3. If time range is specified, extract messages within time range
- * 4. If no options, return all entries
+ * 2. If `turnOf`, `turns` or `lastTurns` is specified, return those whole turns
+ * 3. Content selectors (`fromPrompt`, `toPrompt`, `around`, `fromTool`) are
+ *    resolved to a UUID range
+ * 4. If UUID range is specified, extract messages between start and end UUID
+ * 5. If time range is specified, extract messages within time range
+ * 6. If no options, return all entries
+ *
+ * The clip's edges are then repaired (see `repairClip`).
+ * Throws ClipSelectorError when a content selector matches nothing or is
+ * ambiguous, or when selectors conflict.
  */
 export function extractClip(
   entries: TranscriptEntry[],
   options: ClipOptions = {}
 ): TranscriptEntry[] {
-  const { startUuid, endUuid, startTime, endTime, last } = options;
-
+  checkSelectors(options);
   // Sort by timestamp for consistent ordering
-  let sorted = sortByTimestamp(entries);
+  const sorted = sortByTimestamp(entries);
+  if (options.ranges) {
+    return selectRanges(sorted, options.ranges, options);
+  }
+  return repairClip(sorted, selectClip(sorted, options), options);
+}
+
+/** Select the clip entries from sorted entries, before repair */
+function selectClip(sorted: TranscriptEntry[], options: ClipOptions): TranscriptEntry[] {
+  const { startTime, endTime, last } = options;
 
   // Handle --last N option (highest priority)
   if (last !== undefined) {
@@ -47,17 +183,823 @@ export function extractClip(
     return renderable.slice(startIndex);
   }
 
+  // Handle turn selection
+  if (isTurnSelection(options)) {
+    return selectTurns(segmentTurns(sorted), options).flatMap((turn) => turn.entries);
+  }
+
+  // Resolve content selectors to a UUID range
+  const { startUuid, endUuid } = hasContentSelector(options)
+    ? resolveContentSelectors(sorted, options)
+    : options;
+
+  let clip = sorted;
+
   // Handle UUID range filtering
   if (startUuid || endUuid) {
-    sorted = filterByUuidRange(sorted, startUuid, endUuid);
+    clip = filterByUuidRange(clip, startUuid, endUuid);
   }
 
   // Handle time range filtering
   if (startTime || endTime) {
-    sorted = filterByTimeRange(sorted, startTime, endTime);
+    clip = filterByTimeRange(clip, startTime, endTime);
+  }
+
+  return clip;
+}
+
+/**
+ * Extract a clip from a streamed transcript without retaining the whole session
+ *
+ * Entries outside the requested UUID/time range are dropped as they arrive,
+ * and `last` keeps only a rolling window, so memory is bounded by the clip
+ * size. The retained entries are passed through `extractClip` for ordering.
+ * For the edge repair, tool exchanges and subagent runs still open at the
+ * clip's edges are kept as well, and reading continues past `endUuid` until
+ * the clip's open tool calls have their results.
+ *
+ * Unlike `extractClip`, an unknown `startUuid` yields an empty clip, since
+ * entries before it are never retained. Turn selections retain one turn at a
+ * time (or the last N turns). Content selectors need the whole session to
+ * check for ambiguous matches, and ranges to count skipped messages, so they
+ * retain every entry.
+ */
+export async function collectClip(
+  source: AsyncIterable<TranscriptEntry>,
+  options: ClipOptions = {}
+): Promise<TranscriptEntry[]> {
+  const { startUuid, endUuid, startTime, endTime, last } = options;
+  const startDate = startTime ? new Date(startTime) : null;
+  const endDate = endTime ? new Date(endTime) : null;
+
+  checkSelectors(options);
+  if (last === undefined && isTurnSelection(options)) {
+    return collectTurns(source, options);
+  }
+  if (options.ranges || (last === undefined && hasContentSelector(options))) {
+    const all: TranscriptEntry[] = [];
+    for await (const entry of source) {
+      all.push(entry);
+    }
+    return extractClip(all, options);
+  }
+
+  const retained: TranscriptEntry[] = [];
+  const surroundings = new ClipSurroundings();
+  const repairing = (options.repair ?? "widen") !== "none";
+  let started = !startUuid;
+  let openCalls: string[] | null = null;
+
+  for await (const entry of source) {
+    surroundings.track(entry);
+
+    // Past endUuid: read on until the clip's open tool calls have results
+    if (openCalls) {
+      surroundings.add(entry, false);
+      if (!openCalls.some((id) => surroundings.isOpen(id))) break;
+      continue;
+    }
+
+    if (last !== undefined) {
+      if (last <= 0 || !isRenderableForClip(entry)) {
+        surroundings.add(entry, retained.length === 0);
+        continue;
+      }
+      retained.push(entry);
+      if (retained.length > last) surroundings.add(retained.shift()!, true);
+      continue;
+    }
+
+    const uuid = getUuid(entry);
+    if (!started && uuid === startUuid) {
+      started = true;
+    }
+    if (!started) {
+      surroundings.add(entry, true);
+      continue;
+    }
+
+    const timestamp = getTimestamp(entry);
+    const inTimeRange =
+      !timestamp ||
+      ((!startDate || timestamp >= startDate) && (!endDate || timestamp <= endDate));
+    if (inTimeRange) {
+      retained.push(entry);
+    } else {
+      surroundings.add(entry, retained.length === 0);
+    }
+
+    if (endUuid && uuid === endUuid) {
+      if (!repairing) break;
+      openCalls = retained.flatMap(getToolCallIds).filter((id) => surroundings.isOpen(id));
+      if (openCalls.length === 0) break;
+    }
   }
 
-  return sorted;
+  const clip = extractClip(retained, { last, repair: "none" });
+  return repairClip(sortByTimestamp([...surroundings.entries(), ...retained]), clip, options);
+}
+
+/**
+ * Entries a streamed clip left out that its repair may need: tool calls
+ * whose result has not passed, results whose call is in the clip or never
+ * passed, subagent messages of runs still open, and the latest prompt
+ * before the clip. Exchanges completed outside the clip are dropped.
+ */
+class ClipSurroundings {
+  /** Every unanswered call, in order, for results without a tool_use_id */
+  private pending: string[] = [];
+  private answers = new Map<TranscriptEntry, string[]>();
+  private calls = new Map<string, TranscriptEntry>();
+  private results: TranscriptEntry[] = [];
+  private agentRuns = new Map<string, TranscriptEntry[]>();
+  private prompt: TranscriptEntry | null = null;
+
+  /** Pair an entry's calls and results; every streamed entry passes here once */
+  track(entry: TranscriptEntry): void {
+    this.pending.push(...getToolCallIds(entry));
+    const answered = getAnsweredCallIds(entry, this.pending);
+    if (answered.length === 0) return;
+    this.pending = this.pending.filter((id) => !answered.includes(id));
+    this.answers.set(entry, answered);
+  }
+
+  /** Check if a call has had no result yet */
+  isOpen(id: string): boolean {
+    return this.pending.includes(id);
+  }
+
+  /** Add an entry outside the clip; `before` is true for entries ahead of it */
+  add(entry: TranscriptEntry, before: boolean): void {
+    if (before && isTurnStart(entry)) {
+      this.prompt = entry;
+    }
+
+    const agentId = getWritingAgentId(entry);
+    if (agentId) {
+      this.agentRuns.set(agentId, [...(this.agentRuns.get(agentId) ?? []), entry]);
+    }
+
+    for (const id of getToolCallIds(entry)) {
+      this.calls.set(id, entry);
+    }
+
+    const answered = this.answers.get(entry) ?? [];
+    this.answers.delete(entry);
+    const inClip = answered.filter((id) => !this.calls.delete(id));
+    if (answered.length === 0 || inClip.length > 0) {
+      if (entry.type === "user" && entry.toolUseResult !== undefined) this.results.push(entry);
+      return;
+    }
+
+    // The whole exchange, subagent run included, happened outside the clip
+    const runId = getAgentId(entry);
+    if (runId) this.agentRuns.delete(runId);
+  }
+
+  /** Entries kept for the repair */
+  entries(): TranscriptEntry[] {
+    const kept = new Set<TranscriptEntry>([
+      ...this.calls.values(),
+      ...this.results,
+      ...[...this.agentRuns.values()].flat(),
+    ]);
+    if (this.prompt) kept.add(this.prompt);
+    return [...kept];
+  }
+}
+
+/**
+ * Stream entries into turns, keeping only the turns that can be selected,
+ * then repair the clip's edges like a streamed UUID or time clip
+ */
+async function collectTurns(
+  source: AsyncIterable<TranscriptEntry>,
+  options: ClipOptions
+): Promise<TranscriptEntry[]> {
+  const { turns, lastTurns, turnOf } = options;
+  const tracker = new TurnTracker();
+  const surroundings = new ClipSurroundings();
+  const repairing = (options.repair ?? "widen") !== "none";
+  const kept: Turn[] = [];
+  let current: Turn | null = null;
+  let done = false;
+  let openCalls: string[] | null = null;
+
+  const leaveOut = (turn: Turn) => {
+    for (const entry of turn.entries) surroundings.add(entry, kept.length === 0);
+  };
+
+  /** Decide whether a finished turn is kept; returns true once no later turn can be */
+  const close = (turn: Turn): boolean => {
+    if (turnOf !== undefined) {
+      const found = turn.entries.some((e) => getUuid(e) === turnOf);
+      if (found) kept.push(turn);
+      else leaveOut(turn);
+      return found;
+    }
+    if (turns) {
+      if (isInTurnRange(turn.number, turns)) kept.push(turn);
+      else leaveOut(turn);
+      return turns.end !== undefined && turn.number >= turns.end;
+    }
+    kept.push(turn);
+    if (kept.length > (lastTurns ?? 0)) {
+      for (const entry of kept.shift()!.entries) surroundings.add(entry, true);
+    }
+    return false;
+  };
+
+  for await (const entry of source) {
+    surroundings.track(entry);
+
+    // Past the last turn: read on until the clip's open tool calls have results
+    if (openCalls) {
+      surroundings.add(entry, false);
+      if (!openCalls.some((id) => surroundings.isOpen(id))) break;
+      continue;
+    }
+
+    const number = tracker.add(entry);
+    if (current && current.number !== number) {
+      done = close(current);
+      current = null;
+      if (done) {
+        surroundings.add(entry, false);
+        if (!repairing) break;
+        openCalls = kept
+          .flatMap((turn) => turn.entries.flatMap(getToolCallIds))
+          .filter((id) => surroundings.isOpen(id));
+        if (openCalls.length === 0) break;
+        continue;
+      }
+    }
+    current ??= { number, promptUuid: null, entries: [] };
+    if (current.promptUuid === null && isTurnStart(entry)) {
+      current.promptUuid = getUuid(entry);
+    }
+    current.entries.push(entry);
+  }
+  if (current && !done) {
+    close(current);
+  }
+
+  const selected = selectTurns(kept, options).flatMap((turn) => turn.entries);
+  const clip = extractClip(selected, { repair: "none" });
+  return repairClip(sortByTimestamp([...surroundings.entries(), ...selected]), clip, options);
+}
+
+/**
+ * Repair a clip's edges so tool calls, their results and subagent runs stay
+ * together. `all` is every entry the clip was selected from, in order.
+ *
+ * In "widen" mode the missing partners are added: the call of a result, the
+ * result of a call, the Task result of a subagent message and the messages
+ * of a Task's subagent run. In "trim" mode entries whose partner is outside
+ * the clip are removed instead. Partners missing from `all` are left alone.
+ * With `includePrompt`, the prompt that started the first entry's turn is
+ * added. Each change is passed to `onRepair`.
+ */
+export function repairClip(
+  all: TranscriptEntry[],
+  clip: TranscriptEntry[],
+  options: ClipOptions = {}
+): TranscriptEntry[] {
+  const mode = options.repair ?? "widen";
+  if (clip.length === 0 || (mode === "none" && !options.includePrompt)) {
+    return clip;
+  }
+
+  const partners = indexPartners(all);
+  const included = new Set(clip);
+  const report = (action: ClipAdjustment["action"], entry: TranscriptEntry, reason: string) =>
+    options.onRepair?.({ action, uuid: describeEntry(entry), reason });
+
+  if (mode === "widen") {
+    const queue = [...clip];
+    for (let entry = queue.shift(); entry; entry = queue.shift()) {
+      for (const { partner, kind } of partners(entry)) {
+        if (included.has(partner)) continue;
+        included.add(partner);
+        queue.push(partner);
+        report("added", partner, `${kind} for ${describeEntry(entry)}`);
+      }
+    }
+  } else if (mode === "trim") {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const entry of all) {
+        if (!included.has(entry)) continue;
+        const missing = partners(entry).find(({ partner }) => !included.has(partner));
+        if (!missing) continue;
+        included.delete(entry);
+        changed = true;
+        report("removed", entry, `its ${missing.kind} ${describeEntry(missing.partner)} is outside the clip`);
+      }
+    }
+  }
+
+  if (options.includePrompt) {
+    const first = all.findIndex((entry) => included.has(entry));
+    const prompt = all.slice(0, first + 1).reverse().find(isTurnStart);
+    if (prompt && !included.has(prompt)) {
+      included.add(prompt);
+      report("added", prompt, "prompt that started the turn");
+    }
+  }
+
+  return all.filter((entry) => included.has(entry));
+}
+
+/** Format a clip adjustment for a warning: "+ msg-004  tool call for msg-005" */
+export function formatClipAdjustment(adjustment: ClipAdjustment): string {
+  return `${adjustment.action === "added" ? "+" : "-"} ${adjustment.uuid}  ${adjustment.reason}`;
+}
+
+/** A call, result or subagent message that belongs with another entry */
+interface ClipPartner {
+  partner: TranscriptEntry;
+  kind: "tool call" | "tool result" | "Task result" | "subagent message";
+}
+
+/**
+ * Build a lookup of each entry's partners among `all`. Results without a
+ * tool_use_id answer the oldest unanswered call, as in ToolPairingTracker.
+ */
+function indexPartners(all: TranscriptEntry[]): (entry: TranscriptEntry) => ClipPartner[] {
+  const calls = new Map<string, TranscriptEntry>();
+  const results = new Map<string, TranscriptEntry>();
+  const answers = new Map<TranscriptEntry, string[]>();
+  const taskResults = new Map<string, TranscriptEntry>();
+  const agentRuns = new Map<string, TranscriptEntry[]>();
+  const pending: string[] = [];
+
+  for (const entry of all) {
+    for (const id of getToolCallIds(entry)) {
+      calls.set(id, entry);
+      pending.push(id);
+    }
+    const ids = getAnsweredCallIds(entry, pending);
+    for (const id of ids) {
+      results.set(id, entry);
+      pending.splice(pending.indexOf(id), 1);
+    }
+    answers.set(entry, ids);
+    const runId = getAgentId(entry);
+    if (runId) taskResults.set(runId, entry);
+    const agentId = getWritingAgentId(entry);
+    if (agentId) agentRuns.set(agentId, [...(agentRuns.get(agentId) ?? []), entry]);
+  }
+
+  return (entry) => {
+    const found: ClipPartner[] = [];
+    const add = (partner: TranscriptEntry | undefined, kind: ClipPartner["kind"]) => {
+      if (partner && partner !== entry) found.push({ partner, kind });
+    };
+
+    for (const id of getToolCallIds(entry)) add(results.get(id), "tool result");
+    for (const id of answers.get(entry) ?? []) add(calls.get(id), "tool call");
+    const agentId = getWritingAgentId(entry);
+    if (agentId) add(taskResults.get(agentId), "Task result");
+    const runId = getAgentId(entry);
+    for (const message of runId ? (agentRuns.get(runId) ?? []) : []) {
+      add(message, "subagent message");
+    }
+    return found;
+  };
+}
+
+/** IDs of the calls a tool result answers, given the calls still waiting */
+function getAnsweredCallIds(entry: TranscriptEntry, pending: string[]): string[] {
+  const ids = getToolResultIds(entry);
+  if (ids.length > 0) {
+    return ids.filter((id) => pending.includes(id));
+  }
+  const isResult = entry.type === "user" && entry.toolUseResult !== undefined;
+  return isResult && pending.length > 0 ? [pending[0]!] : [];
+}
+
+/** ID of the subagent that wrote an entry (null for main-thread entries) */
+function getWritingAgentId(entry: TranscriptEntry): string | null {
+  return (entry.type === "user" || entry.type === "assistant") && entry.agentId ? entry.agentId : null;
+}
+
+function describeEntry(entry: TranscriptEntry): string {
+  return getUuid(entry) ?? entry.type;
+}
+
+/**
+ * Check if an entry opens a new turn: a prompt the user typed (including
+ * slash commands and `!` bash input), not a tool result, meta message,
+ * command output, interruption notice, compaction summary, or subagent prompt.
+ */
+export function isTurnStart(entry: TranscriptEntry): boolean {
+  if (entry.type !== "user") return false;
+  if (entry.toolUseResult || entry.isMeta || entry.isCompactSummary) return false;
+  if (entry.isSidechain || entry.agentId) return false;
+
+  const content = entry.message.content;
+  if (Array.isArray(content) && content.some((item) => item.type === "tool_result")) {
+    return false;
+  }
+  const text = getContentText(content).trim();
+
+  return text.length > 0 && !NON_PROMPT_PREFIXES.some((prefix) => text.startsWith(prefix));
+}
+
+/**
+ * Numbers turns as entries arrive. Entries before the first prompt
+ * (summaries, compaction boundaries) belong to turn 1.
+ */
+export class TurnTracker {
+  private current = 1;
+  private started = false;
+
+  /** Add the next entry and get its turn number */
+  add(entry: TranscriptEntry): number {
+    if (isTurnStart(entry)) {
+      if (this.started) this.current++;
+      this.started = true;
+    }
+    return this.current;
+  }
+}
+
+/** Split entries into turns */
+export function segmentTurns(entries: TranscriptEntry[]): Turn[] {
+  const tracker = new TurnTracker();
+  const turns: Turn[] = [];
+
+  for (const entry of entries) {
+    const number = tracker.add(entry);
+    let turn = turns[turns.length - 1];
+    if (!turn || turn.number !== number) {
+      turn = { number, promptUuid: null, entries: [] };
+      turns.push(turn);
+    }
+    if (turn.promptUuid === null && isTurnStart(entry)) {
+      turn.promptUuid = getUuid(entry);
+    }
+    turn.entries.push(entry);
+  }
+
+  return turns;
+}
+
+/**
+ * Pick turns by `turnOf`, `turns` or `lastTurns`, in that priority.
+ * Returns all turns when none is set.
+ */
+export function selectTurns(turns: Turn[], options: ClipOptions): Turn[] {
+  const { turns: range, lastTurns, turnOf } = options;
+
+  if (turnOf !== undefined) {
+    return turns.filter((turn) => turn.entries.some((e) => getUuid(e) === turnOf)).slice(0, 1);
+  }
+  if (range) {
+    return turns.filter((turn) => isInTurnRange(turn.number, range));
+  }
+  if (lastTurns !== undefined) {
+    return lastTurns > 0 ? turns.slice(-lastTurns) : [];
+  }
+  return turns;
+}
+
+/** Parse a turn range: "3-7", "5" or "3-" (through the last turn) */
+export function parseTurnRange(value: string): TurnRange {
+  const match = /^(\d+)(?:(-)(\d*))?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid turn range: ${value} (use N, N-M or N-)`);
+  }
+
+  const start = parseInt(match[1]!, 10);
+  const end = match[3] ? parseInt(match[3], 10) : match[2] ? undefined : start;
+  if (start < 1) {
+    throw new Error(`Invalid turn range: ${value} (turns are numbered from 1)`);
+  }
+  if (end !== undefined && end < start) {
+    throw new Error(`Invalid turn range: ${value} (end is before start)`);
+  }
+  return end === undefined ? { start } : { start, end };
+}
+
+function isTurnSelection(options: ClipOptions): boolean {
+  return (
+    options.turns !== undefined || options.lastTurns !== undefined || options.turnOf !== undefined
+  );
+}
+
+/** Throw a ClipSelectorError for selectors that would otherwise be ignored */
+function checkSelectors(options: ClipOptions): void {
+  if (isTurnSelection(options) && (options.startUuid || options.endUuid)) {
+    throw new ClipSelectorError(
+      "Turn selectors (turns, last-turns or turn-of) can't be combined with a start or end UUID"
+    );
+  }
+  if (options.context !== undefined && options.around === undefined) {
+    throw new ClipSelectorError("Context only applies to the around selector");
+  }
+}
+
+function isInTurnRange(number: number, range: TurnRange): boolean {
+  return number >= range.start && (range.end === undefined || number <= range.end);
+}
+
+/**
+ * Join several UUID ranges into one clip, in session order. Each range's
+ * edges are repaired on their own; overlapping ranges are merged, and a skip
+ * divider is placed wherever messages fall between two ranges.
+ */
+function selectRanges(
+  sorted: TranscriptEntry[],
+  ranges: ClipRange[],
+  options: ClipOptions
+): TranscriptEntry[] {
+  const { startUuid, endUuid, startTime, endTime, last } = options;
+  if (
+    startUuid ||
+    endUuid ||
+    startTime ||
+    endTime ||
+    last !== undefined ||
+    isTurnSelection(options) ||
+    hasContentSelector(options)
+  ) {
+    throw new ClipSelectorError("Ranges can't be combined with other clip selectors");
+  }
+
+  const included = new Set<TranscriptEntry>();
+  ranges.forEach((range, i) => {
+    const indexOf = (uuid: string | undefined, fallback: number): number => {
+      if (!uuid) return fallback;
+      const index = sorted.findIndex((e) => getUuid(e) === uuid);
+      if (index === -1) {
+        throw new ClipSelectorError(`Range ${i + 1}: no message with UUID ${uuid}`);
+      }
+      return index;
+    };
+    const start = indexOf(range.startUuid, 0);
+    const end = indexOf(range.endUuid, sorted.length - 1);
+    if (end < start) {
+      throw new ClipSelectorError(`Range ${i + 1}: ${range.endUuid} comes before ${range.startUuid}`);
+    }
+
+    for (const entry of repairClip(sorted, sorted.slice(start, end + 1), options)) {
+      included.add(entry);
+    }
+  });
+
+  const clip: TranscriptEntry[] = [];
+  let skipped = 0;
+  for (const entry of sorted) {
+    if (!included.has(entry)) {
+      if (clip.length > 0 && isRenderableForClip(entry)) skipped++;
+      continue;
+    }
+    if (skipped > 0) {
+      clip.push(createSkipDivider(skipped, entry));
+      skipped = 0;
+    }
+    clip.push(entry);
+  }
+  return clip;
+}
+
+/** Create the synthetic divider placed before the first entry after a skip */
+export function createSkipDivider(skipped: number, next?: TranscriptEntry): SystemMessage {
+  return {
+    type: "system",
+    subtype: CLIP_SKIPPED_SUBTYPE,
+    timestamp: (next && getTimestamp(next)?.toISOString()) ?? "",
+    content: `${skipped} ${skipped === 1 ? "message" : "messages"} skipped`,
+    level: "info",
+  };
+}
+
+/**
+ * Parse a UUID range: "<start>..<end>", "<start>.." or "..<end>"
+ * Throws on malformed values.
+ */
+export function parseClipRange(value: string): ClipRange {
+  const match = /^([^.\s]*)\.\.([^.\s]*)$/.exec(value.trim());
+  if (!match || (!match[1] && !match[2])) {
+    throw new Error(`Invalid range: ${value} (use <start-uuid>..<end-uuid>)`);
+  }
+  return { startUuid: match[1] || undefined, endUuid: match[2] || undefined };
+}
+
+/**
+ * Resolve content selectors to the UUID range they describe. `fromPrompt`
+ * and `fromTool` set the start, `toPrompt` the end (the last message of that
+ * prompt's turn), and `around` both. `toPrompt` only looks after the start.
+ */
+export function resolveContentSelectors(
+  entries: TranscriptEntry[],
+  options: ClipOptions
+): { startUuid?: string; endUuid?: string } {
+  const { fromPrompt, toPrompt, around, fromTool } = options;
+  let { startUuid, endUuid } = options;
+
+  const starts = [fromPrompt, fromTool, around, startUuid].filter((s) => s !== undefined);
+  const ends = [toPrompt, around, endUuid].filter((s) => s !== undefined);
+  if (starts.length > 1 || ends.length > 1) {
+    throw new ClipSelectorError(
+      "Use one start selector (from-prompt, from-tool, around or start UUID) " +
+        "and one end selector (to-prompt, around or end UUID)"
+    );
+  }
+
+  if (around !== undefined) {
+    return resolveAround(entries, around, options.context ?? DEFAULT_AROUND_CONTEXT);
+  }
+
+  const turns = segmentTurns(entries);
+  if (fromPrompt !== undefined) {
+    startUuid = findPrompt(turns, fromPrompt, "Start prompt").promptUuid!;
+  }
+  if (fromTool !== undefined) {
+    startUuid = findToolCall(entries, fromTool);
+  }
+
+  if (toPrompt !== undefined) {
+    const startTurn = turns.findIndex((turn) => turn.entries.some((e) => getUuid(e) === startUuid));
+    const turn = findPrompt(turns.slice(Math.max(0, startTurn)), toPrompt, "End prompt");
+    endUuid = turn.entries.map(getUuid).filter((uuid) => uuid !== null).pop()!;
+  }
+
+  return { startUuid, endUuid };
+}
+
+function hasContentSelector(options: ClipOptions): boolean {
+  return (
+    options.fromPrompt !== undefined ||
+    options.toPrompt !== undefined ||
+    options.around !== undefined ||
+    options.fromTool !== undefined
+  );
+}
+
+/** Find the one turn whose prompt matches a pattern */
+function findPrompt(turns: Turn[], pattern: string, label: string): Turn {
+  const regex = compilePattern(pattern, label);
+  const matches = turns.flatMap((turn) => {
+    const prompt = turn.entries.find((e) => getUuid(e) === turn.promptUuid);
+    return prompt?.type === "user" && regex.test(getContentText(prompt.message.content))
+      ? [{ match: turn, entry: prompt }]
+      : [];
+  });
+  return requireOneMatch(matches, `${label} /${pattern}/`, "prompt");
+}
+
+/** UUID range of `context` renderable messages on each side of the one match */
+function resolveAround(
+  entries: TranscriptEntry[],
+  pattern: string,
+  context: number
+): { startUuid: string; endUuid: string } {
+  const regex = compilePattern(pattern, "Around pattern");
+  const messages = entries.filter((e) => isRenderableForClip(e) && getUuid(e) !== null);
+  const matches = messages
+    .map((entry, index) => ({ match: index, entry }))
+    .filter(({ entry }) => regex.test(getSearchText(entry)));
+
+  const index = requireOneMatch(matches, `Around pattern /${pattern}/`, "message");
+  const first = messages[Math.max(0, index - Math.max(0, context))]!;
+  const last = messages[Math.min(messages.length - 1, index + Math.max(0, context))]!;
+  return { startUuid: getUuid(first)!, endUuid: getUuid(last)! };
+}
+
+/**
+ * UUID of the first call to a tool ("Edit") or to a tool on a target
+ * ("Edit:src/foo.ts"). File targets match the end of the path; other targets
+ * (commands, patterns, URLs) match anywhere in them. Ambiguous when the
+ * target matches more than one file.
+ */
+function findToolCall(entries: TranscriptEntry[], selector: string): string {
+  const separator = selector.indexOf(":");
+  const name = (separator === -1 ? selector : selector.slice(0, separator)).toLowerCase();
+  const target = separator === -1 ? null : selector.slice(separator + 1);
+
+  const calls: Array<{ uuid: string; path: string | null; preview: string }> = [];
+  for (const entry of entries) {
+    const uuid = getUuid(entry);
+    if (entry.type !== "assistant" || !uuid) continue;
+
+    for (const item of entry.message.content) {
+      if (item.type !== "tool_use" || item.name.toLowerCase() !== name) continue;
+      const path = getToolPath(item.input);
+      const subject = path ?? getToolTarget(item.input);
+      if (target !== null && !matchesToolTarget(subject, path !== null, target)) continue;
+      calls.push({ uuid, path, preview: `${item.name} ${subject}`.trim() });
+    }
+  }
+
+  const files = [...new Set(calls.map((call) => call.path).filter((path) => path !== null))];
+  if (calls.length === 0) {
+    throw new ClipSelectorError(`Tool selector "${selector}" matches no tool call`);
+  }
+  if (files.length > 1) {
+    throw new ClipSelectorError(
+      `Tool selector "${selector}" matches ${files.length} files; use more of the path:`,
+      files.map((path) => ({ uuid: calls.find((call) => call.path === path)!.uuid, preview: path }))
+    );
+  }
+  return calls[0]!.uuid;
+}
+
+function getToolPath(input: Record<string, unknown>): string | null {
+  for (const field of TOOL_PATH_FIELDS) {
+    if (typeof input[field] === "string") return input[field];
+  }
+  return null;
+}
+
+function getToolTarget(input: Record<string, unknown>): string {
+  for (const field of TOOL_TARGET_FIELDS) {
+    if (typeof input[field] === "string") return input[field];
+  }
+  return "";
+}
+
+function matchesToolTarget(subject: string, isPath: boolean, target: string): boolean {
+  if (!isPath) return subject.includes(target);
+  return subject === target || subject.endsWith("/" + target.replace(/^\.?\//, ""));
+}
+
+/** Return the single match, or throw listing what matched */
+function requireOneMatch<T>(
+  matches: Array<{ match: T; entry: TranscriptEntry }>,
+  description: string,
+  noun: string
+): T {
+  if (matches.length === 1) {
+    return matches[0]!.match;
+  }
+  if (matches.length === 0) {
+    throw new ClipSelectorError(`${description} matches no ${noun}`);
+  }
+  throw new ClipSelectorError(
+    `${description} matches ${matches.length} ${noun}s; make it more specific:`,
+    matches.map(({ entry }) => ({
+      uuid: getUuid(entry) ?? entry.type,
+      preview: getSearchText(entry).trim().split("\n")[0]!.slice(0, 60),
+    }))
+  );
+}
+
+function compilePattern(pattern: string, label: string): RegExp {
+  try {
+    return new RegExp(pattern, "i");
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ClipSelectorError(`${label} is not a valid regex: ${reason}`);
+  }
+}
+
+/** Text of a message content: plain text, or the text items joined */
+function getContentText(content: string | ContentItem[]): string {
+  if (typeof content === "string") return content;
+  return content.map((item) => (item.type === "text" ? item.text : "")).join("\n");
+}
+
+/**
+ * Searchable text of any entry: prompt and response text, thinking,
+ * tool calls (name and input) and tool results.
+ */
+export function getSearchText(entry: TranscriptEntry): string {
+  switch (entry.type) {
+    case "user":
+    case "assistant": {
+      const content = entry.message.content;
+      if (typeof content === "string") return content;
+      return content
+        .map((item) => {
+          switch (item.type) {
+            case "text":
+              return item.text;
+            case "thinking":
+              return item.thinking;
+            case "tool_use":
+              return `${item.name} ${JSON.stringify(item.input)}`;
+            case "tool_result":
+              return typeof item.content === "string"
+                ? item.content
+                : (item.content ?? []).map((part) => part.text ?? "").join("\n");
+            default:
+              return "";
+          }
+        })
+        .filter((text) => text.length > 0)
+        .join("\n");
+    }
+    case "system":
+      return entry.content ?? "";
+    case "summary":
+      return entry.summary;
+    default:
+      return "";
+  }
 }
 
 /** Filter entries by UUID range (inclusive) */
@@ -125,46 +1067,59 @@ function isRenderableForClip(entry: TranscriptEntry): boolean {
   }
 }
 
-/** Get summary of clip for display */
-export function getClipSummary(entries: TranscriptEntry[]): {
+/** Summary counts for a clip */
+export interface ClipSummary {
   total: number;
   user: number;
   assistant: number;
   tools: number;
   startTime: Date | null;
   endTime: Date | null;
-} {
-  let user = 0;
-  let assistant = 0;
-  let tools = 0;
-  let startTime: Date | null = null;
-  let endTime: Date | null = null;
+}
 
-  for (const entry of entries) {
-    const timestamp = getTimestamp(entry);
+/** Create an empty clip summary for incremental accumulation */
+export function createClipSummary(): ClipSummary {
+  return {
+    total: 0,
+    user: 0,
+    assistant: 0,
+    tools: 0,
+    startTime: null,
+    endTime: null,
+  };
+}
 
-    if (timestamp) {
-      if (!startTime || timestamp < startTime) startTime = timestamp;
-      if (!endTime || timestamp > endTime) endTime = timestamp;
-    }
+/** Add a single entry to a clip summary (mutates and returns it) */
+export function addToClipSummary(
+  summary: ClipSummary,
+  entry: TranscriptEntry
+): ClipSummary {
+  const timestamp = getTimestamp(entry);
 
-    if (entry.type === "user") {
-      if (entry.toolUseResult) {
-        tools++;
-      } else {
-        user++;
-      }
-    } else if (entry.type === "assistant") {
-      assistant++;
+  if (timestamp) {
+    if (!summary.startTime || timestamp < summary.startTime) summary.startTime = timestamp;
+    if (!summary.endTime || timestamp > summary.endTime) summary.endTime = timestamp;
+  }
+
+  if (entry.type === "user") {
+    if (entry.toolUseResult) {
+      summary.tools++;
+    } else {
+      summary.user++;
     }
+  } else if (entry.type === "assistant") {
+    summary.assistant++;
   }
 
-  return {
-    total: entries.length,
-    user,
-    assistant,
-    tools,
-    startTime,
-    endTime,
-  };
+  summary.total++;
+  return summary;
+}
+
+/** Get summary of clip for display */
+export function getClipSummary(entries: TranscriptEntry[]): ClipSummary {
+  const summary = createClipSummary();
+  for (const entry of entries) {
+    addToClipSummary(summary, entry);
+  }
+  return summary;
 }
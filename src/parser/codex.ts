@@ -0,0 +1,356 @@
+/**
+ * Codex CLI adapter - OpenAI Codex session logs as transcript entries
+ *
+ * Codex writes one of two layouts:
+ * - rollout JSONL: {timestamp, type, payload} lines, where `response_item`
+ *   payloads hold the conversation (messages, reasoning, tool calls/outputs)
+ * - legacy JSON:   {session, items} with the same items and no timestamps
+ *
+ * `event_msg` lines repeat what the response items say for the TUI, so
+ * they are ignored.
+ */
+
+import { basename, extname } from "node:path";
+import type {
+  AssistantMessage,
+  ContentItem,
+  SummaryMessage,
+  ToolUseResult,
+  TranscriptEntry,
+  UserMessage,
+} from "../types/messages.js";
+import { readTranscriptRecords, type TranscriptRecord } from "./loader.js";
+import type { TranscriptAdapter } from "./adapters.js";
+
+/** Rollout line types that mark a Codex log */
+const ROLLOUT_TYPES = new Set(["session_meta", "response_item", "turn_context", "event_msg"]);
+
+/** Response item types that carry conversation content */
+const ITEM_TYPES = new Set([
+  "message",
+  "reasoning",
+  "function_call",
+  "function_call_output",
+  "custom_tool_call",
+  "custom_tool_call_output",
+  "local_shell_call",
+]);
+
+/** User messages Codex injects as context rather than typed by the user */
+const CONTEXT_TAGS = ["<environment_context>", "<user_instructions>", "<user_shell_command>"];
+
+// =============================================================================
+// Adapter
+// =============================================================================
+
+/** OpenAI Codex CLI sessions (rollout JSONL and legacy JSON) */
+export const codexAdapter: TranscriptAdapter = {
+  name: "codex",
+  description: "OpenAI Codex CLI session (rollout JSONL or legacy JSON)",
+  detect: (records) =>
+    records.some(
+      (record) =>
+        (typeof record["type"] === "string" && ROLLOUT_TYPES.has(record["type"])) ||
+        (isRecord(record["session"]) && Array.isArray(record["items"]))
+    ),
+  read: readCodexTranscript,
+};
+
+/** Stream a Codex session log as transcript entries */
+export async function* readCodexTranscript(filePath: string): AsyncGenerator<TranscriptEntry> {
+  const converter = new CodexConverter(basename(filePath, extname(filePath)));
+
+  for await (const record of readTranscriptRecords(filePath)) {
+    // Legacy JSON: one document with the session and every item
+    if (isRecord(record["session"]) && Array.isArray(record["items"])) {
+      converter.addSessionMeta(record["session"]);
+      for (const item of record["items"]) {
+        if (isRecord(item)) yield* converter.addItem(item);
+      }
+      continue;
+    }
+
+    yield* converter.addRecord(record);
+  }
+}
+
+// =============================================================================
+// Conversion
+// =============================================================================
+
+/**
+ * Converts Codex records to transcript entries, one record at a time.
+ * Entries are chained by parentUuid in file order.
+ */
+export class CodexConverter {
+  private sessionId: string;
+  private cwd = "";
+  private model = "codex";
+  private timestamp = new Date(0).toISOString();
+  private lastUuid: string | null = null;
+  private count = 0;
+  /** call_id of shell calls, whose outputs render as Bash output */
+  private shellCalls = new Set<string>();
+
+  constructor(sessionId: string) {
+    this.sessionId = sessionId;
+  }
+
+  /** Add a rollout line (or a bare legacy item) */
+  addRecord(record: TranscriptRecord): TranscriptEntry[] {
+    if (typeof record["timestamp"] === "string") {
+      this.timestamp = record["timestamp"];
+    }
+
+    const payload = isRecord(record["payload"]) ? record["payload"] : null;
+    switch (record["type"]) {
+      case "session_meta":
+        if (payload) this.addSessionMeta(payload);
+        return [];
+      case "turn_context":
+        if (typeof payload?.["model"] === "string") this.model = payload["model"];
+        return [];
+      case "response_item":
+        return payload ? this.addItem(payload) : [];
+      case "compacted":
+        return payload ? this.addCompaction(payload) : [];
+      default:
+        // Legacy JSONL: items are written without a wrapper, after a session header
+        if (typeof record["type"] === "string" && ITEM_TYPES.has(record["type"])) {
+          return this.addItem(record);
+        }
+        if (typeof record["id"] === "string" && "instructions" in record) {
+          this.addSessionMeta(record);
+        }
+        return [];
+    }
+  }
+
+  /** Take session id, working directory and start time from session metadata */
+  addSessionMeta(meta: TranscriptRecord): void {
+    if (typeof meta["id"] === "string") this.sessionId = meta["id"];
+    if (typeof meta["cwd"] === "string") this.cwd = meta["cwd"];
+    if (typeof meta["timestamp"] === "string" && this.count === 0) {
+      this.timestamp = meta["timestamp"];
+    }
+  }
+
+  /** Add a response item: message, reasoning, tool call or tool output */
+  addItem(item: TranscriptRecord): TranscriptEntry[] {
+    switch (item["type"]) {
+      case "message":
+        return this.addMessage(item);
+      case "reasoning":
+        return this.addReasoning(item);
+      case "function_call":
+      case "custom_tool_call":
+      case "local_shell_call":
+        return this.addToolCall(item);
+      case "function_call_output":
+      case "custom_tool_call_output":
+        return this.addToolOutput(item);
+      default:
+        return [];
+    }
+  }
+
+  private addMessage(item: TranscriptRecord): TranscriptEntry[] {
+    const text = getItemText(item["content"]);
+    if (!text.trim()) return [];
+
+    if (item["role"] === "assistant") {
+      return [this.assistant([{ type: "text", text }], "end_turn")];
+    }
+    if (item["role"] !== "user") return [];
+    if (CONTEXT_TAGS.some((tag) => text.trimStart().startsWith(tag))) return [];
+    return [this.user(text)];
+  }
+
+  private addReasoning(item: TranscriptRecord): TranscriptEntry[] {
+    const thinking = getItemText(item["summary"]) || getItemText(item["content"]);
+    if (!thinking.trim()) return [];
+    return [this.assistant([{ type: "thinking", thinking }], null)];
+  }
+
+  private addToolCall(item: TranscriptRecord): TranscriptEntry[] {
+    const id = getString(item["call_id"]) ?? getString(item["id"]) ?? `call-${this.count}`;
+    const { name, input } = mapToolCall(item);
+    if (name === "Bash") this.shellCalls.add(id);
+
+    return [this.assistant([{ type: "tool_use", id, name, input }], "tool_use")];
+  }
+
+  private addToolOutput(item: TranscriptRecord): TranscriptEntry[] {
+    const id = getString(item["call_id"]) ?? "";
+    const { output, exitCode } = parseToolOutput(item["output"]);
+    const isError = exitCode !== null && exitCode !== 0;
+
+    const toolUseResult: ToolUseResult = this.shellCalls.has(id)
+      ? { stdout: isError ? "" : output, stderr: isError ? output : "", interrupted: false }
+      : { content: output, is_error: isError };
+
+    return [
+      this.user(
+        [{ type: "tool_result", tool_use_id: id, content: output, is_error: isError }],
+        toolUseResult
+      ),
+    ];
+  }
+
+  private addCompaction(payload: TranscriptRecord): TranscriptEntry[] {
+    const summary: SummaryMessage = {
+      type: "summary",
+      summary: getString(payload["message"]) ?? "",
+      leafUuid: this.lastUuid ?? "",
+    };
+    return [summary];
+  }
+
+  private user(content: string | ContentItem[], toolUseResult?: ToolUseResult): UserMessage {
+    return {
+      ...this.base(),
+      type: "user",
+      userType: "external",
+      cwd: this.cwd,
+      message: { role: "user", content },
+      ...(toolUseResult ? { toolUseResult } : {}),
+    };
+  }
+
+  private assistant(
+    content: ContentItem[],
+    stopReason: AssistantMessage["message"]["stop_reason"]
+  ): AssistantMessage {
+    const base = this.base();
+    return {
+      ...base,
+      type: "assistant",
+      message: {
+        id: base.uuid,
+        type: "message",
+        role: "assistant",
+        model: this.model,
+        content,
+        stop_reason: stopReason,
+      },
+    };
+  }
+
+  /** Fields shared by every entry, advancing the parent chain */
+  private base() {
+    const uuid = `${this.sessionId}-${String(++this.count).padStart(4, "0")}`;
+    const parentUuid = this.lastUuid;
+    this.lastUuid = uuid;
+    return { uuid, parentUuid, sessionId: this.sessionId, timestamp: this.timestamp };
+  }
+}
+
+// =============================================================================
+// Tool Mapping
+// =============================================================================
+
+/**
+ * Map a Codex tool call onto the closest Claude Code tool, so it renders the
+ * same way: shell → Bash, update_plan → TodoWrite, apply_patch → Edit.
+ */
+function mapToolCall(item: TranscriptRecord): { name: string; input: Record<string, unknown> } {
+  const name = getString(item["name"]) ?? "tool";
+
+  if (item["type"] === "local_shell_call") {
+    const action = isRecord(item["action"]) ? item["action"] : {};
+    return { name: "Bash", input: { command: formatShellCommand(action["command"]) } };
+  }
+
+  if (item["type"] === "custom_tool_call") {
+    const input = getString(item["input"]) ?? "";
+    if (name === "apply_patch") return mapPatch(input);
+    return { name, input: { input } };
+  }
+
+  const args = parseJsonObject(item["arguments"]);
+  switch (name) {
+    case "shell":
+    case "container.exec":
+      return { name: "Bash", input: { ...args, command: formatShellCommand(args["command"]) } };
+
+    case "update_plan": {
+      const plan = Array.isArray(args["plan"]) ? args["plan"] : [];
+      const todos = plan.filter(isRecord).map((step) => ({
+        content: getString(step["step"]) ?? "",
+        status: getString(step["status"]) ?? "pending",
+      }));
+      return { name: "TodoWrite", input: { todos } };
+    }
+
+    case "apply_patch":
+      return mapPatch(getString(args["input"]) ?? "");
+
+    default:
+      return { name, input: args };
+  }
+}
+
+/** apply_patch renders as an Edit of the first file it touches */
+function mapPatch(patch: string): { name: string; input: Record<string, unknown> } {
+  const match = /^\*\*\* (?:Update|Add|Delete) File: (.+)$/m.exec(patch);
+  return { name: "Edit", input: match ? { file_path: match[1]!.trim(), patch } : { patch } };
+}
+
+/** Shell commands are argv arrays, usually ["bash", "-lc", "<script>"] */
+function formatShellCommand(command: unknown): string {
+  if (typeof command === "string") return command;
+  if (!Array.isArray(command)) return "";
+
+  const argv = command.map(String);
+  if (argv.length === 3 && /(^|\/)(ba|z)?sh$/.test(argv[0]!) && /^-l?c$/.test(argv[1]!)) {
+    return argv[2]!;
+  }
+  return argv.map((arg) => (/[\s"'$]/.test(arg) ? JSON.stringify(arg) : arg)).join(" ");
+}
+
+/** Tool outputs are plain text, or JSON with output and metadata.exit_code */
+function parseToolOutput(raw: unknown): { output: string; exitCode: number | null } {
+  const text = typeof raw === "string" ? raw : JSON.stringify(raw ?? "");
+  const parsed = parseJsonObject(text);
+  if (typeof parsed["output"] !== "string") {
+    return { output: text, exitCode: null };
+  }
+
+  const metadata = isRecord(parsed["metadata"]) ? parsed["metadata"] : {};
+  const exitCode = typeof metadata["exit_code"] === "number" ? metadata["exit_code"] : null;
+  return { output: parsed["output"], exitCode };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Join the text parts of a content or summary array */
+function getItemText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter(isRecord)
+    .map((part) => getString(part["text"]) ?? "")
+    .filter((text) => text.length > 0)
+    .join("\n\n");
+}
+
+function parseJsonObject(value: unknown): TranscriptRecord {
+  if (isRecord(value)) return value;
+  if (typeof value !== "string") return {};
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return isRecord(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function getString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+function isRecord(value: unknown): value is TranscriptRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { AssistantMessage, TranscriptEntry, UserMessage } from "../types/messages.js";
+import { loadTranscript, getUuid, streamTranscript } from "./loader.js";
+import { ContentFilter, filterTranscript, parseToolList, summarizeToolResult } from "./filter.js";
+import { convertToAsciicast } from "../generator/convert.js";
+import { stripAnsi } from "../renderer/ansi.js";
+
+const __dirname = fileURLToPath(new URL(".", import.meta.url));
+const sessionPath = join(__dirname, "__fixtures__", "sample-session.jsonl");
+const agentSessionPath = join(__dirname, "__fixtures__", "with-agent-ref.jsonl");
+
+function find(entries: TranscriptEntry[], uuid: string): TranscriptEntry | undefined {
+  return entries.find((e) => getUuid(e) === uuid);
+}
+
+function contentTypes(entry: TranscriptEntry | undefined): string[] {
+  return (entry as AssistantMessage).message.content.map((c) => c.type);
+}
+
+function renderText(entries: TranscriptEntry[], hideToolResults = false): string {
+  const result = convertToAsciicast(entries, { render: { showToolResults: !hideToolResults } });
+  return stripAnsi(
+    result.document.events
+      .filter((e) => e[1] === "o")
+      .map((e) => e[2])
+      .join("")
+  );
+}
+
+describe("ContentFilter", () => {
+  it("drops thinking blocks without modifying the originals", async () => {
+    const entries = await loadTranscript(sessionPath);
+    const filtered = new ContentFilter({ hideThinking: true }).filterEntries(entries);
+
+    expect(contentTypes(find(filtered, "msg-004"))).toEqual(["text", "tool_use"]);
+    expect(contentTypes(find(entries, "msg-004"))).toEqual(["thinking", "text", "tool_use"]);
+  });
+
+  it("drops excluded tools with their results", async () => {
+    const entries = await loadTranscript(sessionPath);
+    const excluded = new ContentFilter({ excludeTools: ["Read"] }).filterEntries(entries);
+    const only = new ContentFilter({ onlyTools: ["Edit"] }).filterEntries(entries);
+
+    expect(contentTypes(find(excluded, "msg-004"))).toEqual(["thinking", "text"]);
+    expect(find(excluded, "msg-005")).toBeUndefined();
+    expect(find(excluded, "msg-007")).toBeDefined();
+    expect(only).toEqual(excluded);
+  });
+
+  it("drops the subagent transcripts of excluded Task calls", async () => {
+    const entries = await loadTranscript(agentSessionPath);
+    const excluded = new ContentFilter({ excludeTools: ["Task"] }).filterEntries(entries);
+    const kept = new ContentFilter({ excludeTools: ["Read"] }).filterEntries(entries);
+
+    expect(excluded.map(getUuid)).toEqual(["msg-001", "msg-002", "msg-004"]);
+    expect(kept.map(getUuid)).toContain("agent-msg-001");
+  });
+
+  it("drops entries left with nothing to show", async () => {
+    const entries = await loadTranscript(sessionPath);
+    const call = find(entries, "msg-004") as AssistantMessage;
+    const toolOnly = {
+      ...call,
+      message: { ...call.message, content: call.message.content.filter((c) => c.type === "tool_use") },
+    };
+
+    expect(new ContentFilter({ excludeTools: ["Read"] }).filterEntry(toolOnly)).toBeNull();
+  });
+
+  it("drops tool results without flagging the calls as unanswered", async () => {
+    const entries = await loadTranscript(sessionPath);
+    const filtered = new ContentFilter({ hideToolResults: true }).filterEntries(entries);
+
+    expect(filtered.map(getUuid)).not.toContain("msg-005");
+    expect(filtered.map(getUuid)).not.toContain("msg-007");
+    expect(renderText(filtered, true)).not.toContain("No result recorded");
+  });
+
+  it("collapses results of the listed tools to one line", async () => {
+    const entries = await loadTranscript(sessionPath);
+    const filtered = new ContentFilter({ collapseTools: ["Read"] }).filterEntries(entries);
+    const result = find(filtered, "msg-005") as UserMessage;
+
+    expect(result.toolUseResult).toEqual({ content: "Read 5 lines", is_error: false });
+    expect(find(filtered, "msg-007")).toEqual(find(entries, "msg-007"));
+
+    const output = renderText(filtered);
+    expect(output).toContain("Read 5 lines");
+    expect(output).not.toContain("Starting app");
+  });
+
+  it("filters streamed entries the same way", async () => {
+    const entries = await loadTranscript(sessionPath);
+    const options = { hideThinking: true, excludeTools: ["Edit"] };
+
+    const streamed: TranscriptEntry[] = [];
+    for await (const entry of filterTranscript(streamTranscript(sessionPath), new ContentFilter(options))) {
+      streamed.push(entry);
+    }
+    expect(streamed).toEqual(new ContentFilter(options).filterEntries(entries));
+  });
+});
+
+describe("summarizeToolResult", () => {
+  it("counts lines, files and reports errors", () => {
+    expect(summarizeToolResult("Bash", { stdout: "a\nb\n", stderr: "" })).toBe("2 lines of output");
+    expect(summarizeToolResult("Glob", { filenames: ["a.ts"] })).toBe("Found 1 file");
+    expect(summarizeToolResult("Read", "File does not exist.\nmore")).toBe("Error: File does not exist.");
+    expect(summarizeToolResult("Grep", { content: "" })).toBe("(No output)");
+  });
+});
+
+describe("parseToolList", () => {
+  it("splits comma-separated names", () => {
+    expect(parseToolList("Read, Glob,,Grep")).toEqual(["Read", "Glob", "Grep"]);
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Content filters - leave thinking, tools or tool results out of a recording
+ *
+ * Filtered content is removed from the entries themselves, so it takes no
+ * time in the recording either. Collapsed tools keep their call, but the
+ * result shrinks to a one-line summary such as "Read 120 lines".
+ */
+
+import type {
+  AssistantMessage,
+  ContentItem,
+  ToolUseResult,
+  TranscriptEntry,
+  UserMessage,
+} from "../types/messages.js";
+import { getAgentId, getToolCallIds, getToolResultIds } from "./loader.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Which content to leave out of a recording */
+export interface ContentFilterOptions {
+  /** Drop thinking blocks */
+  hideThinking?: boolean;
+  /** Drop calls and results of these tools */
+  excludeTools?: string[];
+  /** Drop calls and results of every other tool */
+  onlyTools?: string[];
+  /** Drop tool results, keeping the calls */
+  hideToolResults?: boolean;
+  /** Replace results of these tools with a one-line summary */
+  collapseTools?: string[];
+}
+
+/** Check if any content filter is turned on */
+export function hasContentFilter(options: ContentFilterOptions): boolean {
+  return Boolean(
+    options.hideThinking ||
+      options.hideToolResults ||
+      options.excludeTools?.length ||
+      options.onlyTools?.length ||
+      options.collapseTools?.length
+  );
+}
+
+/** Parse a comma-separated tool list: "Read,Glob, Grep" */
+export function parseToolList(value: string): string[] {
+  return value
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+}
+
+// =============================================================================
+// Filter
+// =============================================================================
+
+/**
+ * Applies content filters to entries in transcript order. Tool results are
+ * paired with their calls (by tool_use_id, else the oldest unanswered call,
+ * as in ToolPairingTracker) to know which tool they came from. Dropping a
+ * Task result also drops the subagent transcript spliced in after it.
+ * Entries left with nothing to show are dropped; the originals are not modified.
+ */
+export class ContentFilter {
+  private options: ContentFilterOptions;
+  /** Tool name of every call seen, by tool_use id */
+  private toolNames = new Map<string, string>();
+  /** Calls without a result yet, oldest first */
+  private pendingCalls: string[] = [];
+  /** Agents whose Task call was dropped, along with their transcripts */
+  private droppedAgents = new Set<string>();
+
+  constructor(options: ContentFilterOptions) {
+    this.options = options;
+  }
+
+  /** Filter a list of entries */
+  filterEntries(entries: TranscriptEntry[]): TranscriptEntry[] {
+    return entries.flatMap((entry) => {
+      const filtered = this.filterEntry(entry);
+      return filtered ? [filtered] : [];
+    });
+  }
+
+  /** Filter one entry; returns null when nothing is left of it */
+  filterEntry(entry: TranscriptEntry): TranscriptEntry | null {
+    if ("agentId" in entry && typeof entry.agentId === "string" && this.droppedAgents.has(entry.agentId)) {
+      // Nested agents go with the agent that started them
+      const nested = getAgentId(entry);
+      if (nested) this.droppedAgents.add(nested);
+      return null;
+    }
+    if (entry.type === "assistant") {
+      return this.filterAssistant(entry);
+    }
+    if (entry.type === "user" && entry.toolUseResult !== undefined) {
+      return this.filterResult(entry);
+    }
+    return entry;
+  }
+
+  /** Check if calls of a tool are kept */
+  isToolShown(name: string): boolean {
+    const { excludeTools, onlyTools } = this.options;
+    if (excludeTools?.includes(name)) return false;
+    return !onlyTools?.length || onlyTools.includes(name);
+  }
+
+  private filterAssistant(entry: AssistantMessage): TranscriptEntry | null {
+    for (const id of getToolCallIds(entry)) {
+      this.pendingCalls.push(id);
+    }
+
+    const content = entry.message.content.filter((item) => {
+      if (item.type === "thinking") return !this.options.hideThinking;
+      if (item.type !== "tool_use") return true;
+      this.toolNames.set(item.id, item.name);
+      return this.isToolShown(item.name);
+    });
+
+    if (content.length === entry.message.content.length) return entry;
+    // A compaction boundary still renders its divider
+    if (content.length === 0 && !entry.context_management) return null;
+    return { ...entry, message: { ...entry.message, content } };
+  }
+
+  private filterResult(entry: UserMessage): TranscriptEntry | null {
+    const ids = getToolResultIds(entry);
+    const answered = ids.length > 0 ? ids : this.pendingCalls.slice(0, 1);
+    this.pendingCalls = this.pendingCalls.filter((id) => !answered.includes(id));
+
+    if (this.options.hideToolResults) return null;
+
+    const names = answered.flatMap((id) => {
+      const name = this.toolNames.get(id);
+      return name ? [name] : [];
+    });
+    if (names.length > 0 && names.every((name) => !this.isToolShown(name))) {
+      const agentId = getAgentId(entry);
+      if (agentId) this.droppedAgents.add(agentId);
+      return null;
+    }
+
+    const name = names[0];
+    if (name && this.options.collapseTools?.includes(name)) {
+      return collapseResult(entry, summarizeToolResult(name, entry.toolUseResult!));
+    }
+    return entry;
+  }
+}
+
+/** Filter entries as they stream past */
+export async function* filterTranscript(
+  entries: AsyncIterable<TranscriptEntry>,
+  filter: ContentFilter
+): AsyncGenerator<TranscriptEntry> {
+  for await (const entry of entries) {
+    const filtered = filter.filterEntry(entry);
+    if (filtered) yield filtered;
+  }
+}
+
+// =============================================================================
+// Collapsed Results
+// =============================================================================
+
+/**
+ * One-line summary of a tool result: "Read 120 lines", "Found 4 files",
+ * "12 lines of output", or the first line of an error.
+ */
+export function summarizeToolResult(name: string, result: ToolUseResult): string {
+  if (typeof result === "string") {
+    return `Error: ${firstLine(result)}`;
+  }
+
+  const text = getResultText(result);
+  if (result.is_error) {
+    return `Error: ${firstLine(text)}`;
+  }
+  if (Array.isArray(result.filenames)) {
+    return `Found ${plural(result.filenames.length, "file")}`;
+  }
+
+  const lines = text ? text.replace(/\n+$/, "").split("\n").length : 0;
+  if (lines === 0) return "(No output)";
+  return name === "Read" ? `Read ${plural(lines, "line")}` : `${plural(lines, "line")} of output`;
+}
+
+/** Replace a result entry's output with a summary */
+function collapseResult(entry: UserMessage, summary: string): UserMessage {
+  const isError = typeof entry.toolUseResult === "string" || entry.toolUseResult?.is_error === true;
+  const content = entry.message.content;
+
+  return {
+    ...entry,
+    message: {
+      ...entry.message,
+      content: Array.isArray(content)
+        ? content.map((item): ContentItem =>
+            item.type === "tool_result" ? { ...item, content: summary } : item
+          )
+        : content,
+    },
+    toolUseResult: { content: summary, is_error: isError },
+  };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Text of a tool result, whichever field holds it */
+export function getToolResultText(result: ToolUseResult): string {
+  return typeof result === "string" ? result : getResultText(result);
+}
+
+/** Text of a structured tool result, whichever field holds it */
+function getResultText(result: Exclude<ToolUseResult, string>): string {
+  const content: unknown = result.content;
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((item: { text?: unknown }) => (typeof item.text === "string" ? item.text : ""))
+      .join("\n");
+  }
+  if (typeof result.file?.content === "string") return result.file.content;
+  if (typeof result.result === "string") return result.result;
+  return [result.stdout, result.stderr].filter((part) => part).join("\n");
+}
+
+function firstLine(text: string): string {
+  return text.trim().split("\n")[0] ?? "";
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${count === 1 ? noun : noun + "s"}`;
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { appendFile, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { getUuid } from "./loader.js";
+import { followTranscript } from "./follow.js";
+
+const __dirname = fileURLToPath(new URL(".", import.meta.url));
+const samplePath = join(__dirname, "__fixtures__", "sample-session.jsonl");
+
+describe("followTranscript", () => {
+  let dir: string;
+  let lines: string[];
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "cc-prism-follow-"));
+    lines = (await readFile(samplePath, "utf-8")).trim().split("\n");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("yields existing entries, then entries appended later", async () => {
+    const path = join(dir, "session.jsonl");
+    await writeFile(path, lines.slice(0, 2).join("\n") + "\n");
+
+    const uuids: string[] = [];
+    for await (const entry of followTranscript(path, { pollInterval: 10, idleTimeout: 200 })) {
+      uuids.push(getUuid(entry) ?? entry.type);
+      if (uuids.length === 2) {
+        await appendFile(path, lines.slice(2, 4).join("\n") + "\n");
+      }
+    }
+
+    expect(uuids).toEqual(["msg-001", "msg-002", "msg-003", "msg-004"]);
+  });
+
+  it("holds back a partially written line until it is complete", async () => {
+    const path = join(dir, "session.jsonl");
+    const line = lines[0]!;
+    await writeFile(path, line.slice(0, 40));
+
+    const uuids: string[] = [];
+    const pending = (async () => {
+      for await (const entry of followTranscript(path, { pollInterval: 10, idleTimeout: 200 })) {
+        uuids.push(getUuid(entry) ?? entry.type);
+      }
+    })();
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(uuids).toEqual([]);
+    await appendFile(path, line.slice(40) + "\n");
+    await pending;
+
+    expect(uuids).toEqual(["msg-001"]);
+  });
+
+  it("stops when the signal aborts", async () => {
+    const path = join(dir, "session.jsonl");
+    await writeFile(path, lines[0] + "\n");
+
+    const controller = new AbortController();
+    const uuids: string[] = [];
+    for await (const entry of followTranscript(path, { signal: controller.signal, pollInterval: 10 })) {
+      uuids.push(getUuid(entry) ?? entry.type);
+      setTimeout(() => controller.abort(), 20);
+    }
+
+    expect(uuids).toEqual(["msg-001"]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Follow mode - tail a transcript while Claude Code is still writing it
+ *
+ * Claude Code appends one JSON line per entry, so following is a matter of
+ * reading from the last offset whenever the file grows. Polling keeps this
+ * portable (fs.watch misses appends on some network and container mounts).
+ */
+
+import { open } from "node:fs/promises";
+import { StringDecoder } from "node:string_decoder";
+import { setTimeout as sleep } from "node:timers/promises";
+import type { TranscriptEntry } from "../types/messages.js";
+import { parseLine } from "./loader.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Options for following a transcript */
+export interface FollowTranscriptOptions {
+  /** Stop following when aborted */
+  signal?: AbortSignal;
+  /** How often to check for new lines, in milliseconds (default: 500) */
+  pollInterval?: number;
+  /** Stop after this long without new lines, in milliseconds (default: never) */
+  idleTimeout?: number;
+}
+
+export const DEFAULT_POLL_INTERVAL = 500;
+
+// =============================================================================
+// Following
+// =============================================================================
+
+/**
+ * Yield the entries already in a transcript, then each entry appended to it.
+ * Runs until the signal aborts or the idle timeout passes.
+ * A partially written last line is held back until its newline arrives.
+ */
+export async function* followTranscript(
+  filePath: string,
+  options: FollowTranscriptOptions = {}
+): AsyncGenerator<TranscriptEntry> {
+  const { signal, pollInterval = DEFAULT_POLL_INTERVAL, idleTimeout } = options;
+
+  const handle = await open(filePath, "r");
+  let decoder = new StringDecoder("utf-8");
+  let offset = 0;
+  let partial = "";
+  let idleSince = Date.now();
+
+  try {
+    while (!signal?.aborted) {
+      const { size } = await handle.stat();
+
+      // The file was truncated or replaced in place: start over
+      if (size < offset) {
+        decoder = new StringDecoder("utf-8");
+        offset = 0;
+        partial = "";
+      }
+
+      if (size > offset) {
+        const buffer = Buffer.alloc(size - offset);
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, offset);
+        offset += bytesRead;
+
+        const lines = (partial + decoder.write(buffer.subarray(0, bytesRead))).split("\n");
+        partial = lines.pop() ?? "";
+        for (const line of lines) {
+          const entry = parseLine(line);
+          if (entry) yield entry;
+        }
+
+        idleSince = Date.now();
+        continue;
+      }
+
+      if (idleTimeout !== undefined && Date.now() - idleSince >= idleTimeout) break;
+
+      try {
+        await sleep(pollInterval, undefined, { signal });
+      } catch {
+        // Aborted while waiting
+        break;
+      }
+    }
+  } finally {
+    await handle.close();
+  }
+}
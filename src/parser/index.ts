@@ -1,2 +1,13 @@
 export * from "./loader.js";
 export * from "./clip.js";
+export * from "./tree.js";
+export * from "./validate.js";
+export * from "./agents.js";
+export * from "./resume.js";
+export * from "./follow.js";
+export * from "./adapters.js";
+export * from "./codex.js";
+export * from "./redact.js";
+export * from "./filter.js";
+export * from "./stats.js";
+export * from "./search.js";
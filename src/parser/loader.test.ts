@@ -1,9 +1,17 @@
 import { describe, it, expect } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { fileURLToPath } from "node:url";
+import type { TranscriptEntry } from "../types/messages.js";
 import {
   parseLine,
+  readTranscriptRecords,
   loadTranscript,
+  streamTranscript,
+  interleaveToolCallsAndResults,
+  interleaveToolCallsAndResultsStream,
+  findToolOrphans,
   sortByTimestamp,
   getTimestamp,
   getUuid,
@@ -49,6 +57,31 @@ describe("parseLine", () => {
   });
 });
 
+describe("readTranscriptRecords", () => {
+  async function readRecords(content: string): Promise<unknown[]> {
+    const dir = await mkdtemp(join(tmpdir(), "cc-prism-records-"));
+    try {
+      const filePath = join(dir, "session.jsonl");
+      await writeFile(filePath, content);
+      const records: unknown[] = [];
+      for await (const record of readTranscriptRecords(filePath)) records.push(record);
+      return records;
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  it("reads pretty-printed JSON documents and arrays", async () => {
+    expect(await readRecords(JSON.stringify({ a: 1 }, null, 2))).toEqual([{ a: 1 }]);
+    expect(await readRecords(JSON.stringify([{ a: 1 }, { b: 2 }], null, 2))).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+
+  it("skips a malformed first line of a JSONL file", async () => {
+    expect(await readRecords('{"a": 1,\n{"b": 2}\n{"c": 3}\n')).toEqual([{ b: 2 }, { c: 3 }]);
+    expect(await readRecords('garbage\n{"b": 2}\n')).toEqual([{ b: 2 }]);
+  });
+});
+
 describe("loadTranscript", () => {
   it("loads a simple session file", async () => {
     const entries = await loadTranscript(join(fixturesDir, "sample-session.jsonl"));
@@ -83,6 +116,13 @@ describe("loadTranscript", () => {
     expect(agentEntries.length).toBeGreaterThan(0);
   });
 
+  it("tags agent entries with their agent ID", async () => {
+    const entries = await loadTranscript(join(fixturesDir, "with-agent-ref.jsonl"));
+
+    const tagged = entries.filter((e) => "agentId" in e && e.agentId === "12345678");
+    expect(tagged.map((e) => getUuid(e))).toEqual(["agent-msg-001", "agent-msg-002"]);
+  });
+
   it("can skip loading agent files", async () => {
     const entries = await loadTranscript(
       join(fixturesDir, "with-agent-ref.jsonl"),
@@ -94,6 +134,157 @@ describe("loadTranscript", () => {
   });
 });
 
+describe("streamTranscript", () => {
+  async function collect(source: AsyncIterable<TranscriptEntry>): Promise<TranscriptEntry[]> {
+    const entries: TranscriptEntry[] = [];
+    for await (const entry of source) {
+      entries.push(entry);
+    }
+    return entries;
+  }
+
+  it("yields the same entries as loadTranscript", async () => {
+    const path = join(fixturesDir, "sample-session.jsonl");
+    const loaded = await loadTranscript(path);
+    const streamed = await collect(streamTranscript(path));
+
+    expect(streamed).toEqual(loaded);
+  });
+
+  it("resolves agent files lazily and marks them as sidechain", async () => {
+    const path = join(fixturesDir, "with-agent-ref.jsonl");
+    const streamed = await collect(streamTranscript(path));
+
+    expect(streamed.length).toBe(6);
+    expect(getUuid(streamed[3]!)).toBe("agent-msg-001");
+    expect(streamed).toEqual(await loadTranscript(path));
+  });
+
+  it("can skip loading agent files", async () => {
+    const path = join(fixturesDir, "with-agent-ref.jsonl");
+    const streamed = await collect(streamTranscript(path, { loadAgents: false }));
+
+    expect(streamed.length).toBe(4);
+  });
+
+  it("rejects when the file does not exist", async () => {
+    const path = join(fixturesDir, "missing.jsonl");
+    await expect(collect(streamTranscript(path))).rejects.toThrow();
+  });
+});
+
+const toolCall = (uuid: string): TranscriptEntry => ({
+  type: "assistant",
+  timestamp: "2025-12-04T10:00:00.000Z",
+  sessionId: "s",
+  uuid,
+  parentUuid: null,
+  message: {
+    id: uuid,
+    type: "message",
+    role: "assistant",
+    model: "claude",
+    content: [{ type: "tool_use", id: `tool-${uuid}`, name: "Read", input: {} }],
+    stop_reason: "tool_use",
+  },
+});
+
+const toolResult = (uuid: string, toolUseId?: string): TranscriptEntry => ({
+  type: "user",
+  timestamp: "2025-12-04T10:00:01.000Z",
+  sessionId: "s",
+  uuid,
+  parentUuid: null,
+  userType: "external",
+  cwd: "/",
+  message: {
+    role: "user",
+    content: toolUseId ? [{ type: "tool_result", tool_use_id: toolUseId, content: "ok" }] : "",
+  },
+  toolUseResult: { content: "ok" },
+});
+
+describe("interleaveToolCallsAndResults", () => {
+  it("pairs results by position when they have no tool_use_id", () => {
+    const entries = [toolCall("c1"), toolCall("c2"), toolResult("r1"), toolResult("r2")];
+
+    expect(interleaveToolCallsAndResults(entries).map(getUuid)).toEqual(["c1", "r1", "c2", "r2"]);
+  });
+
+  it("pairs out-of-order results by tool_use_id", () => {
+    const entries = [
+      toolCall("c1"),
+      toolCall("c2"),
+      toolCall("c3"),
+      toolResult("r3", "tool-c3"),
+      toolResult("r1", "tool-c1"),
+      toolResult("r2", "tool-c2"),
+    ];
+
+    expect(interleaveToolCallsAndResults(entries).map(getUuid)).toEqual([
+      "c1", "r1", "c2", "r2", "c3", "r3",
+    ]);
+  });
+
+  it("keeps calls without results in place and moves unknown results after the run", () => {
+    const entries = [
+      toolCall("c1"),
+      toolCall("c2"),
+      toolResult("rx", "tool-unknown"),
+      toolResult("r2", "tool-c2"),
+    ];
+
+    expect(interleaveToolCallsAndResults(entries).map(getUuid)).toEqual(["c1", "c2", "r2", "rx"]);
+  });
+});
+
+describe("interleaveToolCallsAndResultsStream", () => {
+  it("matches the array implementation", async () => {
+    const entries = [
+      toolCall("c1"),
+      toolCall("c2"),
+      toolResult("r2", "tool-c2"),
+      toolResult("r1", "tool-c1"),
+      toolCall("c3"),
+      toolResult("r3"),
+    ];
+    async function* source() {
+      yield* entries;
+    }
+
+    const streamed: TranscriptEntry[] = [];
+    for await (const entry of interleaveToolCallsAndResultsStream(source())) {
+      streamed.push(entry);
+    }
+
+    expect(streamed.map(getUuid)).toEqual(interleaveToolCallsAndResults(entries).map(getUuid));
+    expect(streamed.map(getUuid)).toEqual(["c1", "r1", "c2", "r2", "c3", "r3"]);
+  });
+});
+
+describe("findToolOrphans", () => {
+  it("reports nothing for a fully paired session", async () => {
+    const entries = await loadTranscript(join(fixturesDir, "sample-session.jsonl"));
+
+    expect(findToolOrphans(entries)).toEqual({ orphanCalls: [], orphanResults: [] });
+  });
+
+  it("reports calls without results and results without calls", () => {
+    const entries = [
+      toolResult("r0"),
+      toolCall("c1"),
+      toolCall("c2"),
+      toolResult("r2", "tool-c2"),
+      toolResult("rx", "tool-unknown"),
+    ];
+
+    expect(findToolOrphans(entries)).toEqual({
+      orphanCalls: ["tool-c1"],
+      orphanResults: ["r0", "rx"],
+    });
+  });
+});
+
 describe("sortByTimestamp", () => {
   it("sorts entries by timestamp", async () => {
     const entries = await loadTranscript(join(fixturesDir, "sample-session.jsonl"));
@@ -2,9 +2,12 @@
  * JSONL file loader with agent file handling
  */
 
+import { createReadStream } from "node:fs";
 import { readFile } from "node:fs/promises";
-import { dirname, join } from "node:path";
-import type { TranscriptEntry } from "../types/messages.js";
+import { createInterface } from "node:readline";
+import type { TranscriptEntry, ToolUseContent } from "../types/messages.js";
+import { TranscriptValidationError, validateTranscript } from "./validate.js";
+import { DEFAULT_AGENT_RESOLVER, type AgentResolver } from "./agents.js";
 
 /** Parse a single JSONL line into a typed message */
 export function parseLine(line: string): TranscriptEntry | null {
@@ -20,58 +23,154 @@ export function parseLine(line: string): TranscriptEntry | null {
   }
 }
 
+/** Read the raw lines of a file (including blank ones, so line numbers hold) */
+export async function* readJsonlLines(filePath: string): AsyncGenerator<string> {
+  const input = createReadStream(filePath, { encoding: "utf-8" });
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  try {
+    yield* lines;
+  } finally {
+    lines.close();
+    input.destroy();
+  }
+}
+
+/** A JSON object read from a transcript file, before any normalization */
+export type TranscriptRecord = Record<string, unknown>;
+
+/**
+ * Read the JSON objects in a transcript file.
+ * JSONL files yield one record per line (malformed lines are skipped).
+ * A file holding a single JSON document yields the document, or the
+ * elements of a top-level array.
+ */
+export async function* readTranscriptRecords(filePath: string): AsyncGenerator<TranscriptRecord> {
+  let first = true;
+
+  for await (const line of readJsonlLines(filePath)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      // A pretty-printed JSON document does not parse line by line. If the
+      // whole file doesn't parse either, the first line is just malformed.
+      if (first && (trimmed.startsWith("{") || trimmed.startsWith("["))) {
+        const document = await readJsonDocument(filePath);
+        if (document) {
+          yield* document;
+          return;
+        }
+      }
+      first = false;
+      continue;
+    }
+
+    first = false;
+    if (isRecord(parsed)) yield parsed;
+  }
+}
+
+/** The records of a file holding a single JSON document, or null if it isn't one */
+async function readJsonDocument(filePath: string): Promise<TranscriptRecord[] | null> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(filePath, "utf-8"));
+  } catch {
+    return null;
+  }
+
+  if (Array.isArray(parsed)) return parsed.filter(isRecord);
+  return isRecord(parsed) ? [parsed] : [];
+}
+
+function isRecord(value: unknown): value is TranscriptRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read a JSONL file line by line, yielding parsed entries.
+ * Avoids holding the raw file contents in memory.
+ */
+export async function* readTranscriptLines(
+  filePath: string
+): AsyncGenerator<TranscriptEntry> {
+  for await (const line of readJsonlLines(filePath)) {
+    const entry = parseLine(line);
+    if (entry) {
+      yield entry;
+    }
+  }
+}
+
 /** Load and parse a JSONL transcript file */
 export async function loadTranscript(
   filePath: string,
   options: {
     loadAgents?: boolean;
     agentCache?: Map<string, TranscriptEntry[]>;
+    /** Locate agent transcripts (default: flat and nested layouts) */
+    agentResolver?: AgentResolver;
+    /** Called for each referenced agent whose transcript cannot be found */
+    onMissingAgent?: (agentId: string) => void;
+    /** Validate first and throw a TranscriptValidationError on any problem */
+    strict?: boolean;
   } = {}
 ): Promise<TranscriptEntry[]> {
-  const { loadAgents = true, agentCache = new Map() } = options;
+  const {
+    loadAgents = true,
+    agentCache = new Map(),
+    agentResolver = DEFAULT_AGENT_RESOLVER,
+  } = options;
+
+  if (options.strict) {
+    const report = await validateTranscript(filePath, {
+      checkAgents: loadAgents,
+      agentResolver,
+    });
+    if (report.issues.length > 0) {
+      throw new TranscriptValidationError(report);
+    }
+  }
 
-  const content = await readFile(filePath, "utf-8");
-  const lines = content.split("\n");
   const entries: TranscriptEntry[] = [];
 
-  for (const line of lines) {
-    const entry = parseLine(line);
-    if (entry) {
-      entries.push(entry);
-
-      // Check for agent references in tool results
-      if (
-        loadAgents &&
-        entry.type === "user" &&
-        entry.toolUseResult &&
-        typeof entry.toolUseResult !== "string" &&
-        entry.toolUseResult.agentId
-      ) {
-        const agentId = entry.toolUseResult.agentId;
-
-        // Check cache first
-        if (!agentCache.has(agentId)) {
-          const agentPath = join(dirname(filePath), `agent-${agentId}.jsonl`);
+  for await (const entry of readTranscriptLines(filePath)) {
+    entries.push(entry);
+
+    // Check for agent references in tool results
+    const agentId = loadAgents ? getAgentId(entry) : null;
+    if (agentId) {
+      // Check cache first
+      if (!agentCache.has(agentId)) {
+        const agentPath = await agentResolver(agentId, filePath);
+        let agentEntries: TranscriptEntry[] | null = null;
+        if (agentPath) {
           try {
-            const agentEntries = await loadTranscript(agentPath, {
+            agentEntries = await loadTranscript(agentPath, {
               loadAgents: true,
               agentCache,
+              agentResolver,
+              onMissingAgent: options.onMissingAgent,
             });
-            agentCache.set(agentId, agentEntries);
           } catch {
-            // Agent file may not exist or be inaccessible
-            agentCache.set(agentId, []);
+            // Agent file may be inaccessible
           }
         }
-
-        // Mark agent entries as sidechain and insert after parent
-        const agentEntries = agentCache.get(agentId) ?? [];
-        for (const agentEntry of agentEntries) {
-          if ("isSidechain" in agentEntry) {
-            (agentEntry as { isSidechain: boolean }).isSidechain = true;
-          }
-          entries.push(agentEntry);
+        if (!agentEntries) {
+          options.onMissingAgent?.(agentId);
         }
+        agentCache.set(agentId, agentEntries ?? []);
+      }
+
+      // Mark agent entries as sidechain and insert after parent
+      const agentEntries = agentCache.get(agentId) ?? [];
+      for (const agentEntry of agentEntries) {
+        markAgentEntry(agentEntry, agentId);
+        entries.push(agentEntry);
       }
     }
   }
@@ -80,6 +179,86 @@ export async function loadTranscript(
   return interleaveToolCallsAndResults(entries);
 }
 
+/** Options for streaming a transcript */
+export interface StreamTranscriptOptions {
+  /** Resolve agent-{agentId}.jsonl files referenced by tool results (default: true) */
+  loadAgents?: boolean;
+  /** Locate agent transcripts (default: flat and nested layouts) */
+  agentResolver?: AgentResolver;
+  /** Called for each referenced agent whose transcript cannot be found */
+  onMissingAgent?: (agentId: string) => void;
+}
+
+/**
+ * Stream a JSONL transcript, yielding entries as lines are read.
+ *
+ * Produces the same sequence as `loadTranscript` without holding the
+ * transcript in memory: agent files are opened lazily when a tool result
+ * references them, and only the current run of tool calls/results is
+ * buffered for interleaving.
+ */
+export async function* streamTranscript(
+  filePath: string,
+  options: StreamTranscriptOptions = {}
+): AsyncGenerator<TranscriptEntry> {
+  yield* interleaveToolCallsAndResultsStream(streamWithAgents(filePath, options));
+}
+
+/** Yield entries from a file, splicing in referenced agent transcripts */
+async function* streamWithAgents(
+  filePath: string,
+  options: StreamTranscriptOptions
+): AsyncGenerator<TranscriptEntry> {
+  const { loadAgents = true, agentResolver = DEFAULT_AGENT_RESOLVER } = options;
+
+  for await (const entry of readTranscriptLines(filePath)) {
+    yield entry;
+
+    const agentId = loadAgents ? getAgentId(entry) : null;
+    if (!agentId) continue;
+
+    const agentPath = await agentResolver(agentId, filePath);
+    if (!agentPath) {
+      options.onMissingAgent?.(agentId);
+      continue;
+    }
+
+    try {
+      for await (const agentEntry of streamTranscript(agentPath, options)) {
+        markAgentEntry(agentEntry, agentId);
+        yield agentEntry;
+      }
+    } catch {
+      // Agent file may be inaccessible
+      options.onMissingAgent?.(agentId);
+    }
+  }
+}
+
+/** Get the agent ID referenced by a tool result (if any) */
+export function getAgentId(entry: TranscriptEntry): string | null {
+  if (
+    entry.type === "user" &&
+    entry.toolUseResult &&
+    typeof entry.toolUseResult !== "string" &&
+    entry.toolUseResult.agentId
+  ) {
+    return entry.toolUseResult.agentId;
+  }
+  return null;
+}
+
+/** Mark an agent entry as part of a sidechain, tagged with the agent that wrote it */
+function markAgentEntry(entry: TranscriptEntry, agentId: string): void {
+  if ("isSidechain" in entry) {
+    (entry as { isSidechain: boolean }).isSidechain = true;
+  }
+  // Entries of nested agents keep their own agent ID
+  if ("uuid" in entry && !("agentId" in entry && entry.agentId)) {
+    (entry as { agentId?: string }).agentId = agentId;
+  }
+}
+
 /** Sort entries chronologically by timestamp */
 export function sortByTimestamp(entries: TranscriptEntry[]): TranscriptEntry[] {
   return [...entries].sort((a, b) => {
@@ -123,6 +302,30 @@ function isToolResultMessage(entry: TranscriptEntry): boolean {
   return entry.toolUseResult !== undefined;
 }
 
+/** Get the tool_use IDs of the calls in an assistant message */
+export function getToolCallIds(entry: TranscriptEntry): string[] {
+  if (entry.type !== "assistant" || !Array.isArray(entry.message?.content)) {
+    return [];
+  }
+  return entry.message.content
+    .filter((item): item is ToolUseContent => item.type === "tool_use")
+    .map((item) => item.id);
+}
+
+/** Get the tool_use IDs a tool result message answers */
+export function getToolResultIds(entry: TranscriptEntry): string[] {
+  if (entry.type !== "user" || !Array.isArray(entry.message?.content)) {
+    return [];
+  }
+  const ids: string[] = [];
+  for (const item of entry.message.content) {
+    if (item.type === "tool_result" && item.tool_use_id) {
+      ids.push(item.tool_use_id);
+    }
+  }
+  return ids;
+}
+
 /**
  * Interleave parallel tool calls with their results.
  *
@@ -134,7 +337,9 @@ function isToolResultMessage(entry: TranscriptEntry): boolean {
  *
  * Detection: consecutive assistant messages with tool_use content,
  * followed by consecutive user messages with toolUseResult.
- * The results match calls by position (first result → first call, etc).
+ * Results are matched to calls by the `tool_use_id` in their content, so
+ * out-of-order results land under the right call. Results without an ID
+ * fall back to position; results matching no call follow the run.
  */
 export function interleaveToolCallsAndResults(
   entries: TranscriptEntry[]
@@ -157,29 +362,7 @@ export function interleaveToolCallsAndResults(
       i++;
     }
 
-    // Interleave if we have matching calls and results
-    if (toolCalls.length > 0 && toolResults.length > 0) {
-      const maxPairs = Math.min(toolCalls.length, toolResults.length);
-      for (let j = 0; j < maxPairs; j++) {
-        result.push(toolCalls[j]!);
-        result.push(toolResults[j]!);
-      }
-      // Add any remaining unmatched entries
-      for (let j = maxPairs; j < toolCalls.length; j++) {
-        result.push(toolCalls[j]!);
-      }
-      for (let j = maxPairs; j < toolResults.length; j++) {
-        result.push(toolResults[j]!);
-      }
-    } else {
-      // No interleaving needed, add as-is
-      for (const call of toolCalls) {
-        result.push(call);
-      }
-      for (const res of toolResults) {
-        result.push(res);
-      }
-    }
+    result.push(...pairToolRun(toolCalls, toolResults));
 
     // If we didn't collect any tool calls or results, add the current entry
     if (toolCalls.length === 0 && toolResults.length === 0 && i < entries.length) {
@@ -190,3 +373,169 @@ export function interleaveToolCallsAndResults(
 
   return result;
 }
+
+/**
+ * Streaming variant of `interleaveToolCallsAndResults`.
+ * Buffers only the current run of tool calls and results.
+ */
+export async function* interleaveToolCallsAndResultsStream(
+  entries: AsyncIterable<TranscriptEntry>
+): AsyncGenerator<TranscriptEntry> {
+  let toolCalls: TranscriptEntry[] = [];
+  let toolResults: TranscriptEntry[] = [];
+
+  for await (const entry of entries) {
+    if (isToolCallMessage(entry)) {
+      // A call after results starts a new run
+      if (toolResults.length > 0) {
+        yield* pairToolRun(toolCalls, toolResults);
+        toolCalls = [];
+        toolResults = [];
+      }
+      toolCalls.push(entry);
+    } else if (isToolResultMessage(entry)) {
+      toolResults.push(entry);
+    } else {
+      yield* pairToolRun(toolCalls, toolResults);
+      toolCalls = [];
+      toolResults = [];
+      yield entry;
+    }
+  }
+
+  yield* pairToolRun(toolCalls, toolResults);
+}
+
+/** Order a run of consecutive tool calls followed by their results */
+function pairToolRun(
+  toolCalls: TranscriptEntry[],
+  toolResults: TranscriptEntry[]
+): TranscriptEntry[] {
+  // No interleaving needed, add as-is
+  if (toolCalls.length === 0 || toolResults.length === 0) {
+    return [...toolCalls, ...toolResults];
+  }
+
+  const callsById = new Map<string, TranscriptEntry>();
+  for (const call of toolCalls) {
+    for (const id of getToolCallIds(call)) {
+      callsById.set(id, call);
+    }
+  }
+
+  // Match results to calls by tool_use_id
+  const resultsByCall = new Map<TranscriptEntry, TranscriptEntry[]>();
+  const withoutId: TranscriptEntry[] = [];
+  const orphans: TranscriptEntry[] = [];
+  for (const res of toolResults) {
+    const ids = getToolResultIds(res);
+    if (ids.length === 0) {
+      withoutId.push(res);
+      continue;
+    }
+    const call = ids.map((id) => callsById.get(id)).find((c) => c !== undefined);
+    if (call) {
+      resultsByCall.set(call, [...(resultsByCall.get(call) ?? []), res]);
+    } else {
+      orphans.push(res);
+    }
+  }
+
+  // Results without an ID pair with the remaining calls by position
+  const openCalls = toolCalls.filter((call) => !resultsByCall.has(call));
+  withoutId.forEach((res, j) => {
+    const call = openCalls[j];
+    if (call) {
+      resultsByCall.set(call, [res]);
+    } else {
+      orphans.push(res);
+    }
+  });
+
+  const result: TranscriptEntry[] = [];
+  for (const call of toolCalls) {
+    result.push(call, ...(resultsByCall.get(call) ?? []));
+  }
+  // Results with no matching call in this run stay after it
+  result.push(...orphans);
+  return result;
+}
+
+// =============================================================================
+// Tool Pairing Report
+// =============================================================================
+
+/** Tool calls and results that could not be paired */
+export interface ToolOrphanReport {
+  /** tool_use IDs of calls that never received a result */
+  orphanCalls: string[];
+  /** UUIDs of tool result messages that match no call */
+  orphanResults: string[];
+}
+
+/**
+ * Tracks tool call/result pairing across a transcript, one entry at a time.
+ *
+ * Results are matched by `tool_use_id`; results without an ID claim the
+ * oldest unanswered call, mirroring the interleaving fallback.
+ */
+export class ToolPairingTracker {
+  private pendingCalls: string[] = [];
+  private seenCalls = new Set<string>();
+  private unmatchedResults = new Map<string, string[]>();
+  private orphanResults: string[] = [];
+
+  /** Record an entry */
+  add(entry: TranscriptEntry): void {
+    for (const id of getToolCallIds(entry)) {
+      this.seenCalls.add(id);
+      // A result may precede its call in the file
+      if (this.unmatchedResults.delete(id)) continue;
+      this.pendingCalls.push(id);
+    }
+
+    if (!isToolResultMessage(entry)) return;
+    const uuid = getUuid(entry) ?? "";
+    const ids = getToolResultIds(entry);
+
+    if (ids.length === 0) {
+      const claimed = this.pendingCalls.shift();
+      if (claimed === undefined) {
+        this.orphanResults.push(uuid);
+      }
+      return;
+    }
+
+    for (const id of ids) {
+      const index = this.pendingCalls.indexOf(id);
+      if (index !== -1) {
+        this.pendingCalls.splice(index, 1);
+      } else if (!this.seenCalls.has(id)) {
+        this.unmatchedResults.set(id, [...(this.unmatchedResults.get(id) ?? []), uuid]);
+      }
+    }
+  }
+
+  /** Get the calls and results that remain unpaired */
+  report(): ToolOrphanReport {
+    const orphanResults = [...this.orphanResults];
+    for (const uuids of this.unmatchedResults.values()) {
+      for (const uuid of uuids) {
+        if (!orphanResults.includes(uuid)) orphanResults.push(uuid);
+      }
+    }
+    return {
+      orphanCalls: [...this.pendingCalls],
+      orphanResults,
+    };
+  }
+}
+
+/** Find tool calls without results and results without calls */
+export function findToolOrphans(entries: TranscriptEntry[]): ToolOrphanReport {
+  const tracker = new ToolPairingTracker();
+  for (const entry of entries) {
+    tracker.add(entry);
+  }
+  return tracker.report();
+}
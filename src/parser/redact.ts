@@ -0,0 +1,313 @@
+/**
+ * Redaction - scrub secrets and personal paths from entries before rendering
+ *
+ * Every string in an entry is checked (text, thinking, tool inputs, tool
+ * results, Edit patches, summaries), so everything derived from it, such as
+ * marker labels, is scrubbed too. Ids, timestamps and other structural fields
+ * are left alone so clipping and pairing still work.
+ */
+
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import type { TranscriptEntry } from "../types/messages.js";
+import { getUuid } from "./loader.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A pattern whose matches are replaced */
+export interface RedactionRule {
+  /** Rule name, shown in the replacement and the report */
+  name: string;
+  /** Global pattern to search for */
+  pattern: RegExp;
+  /** Replacement text (default: [REDACTED:<name>]) */
+  replacement?: string;
+  /** Only replace this capture group, keeping the rest of the match */
+  group?: number;
+  /** Extra check on the matched secret; false keeps the match */
+  test?: (secret: string) => boolean;
+}
+
+/** A value that was redacted */
+export interface Redaction {
+  /** UUID of the entry (or its type when it has none) */
+  uuid: string;
+  /** Where in the entry the value was, e.g. message.content[1].input.command */
+  path: string;
+  /** Name of the rule that matched */
+  rule: string;
+  /** The original text that was replaced */
+  match: string;
+}
+
+/** Custom rule as written in a redaction config file */
+export interface CustomRedactionRule {
+  name: string;
+  pattern: string;
+  flags?: string;
+  replacement?: string;
+  group?: number;
+}
+
+/** Redaction config file contents */
+export interface RedactionConfig {
+  /** Extra rules, applied before the built-in ones */
+  rules?: CustomRedactionRule[];
+  /** Names of built-in rules to turn off (e.g. "high-entropy") */
+  disable?: string[];
+}
+
+/** Fields that identify or order entries rather than hold content */
+const STRUCTURAL_KEYS = new Set([
+  "type",
+  "uuid",
+  "parentUuid",
+  "logicalParentUuid",
+  "leafUuid",
+  "sessionId",
+  "timestamp",
+  "id",
+  "tool_use_id",
+  "requestId",
+  "agentId",
+  "role",
+  "model",
+  "stop_reason",
+  "subtype",
+  "level",
+  "userType",
+  "operation",
+]);
+
+/** Minimum Shannon entropy (bits per character) for the high-entropy rule */
+const MIN_ENTROPY = 4.0;
+
+// =============================================================================
+// Built-in Rules
+// =============================================================================
+
+/** Built-in rules for common secret formats, in the order they are applied */
+export const BUILTIN_REDACTION_RULES: RedactionRule[] = [
+  {
+    name: "private-key",
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  { name: "anthropic-key", pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: "openai-key", pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+  { name: "github-token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g },
+  { name: "aws-access-key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: "slack-token", pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { name: "google-api-key", pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  { name: "stripe-key", pattern: /\b[rs]k_(?:live|test)_[0-9A-Za-z]{16,}/g },
+  { name: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  { name: "bearer-token", pattern: /\b(Bearer\s+)([A-Za-z0-9._~+/-]{16,}=*)/g, group: 2 },
+  {
+    name: "url-credentials",
+    pattern: /\b([a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:)([^\s@/]+)(@)/gi,
+    group: 2,
+  },
+  {
+    // KEY=value and key: value pairs, as in .env files and configs
+    name: "secret-assignment",
+    pattern:
+      /\b([A-Za-z0-9_.-]*(?:secret|token|passw(?:or)?d|api[_-]?key|access[_-]?key|private[_-]?key|credentials?)[A-Za-z0-9_.-]*)(["']?[ \t]*[=:][ \t]*["']?)([^\s"',;[\]{}]{6,})/gi,
+    group: 3,
+    test: isLikelySecretValue,
+  },
+  {
+    name: "high-entropy",
+    pattern: /(?<![A-Za-z0-9+_-])[A-Za-z0-9+_-]{24,}={0,2}/g,
+    test: isHighEntropy,
+  },
+];
+
+/** Rule replacing the user's home directory (and other users' homes) with ~ */
+export function createHomePathRule(home: string = homedir()): RedactionRule {
+  const homes = [escapeRegExp(home), String.raw`/(?:home|Users)/[A-Za-z0-9._-]+`, String.raw`[A-Za-z]:\\Users\\[^\\\s]+`];
+  return {
+    name: "home-path",
+    pattern: new RegExp(`(?<![\\w.-])(?:${homes.join("|")})(?![\\w.-])`, "g"),
+    replacement: "~",
+  };
+}
+
+/**
+ * Build the rule list for a config: custom rules first, then the built-in
+ * rules that are not disabled. Throws on an invalid custom pattern.
+ */
+export function createRedactionRules(
+  config: RedactionConfig = {},
+  home: string = homedir()
+): RedactionRule[] {
+  const disabled = new Set(config.disable ?? []);
+  const custom = (config.rules ?? []).map((rule): RedactionRule => {
+    let pattern: RegExp;
+    try {
+      const flags = rule.flags ?? "";
+      pattern = new RegExp(rule.pattern, flags.includes("g") ? flags : flags + "g");
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid pattern for redaction rule "${rule.name}": ${reason}`);
+    }
+    return { name: rule.name, pattern, replacement: rule.replacement, group: rule.group };
+  });
+
+  const builtin = [...BUILTIN_REDACTION_RULES, createHomePathRule(home)];
+  return [...custom, ...builtin.filter((rule) => !disabled.has(rule.name))];
+}
+
+/** Read a redaction config file (JSON) */
+export async function loadRedactionConfig(filePath: string): Promise<RedactionConfig> {
+  const content = await readFile(filePath, "utf-8");
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error(`Redaction config is not valid JSON: ${filePath}`);
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Redaction config must be a JSON object: ${filePath}`);
+  }
+  const config = parsed as RedactionConfig;
+  for (const rule of config.rules ?? []) {
+    if (typeof rule.name !== "string" || typeof rule.pattern !== "string") {
+      throw new Error(`Redaction rules need a "name" and a "pattern": ${filePath}`);
+    }
+  }
+  return config;
+}
+
+// =============================================================================
+// Redactor
+// =============================================================================
+
+/**
+ * Applies redaction rules to entries, recording every replacement.
+ * Entries are copied; the originals are not modified.
+ */
+export class Redactor {
+  private rules: RedactionRule[];
+  /** Every redaction made so far, in order */
+  readonly redactions: Redaction[] = [];
+
+  constructor(rules: RedactionRule[] = createRedactionRules()) {
+    this.rules = rules;
+  }
+
+  /** Redact a list of entries */
+  redactEntries(entries: TranscriptEntry[]): TranscriptEntry[] {
+    return entries.map((entry) => this.redactEntry(entry));
+  }
+
+  /** Redact one entry */
+  redactEntry(entry: TranscriptEntry): TranscriptEntry {
+    const uuid = getUuid(entry) ?? entry.type;
+    return this.redactValue(entry, uuid, "") as TranscriptEntry;
+  }
+
+  /** Redact a string found at `path` in the entry `uuid` */
+  redactText(text: string, uuid: string, path: string): string {
+    let result = text;
+    for (const rule of this.rules) {
+      rule.pattern.lastIndex = 0;
+      result = result.replace(rule.pattern, (match: string, ...groups: unknown[]) => {
+        const secret = rule.group !== undefined ? groups[rule.group - 1] : match;
+        if (typeof secret !== "string" || !secret || (rule.test && !rule.test(secret))) {
+          return match;
+        }
+
+        this.redactions.push({ uuid, path, rule: rule.name, match: secret });
+        const replacement = rule.replacement ?? `[REDACTED:${rule.name}]`;
+        if (secret === match) return replacement;
+        const at = match.lastIndexOf(secret);
+        return match.slice(0, at) + replacement + match.slice(at + secret.length);
+      });
+    }
+    return result;
+  }
+
+  private redactValue(value: unknown, uuid: string, path: string): unknown {
+    if (typeof value === "string") {
+      return this.redactText(value, uuid, path);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, i) => this.redactValue(item, uuid, `${path}[${i}]`));
+    }
+    if (typeof value !== "object" || value === null) {
+      return value;
+    }
+
+    // Image data is base64, not text
+    const record = value as Record<string, unknown>;
+    if (record["type"] === "image") {
+      return value;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(record)) {
+      result[key] = STRUCTURAL_KEYS.has(key)
+        ? item
+        : this.redactValue(item, uuid, path ? `${path}.${key}` : key);
+    }
+    return result;
+  }
+}
+
+/** Redact entries as they stream past */
+export async function* redactTranscript(
+  entries: AsyncIterable<TranscriptEntry>,
+  redactor: Redactor
+): AsyncGenerator<TranscriptEntry> {
+  for await (const entry of entries) {
+    yield redactor.redactEntry(entry);
+  }
+}
+
+/** Show the start of a redacted value without revealing it */
+export function maskSecret(secret: string): string {
+  const shown = secret.length > 12 ? secret.slice(0, 4) : "";
+  return `${shown}…(${secret.length} chars)`;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Shannon entropy in bits per character */
+export function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/** Random-looking tokens mix upper case, lower case and digits */
+function isHighEntropy(candidate: string): boolean {
+  return (
+    /[A-Z]/.test(candidate) &&
+    /[a-z]/.test(candidate) &&
+    /[0-9]/.test(candidate) &&
+    shannonEntropy(candidate) >= MIN_ENTROPY
+  );
+}
+
+/** Skip numbers, booleans and code expressions on the right of an assignment */
+function isLikelySecretValue(value: string): boolean {
+  if (/^[\d.]+$/.test(value)) return false;
+  if (/^(?:true|false|null|undefined|none)$/i.test(value)) return false;
+  if (/[()]/.test(value) || /^(?:\$|process\.env|os\.environ|env\.)/.test(value)) return false;
+  return !value.startsWith("[REDACTED:");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { TranscriptEntry } from "../types/messages.js";
+import { SESSION_RESUMED_SUBTYPE } from "../types/messages.js";
+import { getUuid } from "./loader.js";
+import {
+  scanSessionFile,
+  isResumedFrom,
+  findResumeChain,
+  sortSessionFiles,
+  streamSessionChain,
+} from "./resume.js";
+import { streamBranch } from "./tree.js";
+
+const __dirname = fileURLToPath(new URL(".", import.meta.url));
+const resumedDir = join(__dirname, "__fixtures__", "resumed");
+const sessA = join(resumedDir, "sess-a.jsonl");
+const sessB = join(resumedDir, "sess-b.jsonl");
+const sessC = join(resumedDir, "sess-c.jsonl");
+const unrelated = join(resumedDir, "unrelated.jsonl");
+
+async function collect(source: AsyncIterable<TranscriptEntry>): Promise<TranscriptEntry[]> {
+  const entries: TranscriptEntry[] = [];
+  for await (const entry of source) {
+    entries.push(entry);
+  }
+  return entries;
+}
+
+/** UUIDs, with dividers shown as "resumed" and other id-less entries by type */
+function describeEntries(entries: TranscriptEntry[]): string[] {
+  return entries.map((e) =>
+    e.type === "system" && e.subtype === SESSION_RESUMED_SUBTYPE ? "resumed" : (getUuid(e) ?? e.type)
+  );
+}
+
+describe("scanSessionFile", () => {
+  it("collects only references that leave the file", async () => {
+    const links = await scanSessionFile(sessB);
+
+    expect(links.sessionId).toBe("sess-b");
+    expect([...links.sessionIds]).toEqual(["sess-a", "sess-b"]);
+    expect([...links.references]).toEqual([]);
+    expect(links.startTime).toBe(Date.parse("2025-12-04T10:00:00.000Z"));
+  });
+});
+
+describe("isResumedFrom", () => {
+  it("links files by sessionId and summary leafUuid", async () => {
+    const [a, b, c] = await Promise.all([sessA, sessB, sessC].map(scanSessionFile));
+
+    expect(isResumedFrom(b!, a!)).toBe(true); // copied sess-a entries
+    expect(isResumedFrom(c!, b!)).toBe(true); // summary leafUuid
+    expect(isResumedFrom(a!, b!)).toBe(false);
+    expect(isResumedFrom(c!, a!)).toBe(false);
+  });
+});
+
+describe("findResumeChain", () => {
+  it("finds the whole chain from any file in it", async () => {
+    expect(await findResumeChain(sessA)).toEqual([sessA, sessB, sessC]);
+    expect(await findResumeChain(sessB)).toEqual([sessA, sessB, sessC]);
+    expect(await findResumeChain(sessC)).toEqual([sessA, sessB, sessC]);
+  });
+
+  it("returns just the file when nothing is linked", async () => {
+    expect(await findResumeChain(unrelated)).toEqual([unrelated]);
+  });
+});
+
+describe("sortSessionFiles", () => {
+  it("orders files by their first timestamp", async () => {
+    expect(await sortSessionFiles([sessC, unrelated, sessA])).toEqual([sessA, sessC, unrelated]);
+  });
+});
+
+describe("streamSessionChain", () => {
+  it("yields copied messages once, with a divider before each resumed file", async () => {
+    const entries = await collect(streamSessionChain([sessA, sessB, sessC]));
+
+    expect(describeEntries(entries)).toEqual([
+      "r-001", "r-002",
+      "resumed", "summary", "r-003", "r-004",
+      "resumed", "summary", "r-005", "r-006",
+    ]);
+  });
+
+  it("omits dividers when disabled", async () => {
+    const entries = await collect(streamSessionChain([sessA, sessB], { dividers: false }));
+
+    expect(describeEntries(entries)).toEqual(["r-001", "r-002", "summary", "r-003", "r-004"]);
+  });
+});
+
+describe("streamBranch across resumed files", () => {
+  it("continues a resumed file's roots from the previous leaf", async () => {
+    const entries = await collect(streamBranch([sessA, sessB, sessC]));
+
+    expect(describeEntries(entries).filter((d) => d.startsWith("r-"))).toEqual([
+      "r-001", "r-002", "r-003", "r-004", "r-005", "r-006",
+    ]);
+  });
+});
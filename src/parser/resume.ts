@@ -0,0 +1,244 @@
+/**
+ * Resumed sessions - stitch `claude --continue` / `--resume` files together
+ *
+ * A resumed conversation continues in a new JSONL file. The new file links
+ * back to the previous one through summary `leafUuid`s, entries carrying the
+ * previous `sessionId`, or `parentUuid`s that point into the previous file.
+ */
+
+import { readdir } from "node:fs/promises";
+import { basename, dirname, join, resolve } from "node:path";
+import type { SystemMessage, TranscriptEntry } from "../types/messages.js";
+import { SESSION_RESUMED_SUBTYPE } from "../types/messages.js";
+import {
+  getTimestamp,
+  getUuid,
+  readTranscriptLines,
+  streamTranscript,
+  type StreamTranscriptOptions,
+} from "./loader.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Cross-file link information for a session file (ids only) */
+export interface SessionFileLinks {
+  path: string;
+  /** Session ID, taken from the file name */
+  sessionId: string;
+  /** UUIDs of the messages in the file */
+  uuids: Set<string>;
+  /** Session IDs found on the file's entries */
+  sessionIds: Set<string>;
+  /** UUIDs referenced by parent links or summaries but not defined in the file */
+  references: Set<string>;
+  /** Earliest entry timestamp in milliseconds (0 when unknown) */
+  startTime: number;
+}
+
+/** Options for streaming a chain of session files */
+export interface StreamSessionChainOptions extends StreamTranscriptOptions {
+  /** Insert a "session resumed" divider between files (default: true) */
+  dividers?: boolean;
+}
+
+// =============================================================================
+// Chain Discovery
+// =============================================================================
+
+/** Scan a session file for the ids that link it to other files */
+export async function scanSessionFile(filePath: string): Promise<SessionFileLinks> {
+  const links: SessionFileLinks = {
+    path: filePath,
+    sessionId: basename(filePath, ".jsonl"),
+    uuids: new Set(),
+    sessionIds: new Set(),
+    references: new Set(),
+    startTime: 0,
+  };
+
+  for await (const entry of readTranscriptLines(filePath)) {
+    const uuid = getUuid(entry);
+    if (uuid) links.uuids.add(uuid);
+
+    if ("sessionId" in entry && typeof entry.sessionId === "string") {
+      links.sessionIds.add(entry.sessionId);
+    }
+
+    for (const ref of getReferences(entry)) {
+      links.references.add(ref);
+    }
+
+    const time = getTimestamp(entry)?.getTime();
+    if (time !== undefined && !Number.isNaN(time) && (links.startTime === 0 || time < links.startTime)) {
+      links.startTime = time;
+    }
+  }
+
+  // Only references that leave the file are links
+  for (const uuid of links.uuids) {
+    links.references.delete(uuid);
+  }
+
+  return links;
+}
+
+/** Check whether `next` continues the conversation of `previous` */
+export function isResumedFrom(next: SessionFileLinks, previous: SessionFileLinks): boolean {
+  if (next.path === previous.path) return false;
+  if (next.sessionIds.has(previous.sessionId)) return true;
+
+  for (const ref of next.references) {
+    if (previous.uuids.has(ref)) return true;
+  }
+  return false;
+}
+
+/**
+ * Find the chain of resumed sessions a file belongs to, oldest first.
+ * Looks at the other session files in the same directory.
+ */
+export async function findResumeChain(filePath: string): Promise<string[]> {
+  const target = resolve(filePath);
+  const dir = dirname(target);
+
+  const files: SessionFileLinks[] = [];
+  for (const name of await readdir(dir)) {
+    if (!name.endsWith(".jsonl") || name.startsWith("agent-")) continue;
+    files.push(await scanSessionFile(join(dir, name)));
+  }
+
+  let current = files.find((file) => file.path === target) ?? (await scanSessionFile(target));
+  const chain = [current];
+  const seen = new Set([current.path]);
+
+  // Walk back to the original session, preferring the most recent predecessor
+  for (;;) {
+    const previous = latest(
+      files.filter((file) => !seen.has(file.path) && isResumedFrom(current, file))
+    );
+    if (!previous) break;
+    chain.unshift(previous);
+    seen.add(previous.path);
+    current = previous;
+  }
+
+  // Walk forward to the latest continuation, preferring the earliest successor
+  current = chain[chain.length - 1]!;
+  for (;;) {
+    const next = earliest(
+      files.filter((file) => !seen.has(file.path) && isResumedFrom(file, current))
+    );
+    if (!next) break;
+    chain.push(next);
+    seen.add(next.path);
+    current = next;
+  }
+
+  return chain.map((file) => file.path);
+}
+
+/** Order session files by their first timestamp */
+export async function sortSessionFiles(filePaths: string[]): Promise<string[]> {
+  const files: SessionFileLinks[] = [];
+  for (const filePath of filePaths) {
+    files.push(await scanSessionFile(filePath));
+  }
+  return files.sort((a, b) => a.startTime - b.startTime).map((file) => file.path);
+}
+
+// =============================================================================
+// Streaming
+// =============================================================================
+
+/**
+ * Stream several session files as one transcript.
+ * Messages copied into a resumed file are yielded only once.
+ */
+export async function* streamSessionChain(
+  filePaths: string[],
+  options: StreamSessionChainOptions = {}
+): AsyncGenerator<TranscriptEntry> {
+  const { dividers = true, ...streamOptions } = options;
+  const seen = new Set<string>();
+
+  for (const [index, filePath] of filePaths.entries()) {
+    // Entries held back until the divider can take the first timestamp
+    let pending: TranscriptEntry[] | null = index > 0 && dividers ? [] : null;
+
+    for await (const entry of streamTranscript(filePath, streamOptions)) {
+      const uuid = getUuid(entry);
+      if (uuid) {
+        if (seen.has(uuid)) continue;
+        seen.add(uuid);
+      }
+
+      if (pending) {
+        if (!getTimestamp(entry)) {
+          pending.push(entry);
+          continue;
+        }
+        yield createResumeDivider(filePath, entry);
+        yield* pending;
+        pending = null;
+      }
+
+      yield entry;
+    }
+
+    if (pending && pending.length > 0) {
+      yield createResumeDivider(filePath);
+      yield* pending;
+    }
+  }
+}
+
+/** Create the synthetic "session resumed" entry placed before a resumed file */
+export function createResumeDivider(filePath: string, next?: TranscriptEntry): SystemMessage {
+  return {
+    type: "system",
+    subtype: SESSION_RESUMED_SUBTYPE,
+    timestamp: (next && getTimestamp(next)?.toISOString()) ?? "",
+    content: `Session resumed: ${basename(filePath, ".jsonl")}`,
+    level: "info",
+  };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** UUIDs an entry points at: parent links and summary leaves */
+function getReferences(entry: TranscriptEntry): string[] {
+  if (entry.type === "summary") {
+    return entry.leafUuid ? [entry.leafUuid] : [];
+  }
+
+  const refs: string[] = [];
+  if ("parentUuid" in entry && typeof entry.parentUuid === "string" && entry.parentUuid) {
+    refs.push(entry.parentUuid);
+  }
+  if (
+    "logicalParentUuid" in entry &&
+    typeof entry.logicalParentUuid === "string" &&
+    entry.logicalParentUuid
+  ) {
+    refs.push(entry.logicalParentUuid);
+  }
+  return refs;
+}
+
+function latest(files: SessionFileLinks[]): SessionFileLinks | undefined {
+  return files.reduce<SessionFileLinks | undefined>(
+    (best, file) => (!best || file.startTime > best.startTime ? file : best),
+    undefined
+  );
+}
+
+function earliest(files: SessionFileLinks[]): SessionFileLinks | undefined {
+  return files.reduce<SessionFileLinks | undefined>(
+    (best, file) => (!best || file.startTime < best.startTime ? file : best),
+    undefined
+  );
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { streamTranscript } from "./loader.js";
+import { createSnippet, searchTranscript, type SearchOptions } from "./search.js";
+
+const __dirname = fileURLToPath(new URL(".", import.meta.url));
+const sessionPath = join(__dirname, "__fixtures__", "sample-session.jsonl");
+
+function search(query: string, options?: SearchOptions) {
+  return searchTranscript(streamTranscript(sessionPath), query, options);
+}
+
+describe("searchTranscript", () => {
+  it("finds prompts, responses, tool calls and tool output", async () => {
+    expect(await search("CRASHES")).toEqual([
+      {
+        uuid: "msg-003",
+        timestamp: "2025-12-04T10:00:30.000Z",
+        kind: "prompt",
+        snippet: { before: "The app ", match: "crashes", after: " on startup" },
+      },
+    ]);
+    expect((await search("src/main.ts")).map((m) => [m.uuid, m.kind])).toEqual([
+      ["msg-004", "tool-call"],
+      ["msg-006", "tool-call"],
+    ]);
+    expect((await search("Starting app")).map((m) => [m.uuid, m.kind])).toEqual([
+      ["msg-005", "tool-result"],
+    ]);
+  });
+
+  it("matches case, regexes and fuzzy queries on request", async () => {
+    expect(await search("CRASHES", { caseSensitive: true })).toEqual([]);
+    expect((await search("crash(es|ed)", { mode: "regex" })).map((m) => m.uuid)).toEqual(["msg-003"]);
+    expect((await search("crahses", { mode: "fuzzy" })).map((m) => m.uuid)).toContain("msg-003");
+    await expect(search("(", { mode: "regex" })).rejects.toThrow("not a valid regex");
+  });
+});
+
+describe("createSnippet", () => {
+  it("cuts context around the match and collapses whitespace", () => {
+    const text = "first line\n\nsecond   line with the match in it\nlast line";
+    const start = text.indexOf("match");
+
+    expect(createSnippet(text, start, start + 5, 9)).toEqual({
+      before: "…with the ",
+      match: "match",
+      after: " in it la…",
+    });
+  });
+});
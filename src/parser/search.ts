@@ -0,0 +1,252 @@
+/**
+ * Transcript search - find the messages that mention something
+ *
+ * Prompts, assistant text and thinking, tool inputs and tool outputs are
+ * searched separately, so each match says which of them it was found in.
+ * Queries match as plain text, a regex, or fuzzily (via fuse.js).
+ */
+
+import Fuse from "fuse.js";
+import type { ContentItem, TranscriptEntry } from "../types/messages.js";
+import { getTimestamp, getUuid } from "./loader.js";
+import { getToolResultText } from "./filter.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** How a query is matched */
+export type SearchMode = "text" | "regex" | "fuzzy";
+
+export const SEARCH_MODES: readonly SearchMode[] = ["text", "regex", "fuzzy"];
+
+/** Part of a message a match was found in */
+export type SearchMatchKind = "prompt" | "response" | "thinking" | "tool-call" | "tool-result";
+
+export interface SearchOptions {
+  /** How to match the query (default: text) */
+  mode?: SearchMode;
+  /** Match case in text and regex mode */
+  caseSensitive?: boolean;
+  /** Characters of context on each side of the match (default: 40) */
+  context?: number;
+}
+
+/** Matched text with its surroundings, whitespace collapsed */
+export interface SearchSnippet {
+  before: string;
+  match: string;
+  after: string;
+}
+
+/** A message matching the query (the first match in it) */
+export interface SearchMatch {
+  uuid: string;
+  timestamp: string | null;
+  kind: SearchMatchKind;
+  snippet: SearchSnippet;
+}
+
+/** Searchable text of one part of a message */
+interface SearchPart {
+  index: number;
+  uuid: string;
+  timestamp: string | null;
+  kind: SearchMatchKind;
+  text: string;
+}
+
+/** A part matching the query, with the position of the match */
+interface SearchHit {
+  part: SearchPart;
+  start: number;
+  end: number;
+}
+
+const DEFAULT_SNIPPET_CONTEXT = 40;
+
+// =============================================================================
+// Search
+// =============================================================================
+
+/**
+ * Find the messages matching a query, in transcript order.
+ * Messages without a UUID (which can't start a clip) are skipped.
+ *
+ * Text and regex queries are matched as the entries stream in. Fuzzy
+ * queries score all parts together, so their text is kept until the end.
+ */
+export async function searchTranscript(
+  entries: AsyncIterable<TranscriptEntry>,
+  query: string,
+  options: SearchOptions = {}
+): Promise<SearchMatch[]> {
+  const mode = options.mode ?? "text";
+  const matchPart = mode === "fuzzy" ? null : createMatcher(query, mode, options);
+  const matches: SearchMatch[] = [];
+  const parts: SearchPart[] = [];
+  let index = 0;
+
+  for await (const entry of entries) {
+    const entryParts = getSearchParts(entry, index++);
+    if (!matchPart) {
+      parts.push(...entryParts);
+      continue;
+    }
+    // Keep the first match of each message
+    for (const part of entryParts) {
+      const hit = matchPart(part);
+      if (hit) {
+        matches.push(toSearchMatch(hit, options));
+        break;
+      }
+    }
+  }
+
+  if (matchPart) return matches;
+
+  // Keep the best fuzzy match of each message
+  const found = new Map<number, SearchHit>();
+  for (const hit of findFuzzyMatches(parts, query)) {
+    if (!found.has(hit.part.index)) found.set(hit.part.index, hit);
+  }
+  return [...found.entries()].sort(([a], [b]) => a - b).map(([, hit]) => toSearchMatch(hit, options));
+}
+
+/** Create a text or regex matcher for single parts */
+function createMatcher(
+  query: string,
+  mode: Exclude<SearchMode, "fuzzy">,
+  options: SearchOptions
+): (part: SearchPart) => SearchHit | null {
+  if (mode === "regex") {
+    const regex = compileQuery(query, options);
+    return (part) => {
+      const match = regex.exec(part.text);
+      return match ? { part, start: match.index, end: match.index + match[0].length } : null;
+    };
+  }
+
+  const needle = options.caseSensitive ? query : query.toLowerCase();
+  return (part) => {
+    const haystack = options.caseSensitive ? part.text : part.text.toLowerCase();
+    const start = haystack.indexOf(needle);
+    return start !== -1 ? { part, start, end: start + needle.length } : null;
+  };
+}
+
+/** Find the parts fuzzily matching the query, best first */
+function findFuzzyMatches(parts: SearchPart[], query: string): SearchHit[] {
+  const fuse = new Fuse(parts, {
+    keys: ["text"],
+    threshold: 0.3,
+    ignoreLocation: true,
+    includeMatches: true,
+    minMatchCharLength: Math.min(query.length, 2),
+  });
+  return fuse.search(query).map(({ item, matches }) => {
+    // Highlight the longest run of matched characters
+    const indices = matches?.[0]?.indices ?? [];
+    const [start, end] = indices.reduce<readonly [number, number]>(
+      (best, range) => (range[1] - range[0] > best[1] - best[0] ? range : best),
+      [0, -1]
+    );
+    return { part: item, start, end: end + 1 };
+  });
+}
+
+function toSearchMatch({ part, start, end }: SearchHit, options: SearchOptions): SearchMatch {
+  return {
+    uuid: part.uuid,
+    timestamp: part.timestamp,
+    kind: part.kind,
+    snippet: createSnippet(part.text, start, end, options.context ?? DEFAULT_SNIPPET_CONTEXT),
+  };
+}
+
+function compileQuery(query: string, options: SearchOptions): RegExp {
+  try {
+    return new RegExp(query, options.caseSensitive ? "" : "i");
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Query is not a valid regex: ${reason}`);
+  }
+}
+
+// =============================================================================
+// Searchable Text
+// =============================================================================
+
+/** Split a message into the parts that are searched */
+function getSearchParts(entry: TranscriptEntry, index: number): SearchPart[] {
+  const uuid = getUuid(entry);
+  if (!uuid) return [];
+  const timestamp = getTimestamp(entry)?.toISOString() ?? null;
+  const part = (kind: SearchMatchKind, text: string): SearchPart[] =>
+    text.trim() ? [{ index, uuid, timestamp, kind, text }] : [];
+
+  if (entry.type === "user") {
+    const content = entry.message.content;
+    const results = Array.isArray(content) ? content.filter((item) => item.type === "tool_result") : [];
+    if (entry.toolUseResult === undefined && results.length === 0) {
+      return part("prompt", typeof content === "string" ? content : getItemsText(content));
+    }
+    // The result blocks hold the output; older sessions only have toolUseResult
+    const output = results.map(getItemText).join("\n");
+    if (!output.trim() && entry.toolUseResult !== undefined) {
+      return part("tool-result", getToolResultText(entry.toolUseResult));
+    }
+    return part("tool-result", output);
+  }
+
+  if (entry.type === "assistant") {
+    return entry.message.content.flatMap((item) => {
+      switch (item.type) {
+        case "text":
+          return part("response", item.text);
+        case "thinking":
+          return part("thinking", item.thinking);
+        case "tool_use":
+          return part("tool-call", `${item.name} ${JSON.stringify(item.input)}`);
+        default:
+          return [];
+      }
+    });
+  }
+
+  return [];
+}
+
+function getItemsText(content: ContentItem[]): string {
+  return content.map(getItemText).join("\n");
+}
+
+function getItemText(item: ContentItem): string {
+  switch (item.type) {
+    case "text":
+      return item.text;
+    case "tool_result":
+      return typeof item.content === "string"
+        ? item.content
+        : (item.content ?? []).map((part) => part.text ?? "").join("\n");
+    default:
+      return "";
+  }
+}
+
+// =============================================================================
+// Snippets
+// =============================================================================
+
+/** Cut the match out of its text with `context` characters on each side */
+export function createSnippet(text: string, start: number, end: number, context: number): SearchSnippet {
+  const from = Math.max(0, start - context);
+  const to = Math.min(text.length, end + context);
+  const collapse = (part: string) => part.replace(/\s+/g, " ");
+
+  return {
+    before: (from > 0 ? "…" : "") + collapse(text.slice(from, start)).trimStart(),
+    match: collapse(text.slice(start, end)),
+    after: collapse(text.slice(end, to)).trimEnd() + (to < text.length ? "…" : ""),
+  };
+}
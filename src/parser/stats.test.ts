@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import { join } from "node:path";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { fileURLToPath } from "node:url";
+import type { AssistantMessage, TranscriptEntry, UserMessage } from "../types/messages.js";
+import { loadTranscript, streamTranscript } from "./loader.js";
+import {
+  collectSessionStats,
+  computeSessionStats,
+  findModelPrice,
+  loadPriceTable,
+} from "./stats.js";
+
+const __dirname = fileURLToPath(new URL(".", import.meta.url));
+const sessionPath = join(__dirname, "__fixtures__", "sample-session.jsonl");
+
+function assistant(uuid: string, id: string, overrides: Partial<AssistantMessage["message"]>): AssistantMessage {
+  return {
+    type: "assistant",
+    uuid,
+    parentUuid: null,
+    sessionId: "s",
+    timestamp: "2025-12-04T10:00:00.000Z",
+    message: {
+      id,
+      type: "message",
+      role: "assistant",
+      model: "claude-sonnet-4-5",
+      content: [],
+      stop_reason: null,
+      ...overrides,
+    },
+  };
+}
+
+function result(uuid: string, toolUseId: string, isError: boolean): UserMessage {
+  return {
+    type: "user",
+    uuid,
+    parentUuid: null,
+    sessionId: "s",
+    timestamp: "2025-12-04T10:00:01.000Z",
+    userType: "external",
+    cwd: "/",
+    message: {
+      role: "user",
+      content: [{ type: "tool_result", tool_use_id: toolUseId, content: "out", is_error: isError }],
+    },
+    toolUseResult: { content: "out", is_error: isError },
+  };
+}
+
+describe("computeSessionStats", () => {
+  it("sums usage, cost and durations per turn", async () => {
+    const stats = computeSessionStats(await loadTranscript(sessionPath));
+
+    expect(stats.responses).toBe(4);
+    expect(stats.tokens).toEqual({ input: 700, output: 165, cacheWrite: 0, cacheRead: 0 });
+    expect(stats.cost).toBeCloseTo(700 * 3e-6 + 165 * 15e-6);
+    expect(stats.unpricedModels).toEqual([]);
+    expect(stats.durationMs).toBe(50_000);
+
+    expect(stats.turns.map((turn) => turn.promptUuid)).toEqual(["msg-001", "msg-003"]);
+    expect(stats.turns.map((turn) => turn.durationMs)).toEqual([5_000, 20_000]);
+    expect(stats.turns[1]?.tokens.input).toBe(600);
+    expect(stats.turns[1]?.toolCalls).toBe(2);
+    expect(stats.turns[1]?.prompt).toBe("The app crashes on startup");
+  });
+
+  it("counts tool calls and errors", () => {
+    const stats = computeSessionStats([
+      assistant("a1", "m1", {
+        content: [
+          { type: "tool_use", id: "t1", name: "Bash", input: {} },
+          { type: "tool_use", id: "t2", name: "Bash", input: {} },
+          { type: "tool_use", id: "t3", name: "Read", input: {} },
+        ],
+      }),
+      result("r1", "t1", true),
+      result("r2", "t2", false),
+      result("r3", "t3", false),
+    ]);
+
+    expect(stats.tools).toEqual([
+      { name: "Bash", calls: 2, errors: 1, errorRate: 0.5 },
+      { name: "Read", calls: 1, errors: 0, errorRate: 0 },
+    ]);
+  });
+
+  it("counts each API response once and prices cache tokens", () => {
+    const usage = {
+      input_tokens: 10,
+      output_tokens: 100,
+      cache_creation_input_tokens: 1_000,
+      cache_read_input_tokens: 9_000,
+    };
+    const entries: TranscriptEntry[] = [
+      assistant("a1", "m1", { usage: { ...usage, output_tokens: 1 } }),
+      assistant("a2", "m1", { usage }),
+      assistant("a3", "m2", { model: "<synthetic>", usage }),
+      assistant("a4", "m3", { model: "local-model", usage }),
+    ];
+    const stats = computeSessionStats(entries);
+
+    expect(stats.responses).toBe(2);
+    expect(stats.tokens.output).toBe(200);
+    expect(stats.cacheHitRatio).toBeCloseTo(9_000 / 10_010);
+    expect(stats.cost).toBeCloseTo(10 * 3e-6 + 100 * 15e-6 + 1_000 * 3.75e-6 + 9_000 * 0.3e-6);
+    expect(stats.unpricedModels).toEqual(["local-model"]);
+  });
+
+  it("gives the same figures for streamed entries", async () => {
+    const entries = await loadTranscript(sessionPath);
+    expect(await collectSessionStats(streamTranscript(sessionPath))).toEqual(
+      computeSessionStats(entries)
+    );
+  });
+});
+
+describe("model prices", () => {
+  it("uses the longest matching prefix", () => {
+    expect(findModelPrice("claude-opus-4-5-20251101")?.input).toBe(5);
+    expect(findModelPrice("claude-opus-4-1-20250805")?.input).toBe(15);
+    expect(findModelPrice("mystery-model")).toBeNull();
+  });
+
+  it("loads a price table over the defaults", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cc-prism-prices-"));
+    const file = join(dir, "prices.json");
+    await writeFile(file, JSON.stringify({ "local-model": { input: 1, output: 2 } }));
+
+    const prices = await loadPriceTable(file);
+    expect(findModelPrice("local-model", prices)).toEqual({ input: 1, output: 2 });
+    expect(findModelPrice("claude-sonnet-4-5", prices)?.output).toBe(15);
+
+    await writeFile(file, JSON.stringify({ "local-model": { input: "1" } }));
+    await expect(loadPriceTable(file)).rejects.toThrow('Price of "local-model"');
+    await rm(dir, { recursive: true });
+  });
+});
@@ -0,0 +1,390 @@
+/**
+ * Session statistics - token usage, cost, turn durations and tool calls
+ *
+ * Usage is counted once per API response: Claude Code writes a response
+ * split over several entries that share a message id, so only the last
+ * usage seen for an id is kept. Costs come from a per-model price table.
+ */
+
+import { readFile } from "node:fs/promises";
+import type { TokenUsage, TranscriptEntry, UserMessage } from "../types/messages.js";
+import { getTimestamp, getToolResultIds, getUuid } from "./loader.js";
+import { getSearchText, isTurnStart, TurnTracker } from "./clip.js";
+
+// =============================================================================
+// Prices
+// =============================================================================
+
+/** Price of a model in USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  /** Cache creation (default: input price) */
+  cacheWrite?: number;
+  /** Cache reads (default: input price) */
+  cacheRead?: number;
+}
+
+/** Prices by model name prefix; the longest matching prefix wins */
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_MODEL_PRICES: PriceTable = {
+  "claude-opus-4": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-opus-4-5": { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  "claude-sonnet-4": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-haiku-4-5": { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  "claude-3-opus": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-3-7-sonnet": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-3-5-sonnet": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  "claude-3-haiku": { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 },
+  "gpt-5": { input: 1.25, output: 10, cacheWrite: 1.25, cacheRead: 0.125 },
+};
+
+/** Find the price of a model, or null when the table has none */
+export function findModelPrice(model: string, prices: PriceTable = DEFAULT_MODEL_PRICES): ModelPrice | null {
+  let best: string | null = null;
+  for (const prefix of Object.keys(prices)) {
+    if (model.startsWith(prefix) && (best === null || prefix.length > best.length)) {
+      best = prefix;
+    }
+  }
+  return best === null ? null : (prices[best] ?? null);
+}
+
+/**
+ * Load a price table from a JSON file: { "<model prefix>": { "input": 3, "output": 15 } }.
+ * Entries are added to (or replace) the default prices.
+ */
+export async function loadPriceTable(filePath: string): Promise<PriceTable> {
+  const content = await readFile(filePath, "utf-8");
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error(`Price table is not valid JSON: ${filePath}`);
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Price table must be a JSON object: ${filePath}`);
+  }
+  for (const [model, price] of Object.entries(parsed as Record<string, unknown>)) {
+    if (!isModelPrice(price)) {
+      throw new Error(`Price of "${model}" needs a numeric "input" and "output": ${filePath}`);
+    }
+  }
+  return { ...DEFAULT_MODEL_PRICES, ...(parsed as PriceTable) };
+}
+
+function isModelPrice(value: unknown): value is ModelPrice {
+  if (typeof value !== "object" || value === null) return false;
+  const price = value as Record<string, unknown>;
+  return (
+    typeof price["input"] === "number" &&
+    typeof price["output"] === "number" &&
+    ["cacheWrite", "cacheRead"].every((key) => price[key] === undefined || typeof price[key] === "number")
+  );
+}
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Token counts, summed over API responses */
+export interface TokenTotals {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+/** Figures for one turn (a prompt and everything up to the next one) */
+export interface TurnStats {
+  /** 1-based turn number */
+  number: number;
+  /** UUID of the prompt that starts the turn (null before the first prompt) */
+  promptUuid: string | null;
+  /** Prompt text */
+  prompt: string;
+  start: string | null;
+  end: string | null;
+  durationMs: number;
+  tokens: TokenTotals;
+  /** Estimated cost in USD */
+  cost: number;
+  toolCalls: number;
+}
+
+/** Calls and failures of one tool */
+export interface ToolStats {
+  name: string;
+  calls: number;
+  errors: number;
+  /** errors / calls */
+  errorRate: number;
+}
+
+/** Usage of one model */
+export interface ModelStats {
+  model: string;
+  /** API responses from the model */
+  responses: number;
+  tokens: TokenTotals;
+  /** Estimated cost in USD (0 when the model has no price) */
+  cost: number;
+  priced: boolean;
+}
+
+export interface SessionStats {
+  /** API responses with usage */
+  responses: number;
+  turns: TurnStats[];
+  tokens: TokenTotals;
+  /** Share of input tokens read from the cache */
+  cacheHitRatio: number;
+  /** Estimated cost in USD, leaving out unpriced models */
+  cost: number;
+  /** Models missing from the price table */
+  unpricedModels: string[];
+  models: ModelStats[];
+  /** Tools, most called first */
+  tools: ToolStats[];
+  start: string | null;
+  end: string | null;
+  durationMs: number;
+}
+
+export interface SessionStatsOptions {
+  /** Price table (default: DEFAULT_MODEL_PRICES) */
+  prices?: PriceTable;
+}
+
+// =============================================================================
+// Collector
+// =============================================================================
+
+interface Response {
+  model: string;
+  usage: TokenUsage;
+  turn: TurnStats;
+}
+
+interface ToolCall {
+  name: string;
+  /** Set once a result arrives */
+  failed?: boolean;
+}
+
+/** Models that don't bill, e.g. API error placeholders */
+const IGNORED_MODELS = new Set(["<synthetic>"]);
+
+/**
+ * Gathers statistics from entries in transcript order. Tool results are
+ * paired with their calls by tool_use_id, else the oldest unanswered call.
+ */
+export class StatsCollector {
+  private prices: PriceTable;
+  private tracker = new TurnTracker();
+  private turns: TurnStats[] = [];
+  /** Last usage seen for each API response, by message id */
+  private responses = new Map<string, Response>();
+  private calls = new Map<string, ToolCall>();
+  private pendingCalls: string[] = [];
+  private start: Date | null = null;
+  private end: Date | null = null;
+
+  constructor(options: SessionStatsOptions = {}) {
+    this.prices = options.prices ?? DEFAULT_MODEL_PRICES;
+  }
+
+  /** Record an entry */
+  add(entry: TranscriptEntry): void {
+    const turn = this.getTurn(this.tracker.add(entry));
+    if (turn.promptUuid === null && isTurnStart(entry)) {
+      turn.promptUuid = getUuid(entry);
+      turn.prompt = getSearchText(entry);
+    }
+
+    const timestamp = getTimestamp(entry);
+    if (timestamp) {
+      turn.start ??= timestamp.toISOString();
+      turn.end = timestamp.toISOString();
+      if (!this.start || timestamp < this.start) this.start = timestamp;
+      if (!this.end || timestamp > this.end) this.end = timestamp;
+    }
+
+    if (entry.type === "assistant") {
+      const { id, model, usage, content } = entry.message;
+      if (usage && !IGNORED_MODELS.has(model)) {
+        const key = id || getUuid(entry) || String(this.responses.size);
+        const previous = this.responses.get(key);
+        this.responses.set(key, { model, usage, turn: previous?.turn ?? turn });
+      }
+      for (const item of content) {
+        if (item.type !== "tool_use" || this.calls.has(item.id)) continue;
+        this.calls.set(item.id, { name: item.name });
+        this.pendingCalls.push(item.id);
+        turn.toolCalls++;
+      }
+    } else if (entry.type === "user" && entry.toolUseResult !== undefined) {
+      this.addResult(entry);
+    }
+  }
+
+  /** Get the statistics of everything added so far */
+  result(): SessionStats {
+    const tokens = emptyTotals();
+    const models = new Map<string, ModelStats>();
+
+    for (const turn of this.turns) {
+      turn.tokens = emptyTotals();
+      turn.cost = 0;
+      turn.durationMs = turn.start && turn.end ? Date.parse(turn.end) - Date.parse(turn.start) : 0;
+    }
+
+    for (const { model, usage, turn } of this.responses.values()) {
+      const price = findModelPrice(model, this.prices);
+      const cost = price ? computeCost(usage, price) : 0;
+      let stats = models.get(model);
+      if (!stats) {
+        stats = { model, responses: 0, tokens: emptyTotals(), cost: 0, priced: price !== null };
+        models.set(model, stats);
+      }
+      stats.responses++;
+      stats.cost += cost;
+      addUsage(stats.tokens, usage);
+      addUsage(turn.tokens, usage);
+      addUsage(tokens, usage);
+      turn.cost += cost;
+    }
+
+    const modelStats = [...models.values()];
+    return {
+      responses: this.responses.size,
+      turns: this.turns.map((turn) => ({ ...turn, tokens: { ...turn.tokens } })),
+      tokens,
+      cacheHitRatio: getCacheHitRatio(tokens),
+      cost: modelStats.reduce((sum, stats) => sum + stats.cost, 0),
+      unpricedModels: modelStats.filter((stats) => !stats.priced).map((stats) => stats.model),
+      models: modelStats,
+      tools: this.getToolStats(),
+      start: this.start?.toISOString() ?? null,
+      end: this.end?.toISOString() ?? null,
+      durationMs: this.start && this.end ? this.end.getTime() - this.start.getTime() : 0,
+    };
+  }
+
+  private getTurn(number: number): TurnStats {
+    let turn = this.turns[this.turns.length - 1];
+    if (!turn || turn.number !== number) {
+      turn = {
+        number,
+        promptUuid: null,
+        prompt: "",
+        start: null,
+        end: null,
+        durationMs: 0,
+        tokens: emptyTotals(),
+        cost: 0,
+        toolCalls: 0,
+      };
+      this.turns.push(turn);
+    }
+    return turn;
+  }
+
+  private addResult(entry: UserMessage): void {
+    const ids = getToolResultIds(entry);
+    const answered = ids.length > 0 ? ids : this.pendingCalls.slice(0, 1);
+    this.pendingCalls = this.pendingCalls.filter((id) => !answered.includes(id));
+
+    for (const id of answered) {
+      const call = this.calls.get(id);
+      if (call) call.failed = isErrorResult(entry, ids.length > 0 ? id : null);
+    }
+  }
+
+  private getToolStats(): ToolStats[] {
+    const tools = new Map<string, ToolStats>();
+    for (const call of this.calls.values()) {
+      let stats = tools.get(call.name);
+      if (!stats) {
+        stats = { name: call.name, calls: 0, errors: 0, errorRate: 0 };
+        tools.set(call.name, stats);
+      }
+      stats.calls++;
+      if (call.failed) stats.errors++;
+      stats.errorRate = stats.errors / stats.calls;
+    }
+    return [...tools.values()].sort((a, b) => b.calls - a.calls || a.name.localeCompare(b.name));
+  }
+}
+
+/** Gather statistics from a list of entries */
+export function computeSessionStats(
+  entries: TranscriptEntry[],
+  options: SessionStatsOptions = {}
+): SessionStats {
+  const collector = new StatsCollector(options);
+  for (const entry of entries) {
+    collector.add(entry);
+  }
+  return collector.result();
+}
+
+/** Gather statistics from streamed entries */
+export async function collectSessionStats(
+  entries: AsyncIterable<TranscriptEntry>,
+  options: SessionStatsOptions = {}
+): Promise<SessionStats> {
+  const collector = new StatsCollector(options);
+  for await (const entry of entries) {
+    collector.add(entry);
+  }
+  return collector.result();
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function emptyTotals(): TokenTotals {
+  return { input: 0, output: 0, cacheWrite: 0, cacheRead: 0 };
+}
+
+function addUsage(totals: TokenTotals, usage: TokenUsage): void {
+  totals.input += usage.input_tokens ?? 0;
+  totals.output += usage.output_tokens ?? 0;
+  totals.cacheWrite += usage.cache_creation_input_tokens ?? 0;
+  totals.cacheRead += usage.cache_read_input_tokens ?? 0;
+}
+
+/** Cost of one API response in USD */
+export function computeCost(usage: TokenUsage, price: ModelPrice): number {
+  const perToken = (usdPerMillion: number) => usdPerMillion / 1_000_000;
+  return (
+    (usage.input_tokens ?? 0) * perToken(price.input) +
+    (usage.output_tokens ?? 0) * perToken(price.output) +
+    (usage.cache_creation_input_tokens ?? 0) * perToken(price.cacheWrite ?? price.input) +
+    (usage.cache_read_input_tokens ?? 0) * perToken(price.cacheRead ?? price.input)
+  );
+}
+
+/** Share of input tokens read from the cache (0 without input) */
+export function getCacheHitRatio(tokens: TokenTotals): number {
+  const input = tokens.input + tokens.cacheWrite + tokens.cacheRead;
+  return input > 0 ? tokens.cacheRead / input : 0;
+}
+
+/** Check if a tool result (or one of its tool_result blocks) failed */
+function isErrorResult(entry: UserMessage, id: string | null): boolean {
+  const result = entry.toolUseResult;
+  if (typeof result === "string") return true;
+  if (!Array.isArray(result) && result?.is_error) return true;
+
+  const content = entry.message.content;
+  if (!Array.isArray(content)) return false;
+  return content.some(
+    (item) => item.type === "tool_result" && (id === null || item.tool_use_id === id) && item.is_error === true
+  );
+}
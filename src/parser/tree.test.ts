@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { TranscriptEntry } from "../types/messages.js";
+import { loadTranscript, getUuid } from "./loader.js";
+import { buildConversationTree, selectBranch, streamBranch } from "./tree.js";
+
+const __dirname = fileURLToPath(new URL(".", import.meta.url));
+const fixturesDir = join(__dirname, "__fixtures__");
+const branchedPath = join(fixturesDir, "branched-session.jsonl");
+
+describe("buildConversationTree", () => {
+  it("links entries by parentUuid", async () => {
+    const entries = await loadTranscript(branchedPath);
+    const tree = buildConversationTree(entries);
+
+    expect(tree.size).toBe(6);
+    expect(tree.roots).toEqual(["b-001"]);
+    expect(tree.getChildren("b-002")).toEqual(["b-003", "b-005"]);
+    expect(tree.leaves).toEqual(["b-004", "b-006"]);
+    expect(tree.hasBranches).toBe(true);
+  });
+
+  it("defaults to the latest leaf", async () => {
+    const tree = buildConversationTree(await loadTranscript(branchedPath));
+
+    expect(tree.getDefaultLeaf()).toBe("b-006");
+    expect(tree.getPath("b-006")).toEqual(["b-001", "b-002", "b-005", "b-006"]);
+  });
+
+  it("prefers a summary leafUuid when it is the most recent target", async () => {
+    const entries: TranscriptEntry[] = [
+      ...(await loadTranscript(branchedPath)),
+      { type: "summary", summary: "Flask health check", leafUuid: "b-004" },
+    ];
+    // Make the Flask branch the most recent one
+    const tree = buildConversationTree(
+      entries.map((e) =>
+        getUuid(e) === "b-004" ? { ...e, timestamp: "2025-12-04T10:02:00.000Z" } : e
+      )
+    );
+
+    expect(tree.getDefaultLeaf()).toBe("b-004");
+  });
+
+  it("resolves unique UUID prefixes and rejects ambiguous ones", async () => {
+    const tree = buildConversationTree(await loadTranscript(branchedPath));
+
+    expect(tree.resolve("b-004")).toBe("b-004");
+    expect(() => tree.resolve("b-00")).toThrow(/Ambiguous/);
+    expect(() => tree.resolve("nope")).toThrow(/not found/);
+  });
+
+  it("follows logicalParentUuid across compaction boundaries", () => {
+    const tree = buildConversationTree([
+      { type: "user", timestamp: "2025-12-04T10:00:00.000Z", sessionId: "s", uuid: "a", parentUuid: null, userType: "external", cwd: "/", message: { role: "user", content: "hi" } },
+      { type: "user", timestamp: "2025-12-04T10:05:00.000Z", sessionId: "s", uuid: "b", parentUuid: null, logicalParentUuid: "a", userType: "external", cwd: "/", message: { role: "user", content: "again" } },
+    ]);
+
+    expect(tree.roots).toEqual(["a"]);
+    expect(tree.getPath("b")).toEqual(["a", "b"]);
+  });
+
+  it("walks forks as nested branches", async () => {
+    const tree = buildConversationTree(await loadTranscript(branchedPath));
+    const lines = tree.walk();
+
+    expect(lines.map((l) => l.uuid)).toEqual(["b-001", "b-002", "b-003", "b-004", "b-005", "b-006"]);
+    expect(lines[0]!.depth).toBe(0);
+    expect(lines[2]!.branch).toEqual({ index: 1, count: 2, active: false });
+    expect(lines[4]!.branch).toEqual({ index: 2, count: 2, active: true });
+    expect(lines[5]!.depth).toBe(1);
+  });
+});
+
+describe("selectBranch", () => {
+  it("drops abandoned branches and keeps entries without UUIDs", async () => {
+    const entries = await loadTranscript(branchedPath);
+    const branch = selectBranch(entries);
+
+    expect(branch.map((e) => getUuid(e) ?? e.type)).toEqual([
+      "b-001", "b-002", "system", "b-005", "b-006",
+    ]);
+  });
+
+  it("follows an explicit leaf", async () => {
+    const entries = await loadTranscript(branchedPath);
+    const branch = selectBranch(entries, "b-004");
+
+    expect(branch.map((e) => getUuid(e) ?? e.type)).toEqual([
+      "b-001", "b-002", "b-003", "b-004", "system",
+    ]);
+  });
+
+  it("keeps every root's chain when parent links are missing", async () => {
+    const entries = await loadTranscript(join(fixturesDir, "sample-session.jsonl"));
+    const unlinked = entries.map((e) => ("parentUuid" in e ? { ...e, parentUuid: null } : e));
+
+    expect(selectBranch(unlinked)).toEqual(unlinked);
+  });
+
+  it("keeps the messages before a dangling parent link", async () => {
+    const entries = await loadTranscript(join(fixturesDir, "sample-session.jsonl"));
+    const gapped = entries.filter((e) => !["msg-004", "msg-005"].includes(getUuid(e) ?? ""));
+
+    expect(selectBranch(gapped)).toEqual(gapped);
+  });
+
+  it("treats roots without a parent as an edited first prompt", () => {
+    const entry = (uuid: string, parentUuid: string | null, time: string): TranscriptEntry => ({
+      type: "user",
+      timestamp: `2025-12-04T10:0${time}.000Z`,
+      sessionId: "s",
+      uuid,
+      parentUuid,
+      userType: "external",
+      cwd: "/",
+      message: { role: "user", content: uuid },
+    });
+    const entries = [
+      entry("a1", null, "0:00"),
+      entry("a2", "a1", "0:05"),
+      entry("b1", null, "1:00"),
+      entry("b2", "b1", "1:05"),
+    ];
+
+    expect(selectBranch(entries).map(getUuid)).toEqual(["b1", "b2"]);
+    expect(selectBranch(entries, "a2").map(getUuid)).toEqual(["a1", "a2"]);
+
+    // A root whose parent is missing continues the conversation
+    const continued = [...entries, entry("c1", "gone", "2:00"), entry("c2", "c1", "2:05")];
+    expect(selectBranch(continued, "a2").map(getUuid)).toEqual(["a1", "a2", "c1", "c2"]);
+  });
+
+  it("keeps sidechain entries with their parent tool result", async () => {
+    const entries = await loadTranscript(join(fixturesDir, "with-agent-ref.jsonl"));
+
+    expect(selectBranch(entries, "msg-004")).toEqual(entries);
+  });
+});
+
+describe("streamBranch", () => {
+  it("matches selectBranch", async () => {
+    const streamed: TranscriptEntry[] = [];
+    for await (const entry of streamBranch(branchedPath, { leafUuid: "b-004" })) {
+      streamed.push(entry);
+    }
+
+    expect(streamed).toEqual(selectBranch(await loadTranscript(branchedPath), "b-004"));
+  });
+});
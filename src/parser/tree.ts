@@ -0,0 +1,378 @@
+/**
+ * Conversation tree - reconstruct branches from parentUuid links
+ *
+ * When a user rewinds, edits a prompt or retries, Claude Code writes sibling
+ * branches into the same JSONL. The tree model lets callers follow a single
+ * branch instead of rendering abandoned ones interleaved with the real one.
+ */
+
+import type { TranscriptEntry } from "../types/messages.js";
+import {
+  getTimestamp,
+  getUuid,
+  readTranscriptLines,
+  type StreamTranscriptOptions,
+} from "./loader.js";
+import { streamSessionChain } from "./resume.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A message in the conversation tree (ids only, entries are not retained) */
+export interface ConversationNode {
+  uuid: string;
+  /** Parent link: parentUuid, or logicalParentUuid across compaction boundaries */
+  parentUuid: string | null;
+  /** Entry timestamp in milliseconds (0 when missing) */
+  time: number;
+  /** Entry type, for display */
+  type: TranscriptEntry["type"];
+}
+
+/** Options for streaming a single branch */
+export interface StreamBranchOptions extends StreamTranscriptOptions {
+  /** Leaf UUID (or unique prefix) of the branch to follow (default: latest) */
+  leafUuid?: string;
+  /** Insert a "session resumed" divider between stitched files (default: true) */
+  resumeDividers?: boolean;
+}
+
+/** A line in a depth-first walk of the tree */
+export interface TreeWalkLine {
+  uuid: string;
+  /** Number of forks above this line */
+  depth: number;
+  /** Set on the first line of a branch at a fork */
+  branch?: {
+    index: number;
+    count: number;
+    /** Whether the branch contains the selected leaf */
+    active: boolean;
+  };
+}
+
+// =============================================================================
+// Tree Construction
+// =============================================================================
+
+/**
+ * Conversation tree built incrementally from transcript entries.
+ *
+ * Only main-thread entries with a UUID are tracked; sidechain (agent)
+ * entries follow their parent tool result instead. Parent links may point
+ * forward in the file, so structure is resolved lazily.
+ */
+export class ConversationTree {
+  private nodes = new Map<string, ConversationNode>();
+  private summaryLeaves: string[] = [];
+  private sidechain = new Set<string>();
+  private childIndex: Map<string | null, string[]> | null = null;
+
+  /**
+   * Record an entry. Roots are attached to `fallbackParent` when given,
+   * e.g. the leaf a resumed session continues from.
+   */
+  add(entry: TranscriptEntry, fallbackParent: string | null = null): void {
+    if (entry.type === "summary") {
+      if (entry.leafUuid) this.summaryLeaves.push(entry.leafUuid);
+      return;
+    }
+
+    const uuid = getUuid(entry);
+    if (!uuid) return;
+    if (this.isSidechain(entry)) {
+      this.sidechain.add(uuid);
+      return;
+    }
+    // Resumed sessions may repeat earlier messages; keep the original links
+    if (this.nodes.has(uuid)) return;
+
+    this.nodes.set(uuid, {
+      uuid,
+      parentUuid: getParentLink(entry) ?? fallbackParent,
+      time: getTimestamp(entry)?.getTime() ?? 0,
+      type: entry.type,
+    });
+    this.childIndex = null;
+  }
+
+  /**
+   * Whether an entry belongs to a sidechain. Agent files do not always set
+   * `isSidechain` on every line, so descendants of sidechain entries count too.
+   */
+  isSidechain(entry: TranscriptEntry): boolean {
+    if ("isSidechain" in entry && entry.isSidechain === true) return true;
+    const uuid = getUuid(entry);
+    if (uuid && this.sidechain.has(uuid)) return true;
+    const parent = getParentLink(entry);
+    return parent !== null && this.sidechain.has(parent);
+  }
+
+  /** Number of nodes in the tree */
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  /** Get a node by UUID */
+  get(uuid: string): ConversationNode | undefined {
+    return this.nodes.get(uuid);
+  }
+
+  /** Get the parent of a node (null for roots and dangling links) */
+  getParent(uuid: string): string | null {
+    const parent = this.nodes.get(uuid)?.parentUuid ?? null;
+    return parent !== null && this.nodes.has(parent) ? parent : null;
+  }
+
+  /** Get the children of a node (or the roots, for null), oldest first */
+  getChildren(uuid: string | null): string[] {
+    if (!this.childIndex) {
+      this.childIndex = new Map();
+      for (const node of this.nodes.values()) {
+        const parent = this.getParent(node.uuid);
+        const siblings = this.childIndex.get(parent) ?? [];
+        siblings.push(node.uuid);
+        this.childIndex.set(parent, siblings);
+      }
+      for (const siblings of this.childIndex.values()) {
+        siblings.sort((a, b) => this.nodes.get(a)!.time - this.nodes.get(b)!.time);
+      }
+    }
+    return this.childIndex.get(uuid) ?? [];
+  }
+
+  /** Root nodes (no parent in this transcript) */
+  get roots(): string[] {
+    return this.getChildren(null);
+  }
+
+  /** Leaf nodes (no children), oldest first */
+  get leaves(): string[] {
+    return [...this.nodes.values()]
+      .filter((node) => this.getChildren(node.uuid).length === 0)
+      .sort((a, b) => a.time - b.time)
+      .map((node) => node.uuid);
+  }
+
+  /** Whether the tree has any fork (more than one root or child) */
+  get hasBranches(): boolean {
+    if (this.roots.length > 1) return true;
+    for (const uuid of this.nodes.keys()) {
+      if (this.getChildren(uuid).length > 1) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Default leaf to follow: the most recent of all leaves and summary
+   * `leafUuid` targets present in this transcript.
+   */
+  getDefaultLeaf(): string | null {
+    const candidates = [
+      ...this.leaves,
+      ...this.summaryLeaves.filter((uuid) => this.nodes.has(uuid)),
+    ];
+
+    let best: string | null = null;
+    let bestTime = -Infinity;
+    for (const uuid of candidates) {
+      const time = this.nodes.get(uuid)!.time;
+      if (time >= bestTime) {
+        best = uuid;
+        bestTime = time;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Resolve a full UUID or unique prefix to a node UUID.
+   * Throws when nothing or more than one node matches.
+   */
+  resolve(uuidOrPrefix: string): string {
+    if (this.nodes.has(uuidOrPrefix)) return uuidOrPrefix;
+
+    const matches = [...this.nodes.keys()].filter((uuid) => uuid.startsWith(uuidOrPrefix));
+    if (matches.length === 1) return matches[0]!;
+    if (matches.length === 0) {
+      throw new Error(`Branch leaf not found: ${uuidOrPrefix}`);
+    }
+    throw new Error(
+      `Ambiguous branch leaf "${uuidOrPrefix}" matches ${matches.length} messages: ` +
+        matches.slice(0, 5).join(", ")
+    );
+  }
+
+  /** Get the path from the root to a node (inclusive) */
+  getPath(leafUuid: string): string[] {
+    const path: string[] = [];
+    const seen = new Set<string>();
+    let current: string | null = leafUuid;
+
+    // Guard against cycles in malformed transcripts
+    while (current !== null && !seen.has(current)) {
+      seen.add(current);
+      path.push(current);
+      current = this.getParent(current);
+    }
+
+    return path.reverse();
+  }
+
+  /**
+   * Walk the tree depth-first, oldest branch first.
+   * Linear chains stay at the same depth; each fork adds a level.
+   */
+  walk(activeLeaf: string | null = this.getDefaultLeaf()): TreeWalkLine[] {
+    const active = new Set(activeLeaf ? this.getPath(activeLeaf) : []);
+    const lines: TreeWalkLine[] = [];
+    const stack: TreeWalkLine[] = [];
+
+    const pushBranches = (children: string[], depth: number) => {
+      if (children.length === 1) {
+        stack.push({ uuid: children[0]!, depth });
+        return;
+      }
+      // Push in reverse so the oldest branch is walked first
+      for (let i = children.length - 1; i >= 0; i--) {
+        const uuid = children[i]!;
+        stack.push({
+          uuid,
+          depth: depth + 1,
+          branch: { index: i + 1, count: children.length, active: active.has(uuid) },
+        });
+      }
+    };
+
+    // Several roots are a fork at the very start (e.g. an edited first prompt)
+    pushBranches(this.roots, 0);
+
+    while (stack.length > 0) {
+      const line = stack.pop()!;
+      lines.push(line);
+      pushBranches(this.getChildren(line.uuid), line.depth);
+    }
+
+    return lines;
+  }
+}
+
+/** Build a conversation tree from entries */
+export function buildConversationTree(entries: Iterable<TranscriptEntry>): ConversationTree {
+  const tree = new ConversationTree();
+  for (const entry of entries) {
+    tree.add(entry);
+  }
+  return tree;
+}
+
+// =============================================================================
+// Branch Selection
+// =============================================================================
+
+/**
+ * Create a predicate that keeps only entries on the branch ending at `leafUuid`
+ * (default: the tree's default leaf). Must be applied in transcript order.
+ *
+ * - Main-thread entries are kept when on the root-to-leaf path
+ * - Roots whose parent is missing from the file (older or compacted
+ *   sessions) continue the conversation: their latest branch is kept too
+ * - Roots without a parent are forks at the start (an edited first prompt):
+ *   only the selected or latest one is kept, unless no entry links to another
+ * - Sidechain entries follow the most recent main-thread entry
+ * - Entries without a UUID (system notices, summaries) are always kept
+ */
+export function createBranchFilter(
+  tree: ConversationTree,
+  leafUuid?: string
+): (entry: TranscriptEntry) => boolean {
+  const leaf = leafUuid ? tree.resolve(leafUuid) : tree.getDefaultLeaf();
+  const leafPath = leaf ? tree.getPath(leaf) : [];
+  const path = new Set(leafPath);
+
+  const linked = tree.roots.length < tree.size;
+  const starts = tree.roots.filter((root) => tree.get(root)!.parentUuid === null);
+  const start = leafPath[0] !== undefined && starts.includes(leafPath[0]) ? leafPath[0] : starts.at(-1);
+
+  // Follow each other kept root to its latest leaf
+  const latestLeaves = new Map<string, string>();
+  for (const uuid of tree.leaves) {
+    latestLeaves.set(tree.getPath(uuid)[0]!, uuid);
+  }
+  for (const [root, rootLeaf] of latestLeaves) {
+    if (root === leafPath[0]) continue;
+    if (linked && starts.includes(root) && root !== start) continue;
+    for (const uuid of tree.getPath(rootLeaf)) path.add(uuid);
+  }
+
+  let lastKept = true;
+
+  return (entry) => {
+    if (tree.isSidechain(entry)) return lastKept;
+
+    const uuid = getUuid(entry);
+    if (!uuid || !tree.get(uuid)) return true;
+
+    lastKept = path.has(uuid);
+    return lastKept;
+  };
+}
+
+/** Select the entries on a single branch of the conversation */
+export function selectBranch(
+  entries: TranscriptEntry[],
+  leafUuid?: string
+): TranscriptEntry[] {
+  const tree = buildConversationTree(entries);
+  if (!leafUuid && !tree.hasBranches) return entries;
+  return entries.filter(createBranchFilter(tree, leafUuid));
+}
+
+/**
+ * Stream a transcript following a single branch.
+ * Reads the file twice: once to build the (id-only) tree, then to filter.
+ *
+ * Several files are stitched as resumed sessions: each file's roots
+ * continue from the branch selected so far.
+ */
+export async function* streamBranch(
+  filePath: string | string[],
+  options: StreamBranchOptions = {}
+): AsyncGenerator<TranscriptEntry> {
+  const filePaths = typeof filePath === "string" ? [filePath] : filePath;
+
+  const tree = new ConversationTree();
+  for (const path of filePaths) {
+    const resumedFrom = tree.getDefaultLeaf();
+    for await (const entry of readTranscriptLines(path)) {
+      tree.add(entry, resumedFrom);
+    }
+  }
+
+  const { leafUuid, resumeDividers, ...streamOptions } = options;
+  const keep = createBranchFilter(tree, leafUuid);
+  const source = streamSessionChain(filePaths, { ...streamOptions, dividers: resumeDividers });
+  for await (const entry of source) {
+    if (keep(entry)) yield entry;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Get the parent link, crossing compaction boundaries via logicalParentUuid */
+function getParentLink(entry: TranscriptEntry): string | null {
+  if ("parentUuid" in entry && typeof entry.parentUuid === "string" && entry.parentUuid) {
+    return entry.parentUuid;
+  }
+  if (
+    "logicalParentUuid" in entry &&
+    typeof entry.logicalParentUuid === "string" &&
+    entry.logicalParentUuid
+  ) {
+    return entry.logicalParentUuid;
+  }
+  return null;
+}
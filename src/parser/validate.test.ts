@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { copyFile, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { loadTranscript } from "./loader.js";
+import {
+  validateTranscript,
+  formatTranscriptIssue,
+  TranscriptValidationError,
+} from "./validate.js";
+
+const __dirname = fileURLToPath(new URL(".", import.meta.url));
+const fixturesDir = join(__dirname, "__fixtures__");
+const malformedPath = join(fixturesDir, "malformed-session.jsonl");
+
+describe("validateTranscript", () => {
+  it("reports no issues for well-formed fixtures", async () => {
+    for (const name of ["sample-session.jsonl", "with-agent-ref.jsonl", "branched-session.jsonl"]) {
+      const report = await validateTranscript(join(fixturesDir, name));
+      expect(report.issues).toEqual([]);
+    }
+  });
+
+  it("reports each problem with its line, kind and entry type", async () => {
+    const report = await validateTranscript(malformedPath);
+
+    expect(report.lines).toBe(7);
+    expect(report.entries).toBe(6);
+    expect(report.issues.map((i) => [i.line, i.kind, i.entryType])).toEqual([
+      [3, "missing-agent-file", "user"],
+      [4, "malformed-json", undefined],
+      [6, "missing-timestamp", "user"],
+      [6, "dangling-parent", "user"],
+      [6, "orphan-tool-result", "user"],
+      [7, "unknown-type", "progress"],
+      [8, "missing-uuid", "assistant"],
+    ]);
+  });
+
+  it("skips agent file checks when disabled", async () => {
+    const report = await validateTranscript(malformedPath, { checkAgents: false });
+
+    expect(report.issues.some((i) => i.kind === "missing-agent-file")).toBe(false);
+  });
+
+  it("accepts parent links into the session a resumed file continues", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cc-prism-validate-"));
+    try {
+      const resumedPath = join(dir, "sess-d.jsonl");
+      await writeFile(
+        resumedPath,
+        JSON.stringify({
+          type: "user",
+          timestamp: "2025-12-04T11:00:00.000Z",
+          sessionId: "sess-d",
+          uuid: "r-010",
+          parentUuid: "r-002",
+          userType: "external",
+          cwd: "/home/user/project",
+          message: { role: "user", content: "Continue with invoices" },
+        }) + "\n"
+      );
+
+      const alone = await validateTranscript(resumedPath);
+      expect(alone.issues.map((i) => i.kind)).toEqual(["dangling-parent"]);
+
+      await copyFile(join(fixturesDir, "resumed", "sess-a.jsonl"), join(dir, "sess-a.jsonl"));
+      // Other sessions are only scanned on request, or when an entry names them
+      const unnamed = await validateTranscript(resumedPath);
+      expect(unnamed.issues.map((i) => i.kind)).toEqual(["dangling-parent"]);
+      const chained = await validateTranscript(resumedPath, { followResume: true });
+      expect(chained.issues).toEqual([]);
+
+      await writeFile(resumedPath, (await readFile(resumedPath, "utf-8")).replace("sess-d", "sess-a"));
+      const named = await validateTranscript(resumedPath);
+      expect(named.issues).toEqual([]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects when the file does not exist", async () => {
+    await expect(validateTranscript(join(fixturesDir, "missing.jsonl"))).rejects.toThrow();
+  });
+});
+
+describe("formatTranscriptIssue", () => {
+  it("includes line, kind and entry type", () => {
+    expect(
+      formatTranscriptIssue({ line: 7, kind: "unknown-type", entryType: "progress", message: "Unknown entry type" })
+    ).toBe("line 7: unknown-type (progress) - Unknown entry type");
+  });
+});
+
+describe("loadTranscript strict mode", () => {
+  it("throws a TranscriptValidationError listing the problems", async () => {
+    const error = await loadTranscript(malformedPath, { strict: true }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TranscriptValidationError);
+    expect((error as TranscriptValidationError).report.issues).toHaveLength(7);
+    expect((error as Error).message).toContain("line 4: malformed-json");
+  });
+
+  it("loads valid transcripts as usual", async () => {
+    const path = join(fixturesDir, "sample-session.jsonl");
+
+    expect(await loadTranscript(path, { strict: true })).toEqual(await loadTranscript(path));
+  });
+
+  it("skips malformed lines when not strict", async () => {
+    const entries = await loadTranscript(malformedPath);
+
+    expect(entries).toHaveLength(6);
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Transcript validation - line-level diagnostics for malformed transcripts
+ *
+ * The loader skips lines it cannot parse, so a truncated or corrupted
+ * session silently loses messages. Validation reports every problem with
+ * its line number instead.
+ */
+
+import { existsSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import type { TranscriptEntry } from "../types/messages.js";
+import { getAgentId, getUuid, readJsonlLines, ToolPairingTracker } from "./loader.js";
+import { DEFAULT_AGENT_RESOLVER, type AgentResolver } from "./agents.js";
+import { findResumeChain, scanSessionFile } from "./resume.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Kind of problem found in a transcript */
+export type TranscriptIssueKind =
+  | "malformed-json"
+  | "unknown-type"
+  | "missing-uuid"
+  | "missing-timestamp"
+  | "dangling-parent"
+  | "missing-agent-file"
+  | "orphan-tool-result";
+
+/** A problem found on a transcript line */
+export interface TranscriptIssue {
+  /** 1-based line number in the transcript file */
+  line: number;
+  kind: TranscriptIssueKind;
+  /** Entry type, when the line parsed */
+  entryType?: string;
+  message: string;
+}
+
+/** Result of validating a transcript file */
+export interface TranscriptValidationReport {
+  filePath: string;
+  /** Non-empty lines */
+  lines: number;
+  /** Lines that parsed to a JSON object */
+  entries: number;
+  /** Problems, ordered by line */
+  issues: TranscriptIssue[];
+}
+
+/** Options for validating a transcript */
+export interface ValidateTranscriptOptions {
+  /** Check that referenced agent transcripts can be found (default: true) */
+  checkAgents?: boolean;
+  /** Locate agent transcripts (default: flat and nested layouts) */
+  agentResolver?: AgentResolver;
+  /**
+   * Look for the targets of dangling parent links in the whole resume chain,
+   * scanning the directory (default: only in sessions the file's entries name)
+   */
+  followResume?: boolean;
+}
+
+/** Thrown by strict loading when a transcript has problems */
+export class TranscriptValidationError extends Error {
+  readonly report: TranscriptValidationReport;
+
+  constructor(report: TranscriptValidationReport) {
+    const count = report.issues.length;
+    super(
+      `${report.filePath}: ${count} problem${count === 1 ? "" : "s"} found\n` +
+        report.issues.map((issue) => `  ${formatTranscriptIssue(issue)}`).join("\n")
+    );
+    this.name = "TranscriptValidationError";
+    this.report = report;
+  }
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/** Entry types written by Claude Code */
+const KNOWN_ENTRY_TYPES = new Set<string>([
+  "user",
+  "assistant",
+  "system",
+  "summary",
+  "queue-operation",
+  "file-history-snapshot",
+]);
+
+/** Entry types that are part of the message thread and need a uuid */
+const THREADED_ENTRY_TYPES = new Set<string>(["user", "assistant"]);
+
+/** Entry types that need a timestamp */
+const TIMESTAMPED_ENTRY_TYPES = new Set<string>([
+  "user",
+  "assistant",
+  "system",
+  "queue-operation",
+]);
+
+/** Validate a transcript file, reporting problems with line numbers */
+export async function validateTranscript(
+  filePath: string,
+  options: ValidateTranscriptOptions = {}
+): Promise<TranscriptValidationReport> {
+  const { checkAgents = true, agentResolver = DEFAULT_AGENT_RESOLVER, followResume = false } = options;
+
+  const issues: TranscriptIssue[] = [];
+  const uuids = new Set<string>();
+  const sessionIds = new Set<string>();
+  const entryLines = new Map<string, { line: number; entryType: string }>();
+  const parentRefs: Array<{ line: number; entryType: string; parentUuid: string }> = [];
+  const agentRefs: Array<{ line: number; entryType: string; agentId: string }> = [];
+  const pairing = new ToolPairingTracker();
+
+  let lineNumber = 0;
+  let lines = 0;
+  let entries = 0;
+
+  for await (const raw of readJsonlLines(filePath)) {
+    lineNumber++;
+    const trimmed = raw.trim();
+    if (!trimmed) continue;
+    lines++;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch (error) {
+      issues.push({
+        line: lineNumber,
+        kind: "malformed-json",
+        message: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+
+    if (!isRecord(parsed)) {
+      issues.push({ line: lineNumber, kind: "malformed-json", message: "Line is not a JSON object" });
+      continue;
+    }
+    entries++;
+
+    const type = typeof parsed["type"] === "string" ? parsed["type"] : undefined;
+    if (!type || !KNOWN_ENTRY_TYPES.has(type)) {
+      issues.push({
+        line: lineNumber,
+        kind: "unknown-type",
+        entryType: type,
+        message: type ? `Unknown entry type "${type}"` : "Entry has no type",
+      });
+      continue;
+    }
+
+    if (THREADED_ENTRY_TYPES.has(type) && !isNonEmptyString(parsed["uuid"])) {
+      issues.push({ line: lineNumber, kind: "missing-uuid", entryType: type, message: "Missing uuid" });
+    }
+    if (TIMESTAMPED_ENTRY_TYPES.has(type) && !isNonEmptyString(parsed["timestamp"])) {
+      issues.push({
+        line: lineNumber,
+        kind: "missing-timestamp",
+        entryType: type,
+        message: "Missing timestamp",
+      });
+    }
+
+    const entry = parsed as unknown as TranscriptEntry;
+    const uuid = getUuid(entry);
+    if (uuid) {
+      uuids.add(uuid);
+      entryLines.set(uuid, { line: lineNumber, entryType: type });
+    }
+
+    if (isNonEmptyString(parsed["sessionId"])) {
+      sessionIds.add(parsed["sessionId"]);
+    }
+
+    const parentUuid = parsed["parentUuid"];
+    if (isNonEmptyString(parentUuid)) {
+      parentRefs.push({ line: lineNumber, entryType: type, parentUuid });
+    }
+
+    const agentId = getAgentId(entry);
+    if (agentId) {
+      agentRefs.push({ line: lineNumber, entryType: type, agentId });
+    }
+
+    pairing.add(entry);
+  }
+
+  // Parent links may point forward, so check them once every uuid is known.
+  // A resumed session links back into the session it continues.
+  const dangling = parentRefs.filter((ref) => !uuids.has(ref.parentUuid));
+  const chainUuids =
+    dangling.length === 0
+      ? new Set<string>()
+      : followResume
+        ? await getResumeChainUuids(filePath)
+        : await getSessionUuids(filePath, sessionIds);
+  for (const ref of dangling) {
+    if (!chainUuids.has(ref.parentUuid)) {
+      issues.push({
+        line: ref.line,
+        kind: "dangling-parent",
+        entryType: ref.entryType,
+        message: `parentUuid ${ref.parentUuid} does not match any message`,
+      });
+    }
+  }
+
+  if (checkAgents) {
+    for (const ref of agentRefs) {
+      if (!(await agentResolver(ref.agentId, filePath))) {
+        issues.push({
+          line: ref.line,
+          kind: "missing-agent-file",
+          entryType: ref.entryType,
+          message: `Agent transcript not found for agent ${ref.agentId}`,
+        });
+      }
+    }
+  }
+
+  for (const uuid of pairing.report().orphanResults) {
+    const location = entryLines.get(uuid);
+    // Results without a uuid were already reported as missing-uuid
+    if (!location) continue;
+    issues.push({
+      line: location.line,
+      kind: "orphan-tool-result",
+      entryType: location.entryType,
+      message: "Tool result has no matching tool call",
+    });
+  }
+
+  issues.sort((a, b) => a.line - b.line);
+
+  return { filePath, lines, entries, issues };
+}
+
+/** Format an issue as a single line, e.g. "line 12: malformed-json - ..." */
+export function formatTranscriptIssue(issue: TranscriptIssue): string {
+  const type = issue.entryType ? ` (${issue.entryType})` : "";
+  return `line ${issue.line}: ${issue.kind}${type} - ${issue.message}`;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** UUIDs of the messages in the sibling session files named by `sessionIds` */
+async function getSessionUuids(filePath: string, sessionIds: Set<string>): Promise<Set<string>> {
+  const uuids = new Set<string>();
+  const target = resolve(filePath);
+  for (const sessionId of sessionIds) {
+    const path = join(dirname(target), `${sessionId}.jsonl`);
+    if (path === target || !existsSync(path)) continue;
+    for (const uuid of (await scanSessionFile(path)).uuids) uuids.add(uuid);
+  }
+  return uuids;
+}
+
+/** UUIDs of the messages in the other files of a session's resume chain */
+async function getResumeChainUuids(filePath: string): Promise<Set<string>> {
+  const uuids = new Set<string>();
+  const target = resolve(filePath);
+  for (const path of await findResumeChain(filePath)) {
+    if (path === target) continue;
+    for (const uuid of (await scanSessionFile(path)).uuids) uuids.add(uuid);
+  }
+  return uuids;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0;
+}
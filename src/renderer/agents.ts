@@ -0,0 +1,60 @@
+/**
+ * Subagent rendering - agent conversations nested under their Task call
+ */
+
+import { BOX, colorize, style } from "./ansi.js";
+import type { RenderTheme } from "./theme.js";
+
+/** Config for subagent rendering */
+export interface AgentRenderConfig {
+  theme: RenderTheme;
+  width: number;
+}
+
+/** Columns taken by the agent gutter ("  │ ") */
+export const AGENT_GUTTER_WIDTH = 4;
+
+// =============================================================================
+// Agent Blocks
+// =============================================================================
+
+/**
+ * Render the header placed above an agent's conversation.
+ * Format: "  ⤵ Review parser (code-reviewer)"
+ */
+export function renderAgentHeader(
+  description: string,
+  subagentType: string | undefined,
+  cfg: AgentRenderConfig
+): string {
+  const { theme } = cfg;
+  const type = subagentType ? colorize(` (${subagentType})`, theme.muted) : "";
+  return (
+    "  " +
+    colorize(BOX.arrowSubagent, theme.agent) +
+    " " +
+    style(description, { fg: theme.agent, bold: true }) +
+    type
+  );
+}
+
+/**
+ * Indent rendered agent output behind a coloured gutter.
+ * Content should be rendered AGENT_GUTTER_WIDTH columns narrower.
+ */
+export function renderAgentBlock(rendered: string, cfg: AgentRenderConfig): string {
+  const gutter = "  " + colorize(BOX.vertical, cfg.theme.agent);
+  return rendered
+    .split("\n")
+    .map((line) => (line ? `${gutter} ${line}` : gutter))
+    .join("\n");
+}
+
+/**
+ * Render the one-line summary shown for a collapsed agent run.
+ * Format: "  ⎿  Done (3 tool uses · 42s)"
+ */
+export function renderAgentSummary(summary: string, cfg: AgentRenderConfig): string {
+  const { theme } = cfg;
+  return "  " + colorize(BOX.indent, theme.muted) + "  " + colorize(summary, theme.agent);
+}
@@ -0,0 +1,142 @@
+/**
+ * Divider rendering - full-width notices between parts of a conversation
+ * (compaction boundaries, session summaries, resumed sessions, clip ranges)
+ */
+
+import type {
+  AssistantMessage,
+  SummaryMessage,
+  SystemMessage,
+  TokenUsage,
+} from "../types/messages.js";
+import { BOX, colorize, style, truncate, wordWrap } from "./ansi.js";
+import type { RenderTheme } from "./theme.js";
+
+/** Config for divider rendering */
+export interface DividerConfig {
+  theme: RenderTheme;
+  width: number;
+}
+
+/** Symbol used by Claude Code for compaction notices */
+const COMPACT_SYMBOL = "✻";
+
+/** Symbol for resumed sessions */
+const RESUME_SYMBOL = "↻";
+
+/** Symbol for messages left out between clip ranges */
+const SKIP_SYMBOL = "⋯";
+
+// =============================================================================
+// Generic Divider
+// =============================================================================
+
+/**
+ * Render a labelled full-width divider.
+ * Format: "══ ✻ Label ════════════════"
+ */
+export function renderDivider(label: string, cfg: DividerConfig): string {
+  const { theme, width } = cfg;
+  const lead = BOX.doubleHorizontal.repeat(2) + " ";
+  const text = truncate(label, Math.max(1, width - lead.length - 3));
+  const trail = " " + BOX.doubleHorizontal.repeat(Math.max(2, width - lead.length - text.length - 1));
+
+  return (
+    colorize(lead, theme.muted) +
+    style(text, { fg: theme.muted, bold: true }) +
+    colorize(trail, theme.muted)
+  );
+}
+
+// =============================================================================
+// Compaction Boundaries
+// =============================================================================
+
+/**
+ * Render a compaction boundary, with before/after context size when known.
+ * Format: "══ ✻ Conversation compacted · 152.3k → 12.1k tokens ══════"
+ */
+export function renderCompactionDivider(
+  compaction: NonNullable<AssistantMessage["context_management"]>,
+  cfg: DividerConfig
+): string {
+  let label = `${COMPACT_SYMBOL} Conversation compacted`;
+
+  const before = compaction.original_tokens ? getContextTokens(compaction.original_tokens) : null;
+  const after = compaction.compacted_tokens ? getContextTokens(compaction.compacted_tokens) : null;
+  if (before !== null && after !== null) {
+    label += ` · ${formatTokenCount(before)} → ${formatTokenCount(after)} tokens`;
+  } else if (before !== null) {
+    label += ` · ${formatTokenCount(before)} tokens`;
+  }
+
+  return renderDivider(label, cfg);
+}
+
+/**
+ * Render a session summary as a divider followed by the summary text.
+ * Format: "══ ✻ Summary ═════" / "  Fixed the auth bug"
+ */
+export function renderSummaryDivider(msg: SummaryMessage, cfg: DividerConfig): string {
+  const { theme, width } = cfg;
+  const divider = renderDivider(`${COMPACT_SYMBOL} Summary`, cfg);
+
+  const text = msg.summary.trim();
+  if (!text) return divider;
+
+  const lines = wordWrap(text, width - 2).map(
+    (line) => "  " + style(line, { fg: theme.muted, italic: true })
+  );
+  return divider + "\n" + lines.join("\n");
+}
+
+// =============================================================================
+// Resumed Sessions
+// =============================================================================
+
+/**
+ * Render the divider placed where a resumed session continues.
+ * Format: "══ ↻ Session resumed · 2025-12-04 10:30 ══════"
+ */
+export function renderResumeDivider(msg: SystemMessage, cfg: DividerConfig): string {
+  let label = `${RESUME_SYMBOL} Session resumed`;
+
+  const time = msg.timestamp ? new Date(msg.timestamp) : null;
+  if (time && !Number.isNaN(time.getTime())) {
+    label += ` · ${time.toISOString().slice(0, 16).replace("T", " ")}`;
+  }
+
+  return renderDivider(label, cfg);
+}
+
+// =============================================================================
+// Skipped Messages
+// =============================================================================
+
+/**
+ * Render the divider placed between the ranges of a clip.
+ * Format: "══ ⋯ 14 messages skipped ⋯ ══════"
+ */
+export function renderSkipDivider(msg: SystemMessage, cfg: DividerConfig): string {
+  return renderDivider(`${SKIP_SYMBOL} ${msg.content ?? "Messages skipped"} ${SKIP_SYMBOL}`, cfg);
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Context size for a usage record (input plus cached input) */
+export function getContextTokens(usage: TokenUsage): number {
+  return (
+    usage.input_tokens +
+    (usage.cache_creation_input_tokens ?? 0) +
+    (usage.cache_read_input_tokens ?? 0)
+  );
+}
+
+/** Format a token count compactly: 950, 12.1k, 1.2M */
+export function formatTokenCount(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1000000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${(tokens / 1000000).toFixed(1)}M`;
+}
@@ -4,5 +4,7 @@ export * from "./content.js";
 export * from "./messages.js";
 export * from "./input.js";
 export * from "./tool-results.js";
+export * from "./dividers.js";
+export * from "./agents.js";
 export * from "./tool-formatting.js";
 export * from "./commands.js";
@@ -14,6 +14,7 @@ const defaultConfig: RenderConfig = {
   width: 80,
   maxToolOutputLines: 20,
   showThinking: true,
+  showToolResults: true,
   indentSize: 2,
 };
 
@@ -10,12 +10,19 @@ import type {
   ContentItem,
   ToolUseContent,
 } from "../types/messages.js";
+import { CLIP_SKIPPED_SUBTYPE, SESSION_RESUMED_SUBTYPE } from "../types/messages.js";
 import { BOX, colorize, style, wordWrap } from "./ansi.js";
 import { renderTodosFromInput } from "./todos.js";
 import { renderMarkdown } from "./markdown.js";
 import type { RenderTheme } from "./theme.js";
 import { TOKYO_NIGHT } from "./theme.js";
 import { renderToolResult } from "./tool-results.js";
+import {
+  renderCompactionDivider,
+  renderResumeDivider,
+  renderSkipDivider,
+  renderSummaryDivider,
+} from "./dividers.js";
 import { formatToolName, formatToolArgs } from "./tool-formatting.js";
 import {
   isCommandMessage,
@@ -43,6 +50,8 @@ export interface RenderConfig {
   maxToolOutputLines: number;
   /** Show thinking blocks */
   showThinking: boolean;
+  /** Show tool results (calls without one are then not flagged as missing it) */
+  showToolResults: boolean;
   /** Indent for nested content */
   indentSize: number;
 }
@@ -52,6 +61,7 @@ export const DEFAULT_RENDER_CONFIG: RenderConfig = {
   width: 100,
   maxToolOutputLines: 5, // Matches Claude Code's compact display (wrapped lines counted)
   showThinking: true,
+  showToolResults: true,
   indentSize: 2,
 };
 
@@ -78,7 +88,7 @@ export function renderMessage(
     case "system":
       return renderSystemMessage(entry, cfg);
     case "summary":
-      return ""; // Skip rendering
+      return renderSummaryDivider(entry, cfg);
     case "queue-operation":
       if (entry.operation === "remove") {
         return renderQueueRemove(entry.content, cfg);
@@ -100,6 +110,7 @@ function renderUserMessage(msg: UserMessage, cfg: RenderConfig): string {
 
   // Tool result
   if (msg.toolUseResult) {
+    if (!cfg.showToolResults) return "";
     // Handle string error results (e.g., hook errors)
     if (typeof msg.toolUseResult === "string") {
       return renderToolResult({ content: msg.toolUseResult, is_error: true }, cfg);
@@ -207,6 +218,11 @@ function renderInterruptMessage(
 function renderAssistantMessage(msg: AssistantMessage, cfg: RenderConfig): string {
   const output: string[] = [];
 
+  // Compaction boundary precedes the first message of the compacted context
+  if (msg.context_management?.type === "compacted") {
+    output.push(renderCompactionDivider(msg.context_management, cfg));
+  }
+
   for (const item of msg.message.content) {
     const rendered = renderContentItem(item, cfg);
     if (rendered) {
@@ -291,6 +307,14 @@ function renderSystemMessage(msg: SystemMessage, cfg: RenderConfig): string {
 
   if (!msg.content) return "";
 
+  if (msg.subtype === SESSION_RESUMED_SUBTYPE) {
+    return renderResumeDivider(msg, cfg);
+  }
+
+  if (msg.subtype === CLIP_SKIPPED_SUBTYPE) {
+    return renderSkipDivider(msg, cfg);
+  }
+
   const levelColors: Record<string, string> = {
     info: theme.muted,
     warning: theme.toolName,
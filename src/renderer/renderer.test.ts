@@ -6,6 +6,7 @@ import { loadTranscript } from "../parser/loader.js";
 import { renderMessage } from "./messages.js";
 import { stripAnsi } from "./ansi.js";
 import { TOKYO_NIGHT } from "./theme.js";
+import { renderAgentBlock, renderAgentHeader, renderAgentSummary } from "./agents.js";
 
 const __dirname = fileURLToPath(new URL(".", import.meta.url));
 const fixturesDir = join(__dirname, "../parser/__fixtures__");
@@ -104,15 +105,45 @@ describe("renderMessage", () => {
     expect(stripAnsi(output)).toContain("Session auto-saved");
   });
 
-  it("returns empty string for summary messages", async () => {
+  it("renders summary messages as a divider", async () => {
     const summaryEntry = {
       type: "summary" as const,
       summary: "Test summary",
       leafUuid: "test-uuid",
     };
 
-    const output = renderMessage(summaryEntry, { theme: TOKYO_NIGHT });
-    expect(output).toBe("");
+    const output = stripAnsi(renderMessage(summaryEntry, { theme: TOKYO_NIGHT, width: 40 }));
+    const [divider, text] = output.split("\n");
+    expect(divider).toBe("══ ✻ Summary " + "═".repeat(27));
+    expect(text).toBe("  Test summary");
+  });
+
+  it("renders a compaction divider before compacted assistant messages", async () => {
+    const entries = await loadTranscript(join(fixturesDir, "compacted-session.jsonl"));
+    const compacted = entries.find((e) => e.type === "assistant" && e.context_management);
+
+    const output = stripAnsi(renderMessage(compacted!, { theme: TOKYO_NIGHT }));
+    const [divider] = output.split("\n");
+    expect(divider).toContain("✻ Conversation compacted · 152.3k → 12.1k tokens");
+    expect(divider).toHaveLength(100);
+    expect(output).toContain("Retries added");
+  });
+
+  it("renders session resumed entries as a divider", () => {
+    const output = stripAnsi(
+      renderMessage(
+        {
+          type: "system",
+          subtype: "session_resumed",
+          timestamp: "2025-12-05T09:00:00.000Z",
+          content: "Session resumed: sess-b",
+          level: "info",
+        },
+        { theme: TOKYO_NIGHT, width: 60 }
+      )
+    );
+
+    expect(output).toBe("══ ↻ Session resumed · 2025-12-05 09:00 " + "═".repeat(20));
   });
 
   it("returns empty string for file-history-snapshot", async () => {
@@ -1005,3 +1036,23 @@ describe("bash mode rendering", () => {
     expect(stripped).toContain("⎿");
   });
 });
+
+describe("agent rendering", () => {
+  const cfg = { theme: TOKYO_NIGHT, width: 80 };
+
+  it("renders the agent header with description and type", () => {
+    const output = renderAgentHeader("Review parser", "code-reviewer", cfg);
+    expect(stripAnsi(output)).toBe("  ⤵ Review parser (code-reviewer)");
+    expect(output).toContain("\x1b[38;2;187;154;247m");
+  });
+
+  it("indents agent output behind a gutter", () => {
+    const output = stripAnsi(renderAgentBlock("● Read(a.ts)\n\nDone", cfg));
+    expect(output.split("\n")).toEqual(["  │ ● Read(a.ts)", "  │", "  │ Done"]);
+  });
+
+  it("renders the collapsed run summary", () => {
+    const output = stripAnsi(renderAgentSummary("Done (2 tool uses · 5s)", cfg));
+    expect(output).toBe("  ⎿  Done (2 tool uses · 5s)");
+  });
+});
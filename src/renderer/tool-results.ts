@@ -4,7 +4,8 @@
  */
 
 import type { RenderConfig } from "./messages.js";
-import { BOX, colorize, indent, wordWrap } from "./ansi.js";
+import type { RenderTheme } from "./theme.js";
+import { BOX, colorize, indent, style, wordWrap } from "./ansi.js";
 import { isEditToolResult, renderEditDiff } from "./diff.js";
 import { isTodoWriteToolResult } from "./todos.js";
 
@@ -185,3 +186,23 @@ export function renderToolResult(
 
   return output.join("\n");
 }
+
+// =============================================================================
+// Unpaired Tool Calls and Results
+// =============================================================================
+
+/**
+ * Render the placeholder shown under a tool call that never received a result.
+ * Format: "  ⎿  No result recorded"
+ */
+export function renderMissingToolResult(theme: RenderTheme): string {
+  return "  " + colorize(BOX.indent, theme.muted) + "  " + colorize("No result recorded", theme.muted);
+}
+
+/**
+ * Render the header shown above a tool result whose call is not in the transcript.
+ * Format: "● Unknown tool call"
+ */
+export function renderOrphanToolResultHeader(theme: RenderTheme): string {
+  return colorize(BOX.bullet, theme.muted) + " " + style("Unknown tool call", { fg: theme.muted, italic: true });
+}
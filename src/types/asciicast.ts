@@ -90,6 +90,26 @@ export interface AsciicastHeader {
   env?: Record<string, string>;
 }
 
+// =============================================================================
+// asciicast v2 Header
+// =============================================================================
+
+/** Header of the older v2 format, still the only one some players read */
+export interface AsciicastV2Header {
+  version: 2;
+  width: number;
+  height: number;
+  timestamp?: number;
+  title?: string;
+  env?: Record<string, string>;
+  theme?: AsciicastTheme;
+}
+
+/** .cast file format version to write */
+export type CastFormat = "v2" | "v3";
+
+export const CAST_FORMATS: readonly CastFormat[] = ["v2", "v3"];
+
 // =============================================================================
 // asciicast v3 Events
 // =============================================================================
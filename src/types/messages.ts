@@ -33,11 +33,20 @@ export interface ImageContent {
   };
 }
 
+/** Tool result block in a user message, linked to its call by tool_use_id */
+export interface ToolResultItem {
+  type: "tool_result";
+  tool_use_id: string;
+  content?: string | Array<{ type: string; text?: string }>;
+  is_error?: boolean;
+}
+
 export type ContentItem =
   | TextContent
   | ThinkingContent
   | ToolUseContent
-  | ImageContent;
+  | ImageContent
+  | ToolResultItem;
 
 // =============================================================================
 // Token Usage
@@ -103,6 +112,10 @@ export interface ToolUseResultObject {
   query?: string;
   results?: Array<{ title?: string; url?: string; snippet?: string } | string>;
   durationSeconds?: number;
+  /** For Task/Agent results - run totals reported by the subagent */
+  totalToolUseCount?: number;
+  totalDurationMs?: number;
+  totalTokens?: number;
   /** For Task/Agent results - content array with text items */
   // Note: content can be string (standard) or array (Task result)
 }
@@ -120,7 +133,13 @@ interface BaseMessage {
   sessionId: string;
   uuid: string;
   parentUuid: string | null;
+  /** Parent across a compaction boundary (parentUuid is null there) */
+  logicalParentUuid?: string | null;
   isSidechain?: boolean;
+  /** Subagent that wrote the entry (agent transcripts only) */
+  agentId?: string;
+  /** Git branch checked out when the entry was written */
+  gitBranch?: string;
 }
 
 /** User message - human prompts and tool results */
@@ -136,6 +155,8 @@ export interface UserMessage extends BaseMessage {
   toolUseResult?: ToolUseResult;
   /** Meta messages (caveats, system info) should not use input animation */
   isMeta?: boolean;
+  /** Summary injected after a compaction, not typed by the user */
+  isCompactSummary?: boolean;
 }
 
 /** Assistant message - Claude's responses */
@@ -161,11 +182,19 @@ export interface AssistantMessage extends BaseMessage {
 /** System message - warnings, info, errors */
 export interface SystemMessage {
   type: "system";
+  /** Kind of notice (e.g. SESSION_RESUMED_SUBTYPE) */
+  subtype?: string;
   timestamp: string;
   content: string | null;
   level?: "warning" | "info" | "error";
 }
 
+/** Subtype of the synthetic divider placed between stitched session files */
+export const SESSION_RESUMED_SUBTYPE = "session_resumed";
+
+/** Subtype of the synthetic divider placed between the ranges of a clip */
+export const CLIP_SKIPPED_SUBTYPE = "clip_skipped";
+
 /** Summary message - auto-generated session summaries */
 export interface SummaryMessage {
   type: "summary";